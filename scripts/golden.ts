@@ -0,0 +1,34 @@
+/**
+ * Golden regression runner — diffs the TypeScript engine against the
+ * recorded fixtures in src/engine/regression/fixtures. Only fixtures with
+ * plugin output check parity; self-captured ones guard against regressions.
+ *
+ * Usage: npm run golden [-- <fixture-name-filter>]
+ * Exits with code 1 if any fixture does not match.
+ */
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  runGoldenFixture,
+  formatGoldenReport,
+  type GoldenFixture,
+} from '../src/engine/regression/goldenHarness';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '../src/engine/regression/fixtures');
+const filter = process.argv[2];
+
+const fixtures: GoldenFixture[] = readdirSync(fixturesDir)
+  .filter((f) => f.endsWith('.json'))
+  .sort()
+  .map((f) => JSON.parse(readFileSync(join(fixturesDir, f), 'utf8')) as GoldenFixture)
+  .filter((f) => !filter || f.name.includes(filter));
+
+if (fixtures.length === 0) {
+  console.error(`No golden fixtures found${filter ? ` matching "${filter}"` : ''}`);
+  process.exit(1);
+}
+
+const results = fixtures.map(runGoldenFixture);
+console.log(formatGoldenReport(results));
+process.exit(results.every((r) => r.passed) ? 0 : 1);
@@ -3,11 +3,18 @@ import { StatusBar } from './components/layout/StatusBar';
 import { SplitView } from './components/layout/SplitView';
 import { useConfigStore } from './store/useConfigStore';
 
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+}
+
 export default function App() {
   const isDrawing = useConfigStore((s) => s.isDrawing);
   const setIsDrawing = useConfigStore((s) => s.setIsDrawing);
-  const undoLastPoint = useConfigStore((s) => s.undoLastPoint);
+  const undo = useConfigStore((s) => s.undo);
+  const redo = useConfigStore((s) => s.redo);
   const clearGuide = useConfigStore((s) => s.clearGuide);
+  const setGuideClosed = useConfigStore((s) => s.setGuideClosed);
 
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
@@ -19,14 +26,20 @@ export default function App() {
       if (e.key === 'Enter' && isDrawing) {
         setIsDrawing(false);
       }
-      if (e.key === 'z' && (e.ctrlKey || e.metaKey) && isDrawing) {
+      // C closes the loop — unless the key is typed into a field
+      if (e.key === 'c' && isDrawing && !(e.ctrlKey || e.metaKey) && !isTextInput(e.target)) {
+        setGuideClosed(true);
+      }
+      // Ctrl+Z / Ctrl+Shift+Z — text fields keep their own undo
+      if (e.key.toLowerCase() === 'z' && (e.ctrlKey || e.metaKey) && !isTextInput(e.target)) {
         e.preventDefault();
-        undoLastPoint();
+        if (e.shiftKey) redo();
+        else undo();
       }
     }
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isDrawing, setIsDrawing, undoLastPoint, clearGuide]);
+  }, [isDrawing, setIsDrawing, undo, redo, clearGuide, setGuideClosed]);
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', width: '100vw', height: '100vh' }}>
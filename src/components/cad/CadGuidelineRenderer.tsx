@@ -2,6 +2,12 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useConfigStore } from '../../store/useConfigStore';
 import type { Point2D } from '../../types/geometry';
 import { distance2D } from '../../utils/math';
+import { getSegmentCount, glazingSide, isInsideCorner, segmentEndIndex } from '../../engine/geometry/guideChain';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { useDesignIssues, ISSUE_COLORS } from '../../hooks/useDesignIssues';
+import { issueSegments, issueVertices, type DesignIssue } from '../../engine/validation/designRules';
+import type { GuideChain } from '../../types/chain';
+import { SPEL_GUIDE_TOLERANCE } from '../../utils/constants';
 
 interface ViewBox {
   x: number;
@@ -155,6 +161,8 @@ function AngleLabel({
 
   const sv = toSvg(vertex);
   const fontSize = 12 * scale;
+  const inside = isInsideCorner(angle);
+  const labelColor = inside ? '#fb923c' : '#c084fc';
 
   const handleClick = useCallback(
     (ev: React.MouseEvent) => {
@@ -167,7 +175,8 @@ function AngleLabel({
 
   const commit = useCallback(() => {
     const num = parseFloat(value);
-    if (!isNaN(num) && num > 0 && num < 360) {
+    // Sign picks the turn: + outside corner, − inside corner
+    if (!isNaN(num) && num !== 0 && Math.abs(num) <= 180) {
       updateAngle(vertexIndex, num);
     }
     setEditing(false);
@@ -209,8 +218,8 @@ function AngleLabel({
             fontSize: `${fontSize * 0.9}px`,
             textAlign: 'center',
             background: '#1e293b',
-            color: '#c084fc',
-            border: '1px solid #7c3aed',
+            color: labelColor,
+            border: `1px solid ${inside ? '#ea580c' : '#7c3aed'}`,
             borderRadius: '2px',
             outline: 'none',
             padding: 0,
@@ -226,7 +235,7 @@ function AngleLabel({
       y={sv.y - 15 * scale}
       textAnchor="middle"
       dominantBaseline="middle"
-      fill="#c084fc"
+      fill={labelColor}
       fontSize={fontSize}
       fontFamily="monospace"
       fontWeight="bold"
@@ -235,7 +244,7 @@ function AngleLabel({
       onMouseUp={(ev) => ev.stopPropagation()}
       onClick={handleClick}
     >
-      {angle.toFixed(1)}°
+      {angle.toFixed(1)}°{inside ? ' inv.' : ''}
     </text>
   );
 }
@@ -265,19 +274,6 @@ function VertexDot({
   );
 }
 
-/**
- * Compute the signed area of a polyline (not necessarily closed).
- * Positive = counter-clockwise, Negative = clockwise (in internal y-up coords).
- * For an open polyline (like our guide), this tells us the winding direction.
- */
-function polylineSignedArea(points: Point2D[]): number {
-  let area = 0;
-  for (let i = 0; i < points.length - 1; i++) {
-    area += (points[i + 1].x - points[i].x) * (points[i + 1].y + points[i].y);
-  }
-  return area;
-}
-
 // ─── Panel visualization along a segment ─────────────────────
 function PanelViz({
   start,
@@ -421,7 +417,68 @@ function PanelViz({
 }
 
 // ─── Main renderer ───────────────────────────────────────────
+// ─── Design rule markers ────────────────────────────────────
+// Wide glow under sides with issues, ring around corners with issues
+function IssueMarkers({
+  chains,
+  issues,
+  strokeW,
+  dotR,
+}: {
+  chains: GuideChain[];
+  issues: DesignIssue[];
+  strokeW: number;
+  dotR: number;
+}) {
+  return (
+    <g>
+      {chains.map((chain) => {
+        const n = chain.points.length;
+        if (n < 2) return null;
+        const segCount = getSegmentCount(chain.points, chain.closed);
+        const segs = [...issueSegments(issues, chain.id)].filter(([i]) => i < segCount);
+        const verts = [...issueVertices(issues, chain.id)].filter(([i]) => i < n);
+        return (
+          <g key={chain.id}>
+            {segs.map(([i, severity]) => {
+              const s = toSvg(chain.points[i]);
+              const e = toSvg(chain.points[segmentEndIndex(chain.points, i)]);
+              return (
+                <line
+                  key={`seg-${i}`}
+                  x1={s.x} y1={s.y} x2={e.x} y2={e.y}
+                  stroke={ISSUE_COLORS[severity]}
+                  strokeWidth={strokeW * 5}
+                  strokeLinecap="round"
+                  opacity={0.35}
+                />
+              );
+            })}
+            {verts.map(([i, severity]) => {
+              const v = toSvg(chain.points[i]);
+              return (
+                <circle
+                  key={`vert-${i}`}
+                  cx={v.x}
+                  cy={v.y}
+                  r={dotR * 2.2}
+                  fill="none"
+                  stroke={ISSUE_COLORS[severity]}
+                  strokeWidth={strokeW}
+                />
+              );
+            })}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
 export function CadGuidelineRenderer({ viewBox }: { viewBox: ViewBox }) {
+  const chains = useGuideChains();
+  const issues = useDesignIssues();
+  const activeChainId = useConfigStore((s) => s.activeChainId);
   const guidePoints = useConfigStore((s) => s.guidePoints);
   const previewPoint = useConfigStore((s) => s.previewPoint);
   const isDrawing = useConfigStore((s) => s.isDrawing);
@@ -431,6 +488,8 @@ export function CadGuidelineRenderer({ viewBox }: { viewBox: ViewBox }) {
   const selectedSegmentIndex = useConfigStore((s) => s.selectedSegmentIndex);
   const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
   const getEdgeData = useConfigStore((s) => s.getEdgeData);
+  // Segments and angles are read through getters — closing the chain changes them
+  useConfigStore((s) => s.guideClosed);
 
   // Scale factor: how many mm per pixel-ish unit for text/dots
   const scale = viewBox.w / 800;
@@ -439,16 +498,10 @@ export function CadGuidelineRenderer({ viewBox }: { viewBox: ViewBox }) {
   const angles = getAngles();
   const offsetPoints = getOffsetPoints();
 
-  // Determine outward direction for panel visualization.
-  // The offset line (orange) is on the INSIDE of the balcony (toward building).
-  // Panels should be drawn on the OUTSIDE (away from building = opposite side from offset).
-  // The offset chain uses perpendicular(-dy/len, dx/len) with distance -10,
-  // which effectively places the offset on the right side of travel direction.
-  // We use the polyline signed area (in internal y-up coords) to detect turn direction:
-  //   area > 0 for this L-shape → the "inside" of the L is upper-right
-  //   → outward (away from inside) needs right-side perpendicular in SVG = sign -1
-  const area = polylineSignedArea(guidePoints);
-  const outwardSign = area >= 0 ? -1 : 1;
+  // Panels are drawn on the glazing side, outside the balcony. In SVG y
+  // points down, so the left of travel in the plan is the right-hand
+  // perpendicular on screen.
+  const outwardSign = -glazingSide(guidePoints);
 
   const strokeW = 2 * scale;
   const dotR = 5 * scale;
@@ -464,10 +517,21 @@ export function CadGuidelineRenderer({ viewBox }: { viewBox: ViewBox }) {
     };
   }
 
-  if (guidePoints.length === 0 && !previewSeg) return null;
+  const inactiveChains = chains.filter((c) => c.id !== activeChainId && c.points.length > 1);
+
+  if (guidePoints.length === 0 && !previewSeg && inactiveChains.length === 0) return null;
 
   return (
     <g style={{ pointerEvents: 'none' }}>
+      {/* Other chains — drawn dim, edited after activating them */}
+      {inactiveChains.map((chain) => {
+        const pts = chain.points.map((p) => { const sv = toSvg(p); return `${sv.x},${sv.y}`; }).join(' ');
+        return chain.closed
+          ? <polygon key={chain.id} points={pts} fill="none" stroke="#9ca3af" strokeWidth={strokeW * 0.75} />
+          : <polyline key={chain.id} points={pts} fill="none" stroke="#9ca3af" strokeWidth={strokeW * 0.75} />;
+      })}
+      {/* Design rule issues — under the chains so the lines stay readable */}
+      <IssueMarkers chains={chains} issues={issues} strokeW={strokeW} dotR={dotR} />
       {/* Main polyline segments — color-coded by selection & wall/glazing */}
       {segments.map((seg, i) => {
         const s = toSvg(seg.start);
@@ -582,7 +646,7 @@ export function CadGuidelineRenderer({ viewBox }: { viewBox: ViewBox }) {
                 y={my + ny * -46 * scale}
                 textAnchor="middle"
                 dominantBaseline="middle"
-                fill={Math.abs(data.spelGuide) > 5 ? '#facc15' : '#9ca3af'}
+                fill={Math.abs(data.spelGuide) > SPEL_GUIDE_TOLERANCE ? '#facc15' : '#9ca3af'}
                 fontSize={fs * 0.85}
                 fontFamily="monospace"
               >
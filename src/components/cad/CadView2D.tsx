@@ -15,10 +15,15 @@ import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { PointCloudViewer } from '../viewport/PointCloudViewer';
 import { GuidelineDrawing } from '../viewport/GuidelineDrawing';
+import { DesignIssues3D } from '../viewport/DesignIssues3D';
+import { ParkingGhost2D } from '../viewport/ParkingGhost2D';
+import { FrameSplits2D } from '../viewport/FrameSplits2D';
+import { SupportProfiles2D } from '../viewport/SupportProfiles2D';
 import { LevelPlane } from '../viewport/LevelPlane';
 import { useConfigStore } from '../../store/useConfigStore';
 import { distance2D } from '../../utils/math';
 import type { Point2D } from '../../types/geometry';
+import { canCloseChain, getSegmentCount, segmentEndIndex } from '../../engine/geometry/guideChain';
 
 // ─── Convert screen click to mm via raycasting XZ plane ──
 const XZ_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
@@ -153,6 +158,8 @@ function DrawingInteraction() {
   const downRef = useRef<{ cx: number; cy: number } | null>(null);
   const movedRef = useRef(false);
   const isPanRef = useRef(false);
+  /** Time of the click that closed the loop — its dblclick must not remove a point */
+  const closedAtRef = useRef(-Infinity);
 
   useEffect(() => {
     const canvas = gl.domElement;
@@ -175,7 +182,7 @@ function DrawingInteraction() {
       return best;
     }
 
-    function hitSegment(mm: Point2D, pts: Point2D[]): number | null {
+    function hitSegment(mm: Point2D, pts: Point2D[], closed: boolean): number | null {
       const cam = camera as THREE.OrthographicCamera;
       const viewWMeters = cam.right - cam.left;
       const rect = getRect();
@@ -184,8 +191,8 @@ function DrawingInteraction() {
 
       let best: number | null = null;
       let bestD = Infinity;
-      for (let i = 0; i < pts.length - 1; i++) {
-        const a = pts[i], b = pts[i + 1];
+      for (let i = 0; i < getSegmentCount(pts, closed); i++) {
+        const a = pts[i], b = pts[segmentEndIndex(pts, i)];
         const dx = b.x - a.x, dy = b.y - a.y, ls = dx * dx + dy * dy;
         let d: number;
         if (ls < 1e-10) {
@@ -216,8 +223,14 @@ function DrawingInteraction() {
         const mm = screenToMm(e.clientX, e.clientY, camera, getRect());
         if (mm) {
           const idx = hitPoint(mm, s.guidePoints);
-          if (idx !== null) {
+          // While drawing, the first point is the close-loop target, not a drag handle
+          const closesLoop = s.isDrawing && idx === 0 && canCloseChain(s.guidePoints);
+          if (idx !== null && !closesLoop) {
             dragRef.current = idx;
+            // The whole drag is one undo step; capturing the pointer brings
+            // the pointerup that ends it here even when released outside
+            s.beginHistoryGroup();
+            canvas.setPointerCapture(e.pointerId);
             canvas.style.cursor = 'grabbing';
             e.preventDefault();
             e.stopPropagation();
@@ -248,6 +261,12 @@ function DrawingInteraction() {
       }
     };
 
+    const endDrag = () => {
+      dragRef.current = null;
+      store().endHistoryGroup();
+      canvas.style.cursor = '';
+    };
+
     const onPointerUp = (e: PointerEvent) => {
       if (isPanRef.current) {
         isPanRef.current = false;
@@ -256,8 +275,7 @@ function DrawingInteraction() {
 
       // End drag
       if (dragRef.current !== null) {
-        dragRef.current = null;
-        canvas.style.cursor = '';
+        endDrag();
         return;
       }
 
@@ -278,8 +296,13 @@ function DrawingInteraction() {
       const mm = screenToMm(e.clientX, e.clientY, camera, getRect());
       if (!mm) return;
 
-      // Drawing: add point
+      // Drawing: click the first point to close the loop, anywhere else to add a point
       if (s.isDrawing) {
+        if (canCloseChain(s.guidePoints) && hitPoint(mm, s.guidePoints) === 0) {
+          s.setGuideClosed(true);
+          closedAtRef.current = e.timeStamp;
+          return;
+        }
         s.addPoint(mm);
         return;
       }
@@ -293,9 +316,31 @@ function DrawingInteraction() {
 
       // Edit: click segment → select
       if (s.guidePoints.length >= 2) {
-        const si = hitSegment(mm, s.guidePoints);
-        s.setSelectedSegmentIndex(si);
+        const si = hitSegment(mm, s.guidePoints, s.guideClosed);
+        if (si !== null) {
+          s.setSelectedSegmentIndex(si);
+          return;
+        }
+      }
+
+      // A segment of another chain makes that chain the active one
+      for (const chain of s.getChains()) {
+        if (chain.id === s.activeChainId) continue;
+        const si = hitSegment(mm, chain.points, chain.closed);
+        if (si !== null) {
+          s.setActiveChain(chain.id);
+          store().setSelectedSegmentIndex(si);
+          return;
+        }
       }
+
+      if (s.guidePoints.length >= 2) s.setSelectedSegmentIndex(null);
+    };
+
+    // The browser took the pointer (touch scroll, lost window focus)
+    const onPointerCancel = () => {
+      if (dragRef.current !== null) endDrag();
+      downRef.current = null;
     };
 
     const onDblClick = (e: MouseEvent) => {
@@ -310,14 +355,15 @@ function DrawingInteraction() {
         s.setIsDrawing(false);
         return;
       }
+      if (e.timeStamp - closedAtRef.current < 500) return;
 
       const pts = s.guidePoints;
       if (pts.length > 0) {
         const pi = hitPoint(mm, pts);
         if (pi !== null) { s.removePoint(pi); return; }
-        const si = hitSegment(mm, pts);
+        const si = hitSegment(mm, pts, s.guideClosed);
         if (si !== null) {
-          const a = pts[si], b = pts[si + 1];
+          const a = pts[si], b = pts[segmentEndIndex(pts, si)];
           const dx = b.x - a.x, dy = b.y - a.y, ls = dx * dx + dy * dy;
           const t = ls < 1e-10 ? 0.5 : Math.max(0.05, Math.min(0.95, ((mm.x - a.x) * dx + (mm.y - a.y) * dy) / ls));
           s.insertPointOnSegment(si, { x: a.x + t * dx, y: a.y + t * dy });
@@ -331,12 +377,14 @@ function DrawingInteraction() {
     canvas.addEventListener('pointerdown', onPointerDown, true);
     canvas.addEventListener('pointermove', onPointerMove, true);
     canvas.addEventListener('pointerup', onPointerUp, true);
+    canvas.addEventListener('pointercancel', onPointerCancel, true);
     canvas.addEventListener('dblclick', onDblClick);
     canvas.addEventListener('contextmenu', onContextMenu);
     return () => {
       canvas.removeEventListener('pointerdown', onPointerDown, true);
       canvas.removeEventListener('pointermove', onPointerMove, true);
       canvas.removeEventListener('pointerup', onPointerUp, true);
+      canvas.removeEventListener('pointercancel', onPointerCancel, true);
       canvas.removeEventListener('dblclick', onDblClick);
       canvas.removeEventListener('contextmenu', onContextMenu);
     };
@@ -475,6 +523,8 @@ export function CadView2D() {
   const originY = useConfigStore((s) => s.pointCloudOriginY);
   const showLevels = useConfigStore((s) => s.showLevels2D);
   const setShowLevels = useConfigStore((s) => s.setShowLevels2D);
+  const showParking = useConfigStore((s) => s.showParking2D);
+  const setShowParking = useConfigStore((s) => s.setShowParking2D);
 
   // Initial ortho size: 3m in each direction (= 6000mm total)
   const initHalf = 3; // meters
@@ -502,7 +552,11 @@ export function CadView2D() {
         <DrawingInteraction />
         <AxisLines />
         <PointCloudViewer />
+        <SupportProfiles2D />
         <GuidelineDrawing />
+        <FrameSplits2D />
+        <DesignIssues3D />
+        <ParkingGhost2D />
         <AngleTrackingLines />
         <LevelPlanes2D />
       </Canvas>
@@ -544,6 +598,26 @@ export function CadView2D() {
       >
         Nivåer {showLevels ? 'PÅ' : 'AV'}
       </button>
+
+      {/* Parking ghost toggle */}
+      <button
+        onClick={() => setShowParking(!showParking)}
+        style={{
+          position: 'absolute',
+          top: 36,
+          right: 8,
+          background: showParking ? 'rgba(96,165,250,0.8)' : 'rgba(80,80,80,0.8)',
+          color: '#fff',
+          border: 'none',
+          borderRadius: 4,
+          padding: '4px 10px',
+          fontSize: 11,
+          fontFamily: 'monospace',
+          cursor: 'pointer',
+        }}
+      >
+        Parkering {showParking ? 'PÅ' : 'AV'}
+      </button>
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { CadGuidelineRenderer } from './CadGuidelineRenderer';
 import { CadLevelOverlay } from './CadLevelOverlay';
 import { distance2D } from '../../utils/math';
 import type { Point2D } from '../../types/geometry';
+import { getSegmentCount, segmentEndIndex } from '../../engine/geometry/guideChain';
 
 const INITIAL_VIEW_SIZE = 6000;   // mm – initial visible width
 const HIT_RADIUS_PX = 12;
@@ -34,10 +35,10 @@ function hitPoint(mm: Point2D, pts: Point2D[], r: number): number | null {
   return best;
 }
 
-function hitSegment(mm: Point2D, pts: Point2D[], r: number): number | null {
+function hitSegment(mm: Point2D, pts: Point2D[], r: number, closed: boolean): number | null {
   let best: number | null = null, bestD = Infinity;
-  for (let i = 0; i < pts.length - 1; i++) {
-    const d = ptSegDist(mm, pts[i], pts[i + 1]);
+  for (let i = 0; i < getSegmentCount(pts, closed); i++) {
+    const d = ptSegDist(mm, pts[i], pts[segmentEndIndex(pts, i)]);
     if (d < r && d < bestD) { bestD = d; best = i; }
   }
   return best;
@@ -198,6 +199,8 @@ export function CadWorkspace({ transparent = false }: CadWorkspaceProps) {
       const idx = hitPoint(mm, s.guidePoints, hitRadius(svg, viewBox));
       if (idx !== null) {
         dragRef.current = idx;
+        // The whole drag is one undo step
+        s.beginHistoryGroup();
         setCursor('grabbing');
         e.preventDefault();
       }
@@ -256,6 +259,7 @@ export function CadWorkspace({ transparent = false }: CadWorkspaceProps) {
     // End vertex drag — never add a point
     if (dragRef.current !== null) {
       dragRef.current = null;
+      store().endHistoryGroup();
       setCursor('default');
       return;
     }
@@ -293,7 +297,7 @@ export function CadWorkspace({ transparent = false }: CadWorkspaceProps) {
     // EDIT phase: click on segment → select
     if (s.guidePoints.length >= 2) {
       const mm = toMm(svg, viewBox, e.clientX, e.clientY);
-      const si = hitSegment(mm, s.guidePoints, hitRadius(svg, viewBox));
+      const si = hitSegment(mm, s.guidePoints, hitRadius(svg, viewBox), s.guideClosed);
       s.setSelectedSegmentIndex(si);
     }
   }, [viewBox]);
@@ -317,9 +321,9 @@ export function CadWorkspace({ transparent = false }: CadWorkspaceProps) {
       const r = hitRadius(svg, viewBox);
       const pi = hitPoint(mm, pts, r);
       if (pi !== null) { s.removePoint(pi); return; }
-      const si = hitSegment(mm, pts, r);
+      const si = hitSegment(mm, pts, r, s.guideClosed);
       if (si !== null) {
-        s.insertPointOnSegment(si, projectOnSeg(mm, pts[si], pts[si + 1]));
+        s.insertPointOnSegment(si, projectOnSeg(mm, pts[si], pts[segmentEndIndex(pts, si)]));
         return;
       }
     }
@@ -331,6 +335,7 @@ export function CadWorkspace({ transparent = false }: CadWorkspaceProps) {
   useEffect(() => {
     const h = () => {
       panRef.current = null;
+      if (dragRef.current !== null) store().endHistoryGroup();
       dragRef.current = null;
       downRef.current = null;
       setCursor(store().isDrawing ? 'crosshair' : 'default');
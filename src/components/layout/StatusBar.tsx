@@ -1,4 +1,5 @@
 import { useConfigStore } from '../../store/useConfigStore';
+import { getSegmentCount } from '../../engine/geometry/guideChain';
 
 const MODE_LABELS: Record<string, string> = {
   select: 'Markera',
@@ -9,13 +10,18 @@ const MODE_LABELS: Record<string, string> = {
 export function StatusBar() {
   const activeMode = useConfigStore((s) => s.activeMode);
   const guidePoints = useConfigStore((s) => s.guidePoints);
+  const guideClosed = useConfigStore((s) => s.guideClosed);
+  const chainCount = useConfigStore((s) => s.guideChains.length);
+  const activeChainName = useConfigStore(
+    (s) => s.guideChains.find((c) => c.id === s.activeChainId)?.name ?? '',
+  );
   const isDrawing = useConfigStore((s) => s.isDrawing);
   const pcEnabled = useConfigStore((s) => s.pointCloudEnabled);
   const pcClipY = useConfigStore((s) => s.pointCloudClipY);
   const pcOriginY = useConfigStore((s) => s.pointCloudOriginY);
 
   const pointCount = guidePoints.length;
-  const segmentCount = pointCount > 1 ? pointCount - 1 : 0;
+  const segmentCount = getSegmentCount(guidePoints, guideClosed);
 
   return (
     <div style={{
@@ -32,6 +38,9 @@ export function StatusBar() {
       {isDrawing && (
         <span style={{ color: '#4CAF50' }}>● Ritar...</span>
       )}
+      {chainCount > 1 && (
+        <span><span style={{ color: '#4CAF50' }}>Kedja:</span> {activeChainName} ({chainCount} st)</span>
+      )}
       <span><span style={{ color: '#4CAF50' }}>Punkter:</span> {pointCount}</span>
       <span><span style={{ color: '#4CAF50' }}>Segment:</span> {segmentCount}</span>
       {pcEnabled && (
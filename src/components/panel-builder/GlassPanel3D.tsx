@@ -3,10 +3,11 @@ import { useGLTF, Line } from '@react-three/drei';
 import * as THREE from 'three';
 import {
   usePanelBuilderStore,
-  END_CAP_INFO,
   END_CAP_TYPES,
   type PartKey,
 } from '../../store/panelBuilderStore';
+import { PRODUCT_SYSTEMS } from '../../engine/productSystem/productSystems';
+import { useProductSystem } from '../../hooks/useProductSystem';
 
 // ─── Origin cross: RGB axes at a given position ──────────────────
 const AXIS_LEN = 0.03; // 30mm in meters
@@ -195,6 +196,7 @@ export function GlassPanel3D() {
   const bottomLockWidths = usePanelBuilderStore((s) => s.bottomLockWidths);
   const glassHeightDed = usePanelBuilderStore((s) => s.glassHeightDeduction);
   const glassModHeightDed = usePanelBuilderStore((s) => s.glassModuleHeightDeduction);
+  const { endCaps } = useProductSystem();
 
   const groupRef = useRef<THREE.Group>(null);
 
@@ -236,9 +238,9 @@ export function GlassPanel3D() {
   const mainLockX = lowerProfileEndX;
   const mainLockY = profileBottomY;
 
-  // GLB paths from END_CAP_INFO
-  const leftCapGlb = END_CAP_INFO[endCapLeftType].glb;
-  const rightCapGlb = END_CAP_INFO[endCapRightType].glb;
+  // GLB paths from the product system's end caps
+  const leftCapGlb = endCaps[endCapLeftType].glb;
+  const rightCapGlb = endCaps[endCapRightType].glb;
 
   return (
     <group ref={groupRef}>
@@ -295,10 +297,12 @@ useGLTF.preload('/models/Huvudlås.glb');
 
 // Preload all end cap GLBs
 const preloadedGlbs = new Set<string>();
-for (const type of END_CAP_TYPES) {
-  const glb = END_CAP_INFO[type].glb;
-  if (!preloadedGlbs.has(glb)) {
-    preloadedGlbs.add(glb);
-    useGLTF.preload(glb);
+for (const system of PRODUCT_SYSTEMS) {
+  for (const type of END_CAP_TYPES) {
+    const glb = system.endCaps[type].glb;
+    if (!preloadedGlbs.has(glb)) {
+      preloadedGlbs.add(glb);
+      useGLTF.preload(glb);
+    }
   }
 }
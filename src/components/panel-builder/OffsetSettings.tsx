@@ -1,15 +1,10 @@
 import {
   usePanelBuilderStore,
-  END_CAP_INFO,
   END_CAP_TYPES,
-  DEFAULT_GLASS_OFFSET,
-  DEFAULT_TOP_LOCK_WIDTH,
-  DEFAULT_BOTTOM_LOCK_WIDTH,
-  GLASS_HEIGHT_DEDUCTION,
-  GLASS_MODULE_HEIGHT_DEDUCTION,
-  type EndCapType,
+  panelBuilderDefaults,
   type LockVariant,
 } from '../../store/panelBuilderStore';
+import { useProductSystem } from '../../hooks/useProductSystem';
 
 const LOCK_VARIANT_LABELS: Record<LockVariant, string> = {
   single: 'Enkellås',
@@ -90,6 +85,7 @@ export function OffsetSettings() {
   const setGlassHeightDeduction = usePanelBuilderStore((s) => s.setGlassHeightDeduction);
   const setGlassModuleHeightDeduction = usePanelBuilderStore((s) => s.setGlassModuleHeightDeduction);
   const resetOffsetsToDefaults = usePanelBuilderStore((s) => s.resetOffsetsToDefaults);
+  const defaults = panelBuilderDefaults(useProductSystem());
 
   const lockVariants: LockVariant[] = ['single', 'double', 'none'];
 
@@ -113,7 +109,7 @@ export function OffsetSettings() {
             key={type}
             label={type}
             value={glassOffsets[type]}
-            defaultValue={DEFAULT_GLASS_OFFSET[type]}
+            defaultValue={defaults.glassOffsets[type]}
             onChange={(v) => setGlassOffset(type, v)}
           />
         ))}
@@ -127,7 +123,7 @@ export function OffsetSettings() {
             key={`top-${v}`}
             label={LOCK_VARIANT_LABELS[v]}
             value={topLockWidths[v]}
-            defaultValue={DEFAULT_TOP_LOCK_WIDTH[v]}
+            defaultValue={defaults.topLockWidths[v]}
             onChange={(val) => setTopLockWidth(v, val)}
           />
         ))}
@@ -141,7 +137,7 @@ export function OffsetSettings() {
             key={`bot-${v}`}
             label={LOCK_VARIANT_LABELS[v]}
             value={bottomLockWidths[v]}
-            defaultValue={DEFAULT_BOTTOM_LOCK_WIDTH[v]}
+            defaultValue={defaults.bottomLockWidths[v]}
             onChange={(val) => setBottomLockWidth(v, val)}
           />
         ))}
@@ -153,13 +149,13 @@ export function OffsetSettings() {
         <OffsetRow
           label="Glashöjd"
           value={glassHeightDeduction}
-          defaultValue={GLASS_HEIGHT_DEDUCTION}
+          defaultValue={defaults.glassHeightDeduction}
           onChange={setGlassHeightDeduction}
         />
         <OffsetRow
           label="Glasmodulhöjd"
           value={glassModuleHeightDeduction}
-          defaultValue={GLASS_MODULE_HEIGHT_DEDUCTION}
+          defaultValue={defaults.glassModuleHeightDeduction}
           onChange={setGlassModuleHeightDeduction}
         />
       </div>
@@ -5,14 +5,15 @@ import { GlassPanel3D } from './GlassPanel3D';
 import { OffsetSettings } from './OffsetSettings';
 import {
   usePanelBuilderStore,
-  END_CAP_INFO,
   END_CAP_TYPES,
+  panelBuilderDefaults,
   PART_KEYS,
   PART_LABELS,
   type EndCapType,
   type LockVariant,
   type PartKey,
 } from '../../store/panelBuilderStore';
+import { useProductSystem } from '../../hooks/useProductSystem';
 
 // ─── Part rotation controls ──────────────────────────────────────
 const AXIS_LABELS = ['X', 'Y', 'Z'] as const;
@@ -108,6 +109,8 @@ function PanelConfigSidebar() {
   const topLockWidths = usePanelBuilderStore((s) => s.topLockWidths);
   const bottomLockWidths = usePanelBuilderStore((s) => s.bottomLockWidths);
   const glassHeightDed = usePanelBuilderStore((s) => s.glassHeightDeduction);
+  const system = useProductSystem();
+  const defaults = panelBuilderDefaults(system);
 
   // Derived display values (using editable offsets)
   const leftOffset = glassOffsets[endCapLeftType];
@@ -119,12 +122,12 @@ function PanelConfigSidebar() {
 
   const endCapOptions = END_CAP_TYPES.map((key) => ({
     value: key,
-    label: END_CAP_INFO[key].label,
+    label: system.endCaps[key].label,
   }));
 
   const lockOptions: { value: LockVariant; label: string }[] = [
-    { value: 'single', label: 'Enkellås (överlås 30mm / undrelås 5mm)' },
-    { value: 'double', label: 'Dubbellås (överlås 30mm / undrelås 5mm)' },
+    { value: 'single', label: `Enkellås (överlås ${defaults.topLockWidths.single}mm / undrelås ${defaults.bottomLockWidths.single}mm)` },
+    { value: 'double', label: `Dubbellås (överlås ${defaults.topLockWidths.double}mm / undrelås ${defaults.bottomLockWidths.double}mm)` },
     { value: 'none', label: 'Inget lås' },
   ];
 
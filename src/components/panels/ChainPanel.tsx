@@ -0,0 +1,62 @@
+import { useConfigStore } from '../../store/useConfigStore';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { getSegmentCount } from '../../engine/geometry/guideChain';
+
+export function ChainPanel() {
+  const chains = useGuideChains();
+  const activeChainId = useConfigStore((s) => s.activeChainId);
+  const addGuideChain = useConfigStore((s) => s.addGuideChain);
+  const setActiveChain = useConfigStore((s) => s.setActiveChain);
+  const renameGuideChain = useConfigStore((s) => s.renameGuideChain);
+  const removeGuideChain = useConfigStore((s) => s.removeGuideChain);
+
+  return (
+    <div>
+      {chains.map((chain) => {
+        const isActive = chain.id === activeChainId;
+        const segCount = getSegmentCount(chain.points, chain.closed);
+        return (
+          <div
+            key={chain.id}
+            onClick={() => setActiveChain(chain.id)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '3px 4px',
+              marginBottom: 3,
+              borderRadius: 3,
+              cursor: 'pointer',
+              background: isActive ? '#e3f2fd' : 'transparent',
+              border: `1px solid ${isActive ? '#2196F3' : '#eee'}`,
+            }}
+          >
+            <input
+              value={chain.name}
+              onChange={(e) => renameGuideChain(chain.id, e.target.value)}
+              onFocus={() => setActiveChain(chain.id)}
+              style={{ flex: 1, minWidth: 0, fontSize: 12, padding: '2px 4px' }}
+            />
+            <span style={{ fontSize: 11, color: '#888', whiteSpace: 'nowrap' }}>
+              {segCount} sidor{chain.closed ? ' · sluten' : ''}
+            </span>
+            <button
+              type="button"
+              title="Ta bort kedja"
+              onClick={(e) => {
+                e.stopPropagation();
+                removeGuideChain(chain.id);
+              }}
+              style={{ border: 'none', background: 'none', color: '#e53935', cursor: 'pointer', fontSize: 13 }}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <button type="button" onClick={addGuideChain} className="btn btn-secondary" style={{ marginTop: 4 }}>
+        Ny kedja
+      </button>
+    </div>
+  );
+}
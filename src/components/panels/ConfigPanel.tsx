@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useConfigStore } from '../../store/useConfigStore';
+import { useState, useEffect, useRef } from 'react';
+import { useConfigStore, useConfigHistory } from '../../store/useConfigStore';
 import type { ActiveMode } from '../../store/useConfigStore';
 import { CollapsibleSection } from './CollapsibleSection';
 import { ProjectPanel } from './ProjectPanel';
@@ -9,7 +9,25 @@ import { FrameWidthPanel } from './FrameWidthPanel';
 import { SegmentPanel } from './SegmentPanel';
 import { PanelConfigPanel } from './PanelConfigPanel';
 import { PointCloudPanel } from './PointCloudPanel';
-import { saveState, loadState, hasSavedState } from '../../utils/persistence';
+import { CutListPanel } from './CutListPanel';
+import { CuttingPlanPanel } from './CuttingPlanPanel';
+import { ChainPanel } from './ChainPanel';
+import { DesignIssuesPanel } from './DesignIssuesPanel';
+import { LayoutOptimizerPanel } from './LayoutOptimizerPanel';
+import { ConstraintPanel } from './ConstraintPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { LibraryPanel } from './LibraryPanel';
+import {
+  saveState,
+  loadState,
+  hasSavedState,
+  exportProjectFile,
+  importProjectFile,
+} from '../../utils/persistence';
+import { PROJECT_FILE_EXTENSION } from '../../utils/projectFile';
+import { exportProjectBundle, importProjectBundle, PROJECT_BUNDLE_EXTENSION } from '../../utils/projectBundle';
+import { canCloseChain } from '../../engine/geometry/guideChain';
+import { useDesignIssues } from '../../hooks/useDesignIssues';
 
 const MODES: { mode: ActiveMode; label: string }[] = [
   { mode: 'select', label: 'Markera' },
@@ -19,12 +37,24 @@ const MODES: { mode: ActiveMode; label: string }[] = [
 
 export function ConfigPanel() {
   const selectedIdx = useConfigStore((s) => s.selectedSegmentIndex);
+  const chainCount = useConfigStore((s) => s.guideChains.length);
+  const issueCount = useDesignIssues().length;
+  const hasLayoutProposal = useConfigStore((s) => s.layoutProposal !== null);
+  const constraintCount = useConfigStore((s) => s.guideConstraints.length);
+  const historyCount = useConfigHistory((h) => h.past.length);
+  const activeChainName = useConfigStore(
+    (s) => s.guideChains.find((c) => c.id === s.activeChainId)?.name ?? '',
+  );
   const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
   const activeMode = useConfigStore((s) => s.activeMode);
   const setActiveMode = useConfigStore((s) => s.setActiveMode);
   const isDrawing = useConfigStore((s) => s.isDrawing);
   const setIsDrawing = useConfigStore((s) => s.setIsDrawing);
   const clearGuide = useConfigStore((s) => s.clearGuide);
+  const guidePoints = useConfigStore((s) => s.guidePoints);
+  const guideClosed = useConfigStore((s) => s.guideClosed);
+  const setGuideClosed = useConfigStore((s) => s.setGuideClosed);
+  const reverseGuide = useConfigStore((s) => s.reverseGuide);
   const snapEnabled = useConfigStore((s) => s.snapEnabled);
   const toggleSnap = useConfigStore((s) => s.toggleSnap);
   const snapAngle = useConfigStore((s) => s.snapAngle);
@@ -33,6 +63,10 @@ export function ConfigPanel() {
   const toggleFreeGlassWidth = useConfigStore((s) => s.toggleFreeGlassWidth);
 
   const [saveMsg, setSaveMsg] = useState<string | null>(null);
+  const [fileProblem, setFileProblem] = useState<{ title: string; errors: string[] } | null>(null);
+  const [bundleStep, setBundleStep] = useState(1);
+  const [bundling, setBundling] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-load saved state on first mount
   useEffect(() => {
@@ -53,10 +87,34 @@ export function ConfigPanel() {
 
   const handleLoad = () => {
     const ok = loadState();
-    setSaveMsg(ok ? 'Laddat!' : 'Inget sparat att ladda');
+    setSaveMsg(ok ? 'Laddat!' : hasSavedState() ? 'Fel: sparade data är ogiltiga' : 'Inget sparat att ladda');
     setTimeout(() => setSaveMsg(null), 2000);
   };
 
+  const handleImport = async (file: File) => {
+    let errors: string[];
+    try {
+      errors = file.name.endsWith(PROJECT_BUNDLE_EXTENSION)
+        ? await importProjectBundle(file)
+        : await importProjectFile(file);
+    } catch {
+      // The browser could not read the file (moved, deleted or no access)
+      errors = ['Filen kunde inte läsas'];
+    }
+    setFileProblem(errors.length > 0 ? { title: 'Filen kunde inte importeras:', errors } : null);
+    if (errors.length === 0) {
+      setSaveMsg(`Importerat ${file.name}`);
+      setTimeout(() => setSaveMsg(null), 2000);
+    }
+  };
+
+  const handleExportBundle = async () => {
+    setBundling(true);
+    const errors = await exportProjectBundle(bundleStep);
+    setBundling(false);
+    setFileProblem(errors.length > 0 ? { title: 'Paketet kunde inte skapas:', errors } : null);
+  };
+
   return (
     <div>
       {/* Title */}
@@ -85,6 +143,24 @@ export function ConfigPanel() {
         >
           Stäng form
         </button>
+        <button
+          type="button"
+          onClick={() => setGuideClosed(!guideClosed)}
+          disabled={!guideClosed && !canCloseChain(guidePoints)}
+          className="btn btn-secondary"
+          title="Sista punkten kopplas till den första — alla hörn får vinkel, lås och gering"
+        >
+          {guideClosed ? 'Öppna kedja' : 'Stäng kedja'}
+        </button>
+        <button
+          type="button"
+          onClick={reverseGuide}
+          disabled={guidePoints.length < 2}
+          className="btn btn-secondary"
+          title="Kedjan går åt andra hållet — insida och utsida byter plats, varje sida behåller sina paneler speglade"
+        >
+          Vänd riktning
+        </button>
         <button
           type="button"
           onClick={() => clearGuide()}
@@ -96,11 +172,19 @@ export function ConfigPanel() {
           <strong>Tangenter:</strong><br />
           S = Markera, G = Rita, L = Nivåer<br />
           Enter = Stäng form<br />
+          C / klick på första punkten = Stäng kedja<br />
           Delete = Ta bort markerat punkt/segment<br />
+          Ctrl+Z / Ctrl+Shift+Z = Ångra / Gör om<br />
           Esc = Avbryt
         </div>
       </div>
 
+      {/* KEDJOR section */}
+      <div className="section">
+        <div className="section-title">Kedjor</div>
+        <ChainPanel />
+      </div>
+
       {/* SNAP section */}
       <div className="section">
         <div className="section-title">Snap</div>
@@ -136,6 +220,10 @@ export function ConfigPanel() {
         </div>
       </div>
 
+      <CollapsibleSection id="library" title="Projektbibliotek">
+        <LibraryPanel />
+      </CollapsibleSection>
+
       <CollapsibleSection id="project" title="Projekt">
         <ProjectPanel />
       </CollapsibleSection>
@@ -152,10 +240,20 @@ export function ConfigPanel() {
         <FrameWidthPanel />
       </CollapsibleSection>
 
+      <CollapsibleSection
+        id="constraints"
+        title="Låsta mått"
+        badge={constraintCount > 0 ? `${constraintCount} st` : undefined}
+      >
+        <ConstraintPanel />
+      </CollapsibleSection>
+
       <CollapsibleSection
         id="segment"
         title="Segment"
-        badge={hasSegment ? `Sida ${selectedIdx + 1}` : undefined}
+        badge={hasSegment
+          ? chainCount > 1 ? `${activeChainName} – Sida ${selectedIdx + 1}` : `Sida ${selectedIdx + 1}`
+          : undefined}
         disabled={!hasSegment}
       >
         <SegmentPanel />
@@ -164,12 +262,34 @@ export function ConfigPanel() {
       <CollapsibleSection
         id="panels"
         title="Paneler"
-        badge={hasSegment && isGlazing && edge ? `${edge.panels.length} st` : undefined}
+        badge={hasSegment && isGlazing && edge
+          ? `${edge.panels.length} st · ${edge.layoutLocked ? 'manuell' : 'auto'}`
+          : undefined}
         disabled={!hasSegment || !isGlazing}
       >
         <PanelConfigPanel />
       </CollapsibleSection>
 
+      <CollapsibleSection id="issues" title="Kontroll" badge={issueCount > 0 ? `${issueCount} st` : undefined}>
+        <DesignIssuesPanel />
+      </CollapsibleSection>
+
+      <CollapsibleSection id="layout" title="Optimering" badge={hasLayoutProposal ? 'Förslag' : undefined}>
+        <LayoutOptimizerPanel />
+      </CollapsibleSection>
+
+      <CollapsibleSection id="history" title="Historik" badge={historyCount > 0 ? `${historyCount} steg` : undefined}>
+        <HistoryPanel />
+      </CollapsibleSection>
+
+      <CollapsibleSection id="cutList" title="Kaplista">
+        <CutListPanel />
+      </CollapsibleSection>
+
+      <CollapsibleSection id="cuttingPlan" title="Kapplan">
+        <CuttingPlanPanel />
+      </CollapsibleSection>
+
       <CollapsibleSection id="pointcloud" title="Punktmoln">
         <PointCloudPanel />
       </CollapsibleSection>
@@ -214,6 +334,70 @@ export function ConfigPanel() {
             Ladda
           </button>
         </div>
+        <div style={{ display: 'flex', gap: 6, marginTop: 6 }}>
+          <button
+            type="button"
+            onClick={() => { setFileProblem(null); exportProjectFile(); }}
+            className="btn btn-secondary"
+            style={{ flex: 1 }}
+            title={`Ladda ner projektet som ${PROJECT_FILE_EXTENSION}-fil`}
+          >
+            Exportera fil
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="btn btn-secondary"
+            style={{ flex: 1 }}
+            title={`Öppna en ${PROJECT_FILE_EXTENSION}- eller ${PROJECT_BUNDLE_EXTENSION}-fil`}
+          >
+            Importera fil
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`.json,application/json,${PROJECT_BUNDLE_EXTENSION}`}
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Cleared so the same file can be picked again after fixing it
+              e.target.value = '';
+              if (file) void handleImport(file);
+            }}
+          />
+        </div>
+        <div style={{ display: 'flex', gap: 6, marginTop: 6 }}>
+          <select
+            value={bundleStep}
+            onChange={(e) => setBundleStep(Number(e.target.value))}
+            style={{ flex: 1, fontSize: 12 }}
+            title="Punktmolnets täthet i paketet"
+          >
+            <option value={1}>Alla punkter</option>
+            <option value={2}>Varannan punkt</option>
+            <option value={4}>Var fjärde punkt</option>
+            <option value={10}>Var tionde punkt</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => void handleExportBundle()}
+            disabled={bundling}
+            className="btn btn-secondary"
+            style={{ flex: 1 }}
+            title={`Ladda ner projektet med punktmoln som ${PROJECT_BUNDLE_EXTENSION}-fil`}
+          >
+            {bundling ? 'Packar…' : 'Exportera paket'}
+          </button>
+        </div>
+        {fileProblem && (
+          <div style={{ marginTop: 6, fontSize: 11, color: '#ef4444' }}>
+            <div style={{ fontWeight: 600 }}>{fileProblem.title}</div>
+            <ul style={{ margin: '2px 0 0', paddingLeft: 16 }}>
+              {fileProblem.errors.slice(0, 8).map((msg, i) => <li key={i}>{msg}</li>)}
+            </ul>
+            {fileProblem.errors.length > 8 && <div>… och {fileProblem.errors.length - 8} fel till</div>}
+          </div>
+        )}
         {saveMsg && (
           <div style={{
             textAlign: 'center',
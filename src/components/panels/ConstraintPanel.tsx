@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { useConfigStore } from '../../store/useConfigStore';
+import type { ConstraintStatus, GuideConstraint } from '../../types/constraint';
+import type { GuidelineVertex } from '../../types/guideline';
+import type { EdgeConfig } from '../../types/edge';
+import { glazingSide } from '../../engine/geometry/guideChain';
+import { constraintStatus } from '../../engine/geometry/constraintSolver';
+
+const STATUS_COLORS: Record<ConstraintStatus['state'], string> = {
+  well: '#22c55e',
+  under: '#888',
+  over: '#f59e0b',
+  conflict: '#ef4444',
+};
+
+function statusText(status: ConstraintStatus): string {
+  switch (status.state) {
+    case 'well': return 'Fullt bestämd';
+    case 'under': return `Underbestämd — ${status.freeDof} mått fria`;
+    case 'over': return `Överbestämd — ${status.redundant} lås följer av de andra`;
+    case 'conflict': return `Motstridiga lås — ${status.unsatisfied.length} uppfylls inte`;
+  }
+}
+
+/**
+ * Label and value; points and sides are numbered by their current place in
+ * the chain, and angles are signed like the corner labels in the plan.
+ */
+function constraintLabel(c: GuideConstraint, points: GuidelineVertex[], edges: EdgeConfig[]): [string, string] {
+  const point = (id: string) => points.findIndex((p) => p.id === id) + 1;
+  switch (c.kind) {
+    case 'length': return [`Sida ${edges.findIndex((e) => e.id === c.edgeId) + 1}`, `${Math.round(c.value)} mm`];
+    case 'angle': return [`Vinkel punkt ${point(c.vertexId)}`, `${(c.value * glazingSide(points)).toFixed(1)}°`];
+    case 'position': return [`Punkt ${point(c.vertexId)}`, 'låst läge'];
+    case 'distance': return [`Punkt ${point(c.fromVertexId)}–${point(c.toVertexId)}`, `${Math.round(c.value)} mm`];
+  }
+}
+
+export function ConstraintPanel() {
+  const guidePoints = useConfigStore((s) => s.guidePoints);
+  const guideClosed = useConfigStore((s) => s.guideClosed);
+  const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
+  const constraints = useConfigStore((s) => s.guideConstraints);
+  const togglePositionLock = useConfigStore((s) => s.togglePositionLock);
+  const addDistanceConstraint = useConfigStore((s) => s.addDistanceConstraint);
+  const removeConstraint = useConfigStore((s) => s.removeConstraint);
+
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState(1);
+  const [distance, setDistance] = useState('');
+
+  const status = useMemo(
+    () => constraintStatus(guidePoints, edgeConfigs, guideClosed, constraints),
+    [guidePoints, edgeConfigs, guideClosed, constraints],
+  );
+
+  if (guidePoints.length < 2) {
+    return (
+      <div style={{ fontSize: 12, color: '#888', textAlign: 'center', padding: '12px 0' }}>
+        Rita en kedja först
+      </div>
+    );
+  }
+
+  const positionLocked = (i: number) =>
+    constraints.some((c) => c.kind === 'position' && c.vertexId === guidePoints[i].id);
+  const distanceValue = parseFloat(distance);
+
+  return (
+    <div>
+      <div style={{ fontSize: 12, fontWeight: 600, color: STATUS_COLORS[status.state], marginBottom: 4 }}>
+        {statusText(status)}
+      </div>
+      <div style={{ fontSize: 10, color: '#888', marginBottom: 6 }}>
+        Lås längder och vinklar med hänglåset vid måttet i ritningen. Ändringar flyttar sedan bara det som inte är låst.
+      </div>
+
+      {constraints.map((c, i) => {
+        const [label, value] = constraintLabel(c, guidePoints, edgeConfigs);
+        const unmet = status.unsatisfied.includes(i);
+        return (
+          <div
+            key={i}
+            style={{
+              display: 'flex',
+              gap: 6,
+              alignItems: 'baseline',
+              padding: '3px 2px',
+              fontSize: 11,
+              borderBottom: '1px solid #f0f0f0',
+              color: unmet ? '#ef4444' : undefined,
+            }}
+          >
+            <span style={{ flex: 1 }}>{label}</span>
+            <span style={{ fontFamily: 'monospace' }}>{value}</span>
+            <button
+              type="button"
+              title="Ta bort lås"
+              onClick={() => removeConstraint(i)}
+              style={{ border: 'none', background: 'none', color: '#e53935', cursor: 'pointer', fontSize: 13 }}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="control" style={{ marginTop: 8 }}>
+        <label>Lås punkt</label>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+          {guidePoints.map((_, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => togglePositionLock(i)}
+              className="tool-btn"
+              style={positionLocked(i) ? { background: '#facc15', borderColor: '#facc15' } : {}}
+            >
+              {i + 1}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="control">
+        <label>Totalmått mellan punkter</label>
+        <div style={{ display: 'flex', gap: 4 }}>
+          <select value={fromIndex} onChange={(e) => setFromIndex(Number(e.target.value))}>
+            {guidePoints.map((_, i) => <option key={i} value={i}>{i + 1}</option>)}
+          </select>
+          <select value={toIndex} onChange={(e) => setToIndex(Number(e.target.value))}>
+            {guidePoints.map((_, i) => <option key={i} value={i}>{i + 1}</option>)}
+          </select>
+          <input
+            type="number"
+            min={0}
+            placeholder="mm"
+            value={distance}
+            onChange={(e) => setDistance(e.target.value)}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => addDistanceConstraint(fromIndex, toIndex, distanceValue)}
+          disabled={fromIndex === toIndex || !(distanceValue > 0)}
+          className="btn btn-secondary"
+          style={{ marginTop: 4 }}
+        >
+          Lås totalmått
+        </button>
+      </div>
+    </div>
+  );
+}
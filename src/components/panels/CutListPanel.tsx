@@ -0,0 +1,80 @@
+import { useConfigStore } from '../../store/useConfigStore';
+import { buildCutList, cutListToCsv, formatSideLabels, PROFILE_LABELS } from '../../engine/calculations/cutList';
+import { downloadTextFile } from '../../utils/download';
+
+export function CutListPanel() {
+  // Subscribe to the inputs so the list follows every edit
+  useConfigStore((s) => s.guideChains);
+  useConfigStore((s) => s.guidePoints);
+  useConfigStore((s) => s.guideClosed);
+  useConfigStore((s) => s.edgeConfigs);
+  useConfigStore((s) => s.levels);
+  useConfigStore((s) => s.profileConfig);
+  useConfigStore((s) => s.frameWidthSettings);
+  const getChainProjects = useConfigStore((s) => s.getChainProjects);
+  const ordernamn = useConfigStore((s) => s.projectConfig.ordernamn);
+
+  const rows = buildCutList(getChainProjects());
+
+  if (rows.length === 0) {
+    return <EmptyState text="Inga inglasade sidor" />;
+  }
+
+  const handleExport = () => {
+    // BOM so Excel opens the file as UTF-8 (å, ä, ö)
+    const csv = '\uFEFF' + cutListToCsv(rows);
+    const name = ordernamn.trim() || 'projekt';
+    downloadTextFile(`kaplista-${name}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+        <thead>
+          <tr style={{ color: '#888', textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+            <th style={cellStyle}>Sida</th>
+            <th style={cellStyle}>Profil</th>
+            <th style={{ ...cellStyle, textAlign: 'right' }}>Längd</th>
+            <th style={{ ...cellStyle, textAlign: 'right' }}>V°</th>
+            <th style={{ ...cellStyle, textAlign: 'right' }}>H°</th>
+            <th style={{ ...cellStyle, textAlign: 'right' }}>Antal</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={`${row.profileType}-${row.length}-${row.cutAngleLeft}-${row.cutAngleRight}`}
+              style={{ borderBottom: '1px solid #f0f0f0' }}
+            >
+              <td style={cellStyle}>{formatSideLabels(row)}</td>
+              <td style={cellStyle}>{PROFILE_LABELS[row.profileType]}</td>
+              <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 600, color: '#2196F3' }}>{row.length}</td>
+              <td style={{ ...cellStyle, textAlign: 'right' }}>{row.cutAngleLeft}</td>
+              <td style={{ ...cellStyle, textAlign: 'right' }}>{row.cutAngleRight}</td>
+              <td style={{ ...cellStyle, textAlign: 'right' }}>{row.quantity}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button
+        type="button"
+        onClick={handleExport}
+        className="btn btn-secondary"
+        style={{ marginTop: 8 }}
+      >
+        Exportera CSV
+      </button>
+    </div>
+  );
+}
+
+const cellStyle = { padding: '2px 4px' };
+
+function EmptyState({ text }: { text: string }) {
+  return (
+    <div style={{ fontSize: 12, color: '#888', textAlign: 'center', padding: '12px 0' }}>
+      {text}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useConfigStore } from '../../store/useConfigStore';
+import {
+  buildCutList,
+  formatSideLabels,
+  PROFILE_LABELS,
+  PROFILE_TYPES,
+  type CutListRow,
+} from '../../engine/calculations/cutList';
+import { planCuttingStock, type CuttingPlan } from '../../engine/calculations/cuttingStock';
+import type { ProjectConfig } from '../../types/project';
+import { escapeHtml, printHtml } from '../../utils/print';
+
+export function CuttingPlanPanel() {
+  // Subscribe to the inputs so the plan follows every edit
+  useConfigStore((s) => s.guideChains);
+  useConfigStore((s) => s.guidePoints);
+  useConfigStore((s) => s.guideClosed);
+  useConfigStore((s) => s.edgeConfigs);
+  useConfigStore((s) => s.levels);
+  useConfigStore((s) => s.profileConfig);
+  useConfigStore((s) => s.frameWidthSettings);
+  const getChainProjects = useConfigStore((s) => s.getChainProjects);
+  const settings = useConfigStore((s) => s.cuttingStockSettings);
+  const setField = useConfigStore((s) => s.setCuttingStockField);
+  const setStockLength = useConfigStore((s) => s.setStockLength);
+  const projectConfig = useConfigStore((s) => s.projectConfig);
+
+  const rows = buildCutList(getChainProjects());
+  const plan = planCuttingStock(rows, settings);
+
+  return (
+    <div>
+      {PROFILE_TYPES.map((profileType) => (
+        <NumberField
+          key={profileType}
+          label={`Stång ${PROFILE_LABELS[profileType]}`}
+          value={settings.stockLengths[profileType]}
+          step={100}
+          onChange={(v) => setStockLength(profileType, v)}
+        />
+      ))}
+      <NumberField label="Sågspår" value={settings.kerf} step={0.5} onChange={(v) => setField('kerf', v)} />
+      <NumberField
+        label="Min användbar rest"
+        value={settings.minUsableOffcut}
+        step={50}
+        onChange={(v) => setField('minUsableOffcut', v)}
+      />
+
+      {plan.profiles.length === 0 ? (
+        <EmptyState text="Inga kaplängder att planera" />
+      ) : (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12, margin: '8px 0 4px' }}>
+            <span style={{ color: '#444' }}>{plan.barCount} stänger</span>
+            <span style={{ fontWeight: 600, color: plan.wastePercent > 15 ? '#f59e0b' : '#2196F3' }}>
+              Spill {plan.wastePercent} %
+            </span>
+          </div>
+
+          {plan.profiles.map((profile) => (
+            <div key={profile.profileType} style={{ borderTop: '1px solid #eee', paddingTop: 6, marginTop: 6 }}>
+              <div style={{ fontSize: 10, color: '#888', textTransform: 'uppercase', marginBottom: 4 }}>
+                {PROFILE_LABELS[profile.profileType]} · {profile.bars.length} × {profile.stockLength} mm · spill {profile.wastePercent} %
+              </div>
+              {profile.bars.map((bar, bi) => (
+                <div key={bi} style={{ fontSize: 11, marginBottom: 2, display: 'flex', gap: 4 }}>
+                  <span style={{ color: '#888', width: 18 }}>{bi + 1}.</span>
+                  <span style={{ flex: 1, color: '#444' }}>
+                    {bar.cuts.map((c) => c.length).join(' + ')}
+                  </span>
+                  <span style={{ color: bar.reusableOffcut ? '#22c55e' : '#888' }}>rest {bar.offcut}</span>
+                </div>
+              ))}
+              {profile.oversized.length > 0 && (
+                <div style={{ fontSize: 11, color: '#e53935' }}>
+                  Längre än stången: {profile.oversized.map((c) => `${c.length} (sida ${c.sideLabel})`).join(', ')}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => printHtml('Kaplista', cutSheetHtml(rows, plan, projectConfig))}
+            className="btn btn-secondary"
+            style={{ marginTop: 8 }}
+          >
+            Skriv ut kaplista och kapplan
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Printable workshop sheet: cut list followed by the bar-by-bar plan */
+function cutSheetHtml(rows: CutListRow[], plan: CuttingPlan, project: ProjectConfig): string {
+  const heading = [project.ordernamn, project.brfNamn].filter(Boolean).map(escapeHtml).join(' – ');
+
+  const cutRows = rows
+    .map(
+      (r) =>
+        `<tr><td>${escapeHtml(formatSideLabels(r))}</td><td>${PROFILE_LABELS[r.profileType]}</td>` +
+        `<td class="num">${r.length}</td><td class="num">${r.cutAngleLeft}°</td>` +
+        `<td class="num">${r.cutAngleRight}°</td><td class="num">${r.quantity}</td></tr>`,
+    )
+    .join('');
+
+  const planSections = plan.profiles
+    .map((p) => {
+      const bars = p.bars
+        .map(
+          (bar, i) =>
+            `<tr><td class="num">${i + 1}</td>` +
+            `<td>${bar.cuts.map((c) => `${c.length} <span class="muted">(s${escapeHtml(c.sideLabel)})</span>`).join(' + ')}</td>` +
+            `<td class="num">${bar.offcut}${bar.reusableOffcut ? ' ✓' : ''}</td></tr>`,
+        )
+        .join('');
+      const oversized = p.oversized.length > 0
+        ? `<p>Längre än stången: ${p.oversized.map((c) => `${c.length} (sida ${escapeHtml(c.sideLabel)})`).join(', ')}</p>`
+        : '';
+      return (
+        `<div class="section"><h2>${PROFILE_LABELS[p.profileType]} — ${p.bars.length} × ${p.stockLength} mm, spill ${p.wastePercent} %</h2>` +
+        `<table><tr><th>Stång</th><th>Kap (mm)</th><th>Rest</th></tr>${bars}</table>${oversized}</div>`
+      );
+    })
+    .join('');
+
+  return (
+    `<h1>Kaplista${heading ? ` – ${heading}` : ''}</h1>` +
+    `<div class="section"><table><tr><th>Sida</th><th>Profil</th><th>Längd (mm)</th>` +
+    `<th>Vinkel V</th><th>Vinkel H</th><th>Antal</th></tr>${cutRows}</table></div>` +
+    `<h1>Kapplan</h1>` +
+    `<p class="muted">${plan.barCount} stänger, totalt spill ${plan.wastePercent} %. ✓ = rest sparas.</p>` +
+    planSections
+  );
+}
+
+function NumberField({ label, value, step, onChange }: {
+  label: string; value: number; step: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div className="control" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+      <label style={{ flex: 1, marginBottom: 0 }}>{label}</label>
+      <input
+        type="number"
+        value={value}
+        min={0}
+        step={step}
+        onChange={(e) => onChange(Number(e.target.value))}
+        style={{ width: 80 }}
+      />
+      <span style={{ fontSize: 11, color: '#888' }}>mm</span>
+    </div>
+  );
+}
+
+function EmptyState({ text }: { text: string }) {
+  return (
+    <div style={{ fontSize: 12, color: '#888', textAlign: 'center', padding: '12px 0' }}>
+      {text}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useConfigStore } from '../../store/useConfigStore';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { useDesignIssues, ISSUE_COLORS } from '../../hooks/useDesignIssues';
+import { getSegmentCount } from '../../engine/geometry/guideChain';
+import type { DesignIssue } from '../../engine/validation/designRules';
+import type { GuideChain } from '../../types/chain';
+
+/** "Sida 2", "Hörn 3" — prefixed with the chain name when there are several */
+function locationLabel(issue: DesignIssue, chains: GuideChain[]): string {
+  const loc = issue.location;
+  const chain = chains.find((c) => c.id === loc.chainId);
+  const prefix = chains.length > 1 && chain ? `${chain.name} – ` : '';
+  if (loc.kind === 'vertex') return `${prefix}Hörn ${loc.vertexIndex + 1}`;
+  return `${prefix}Sida ${loc.segIndex + 1}`;
+}
+
+export function DesignIssuesPanel() {
+  const issues = useDesignIssues();
+  const chains = useGuideChains();
+  const setActiveChain = useConfigStore((s) => s.setActiveChain);
+  const setSelectedSegmentIndex = useConfigStore((s) => s.setSelectedSegmentIndex);
+
+  if (issues.length === 0) {
+    return (
+      <div style={{ fontSize: 12, color: '#888', textAlign: 'center', padding: '12px 0' }}>
+        Inga problem hittades
+      </div>
+    );
+  }
+
+  const handleSelect = (issue: DesignIssue) => {
+    const loc = issue.location;
+    setActiveChain(loc.chainId);
+    if (loc.kind !== 'vertex') {
+      setSelectedSegmentIndex(loc.segIndex);
+      return;
+    }
+    // A vertex selects the side that starts there, or the last side at an open end
+    const chain = chains.find((c) => c.id === loc.chainId);
+    const segCount = chain ? getSegmentCount(chain.points, chain.closed) : 0;
+    setSelectedSegmentIndex(Math.min(loc.vertexIndex, segCount - 1));
+  };
+
+  return (
+    <div>
+      {issues.map((issue, i) => (
+        <div
+          key={i}
+          onClick={() => handleSelect(issue)}
+          style={{
+            display: 'flex',
+            gap: 6,
+            alignItems: 'baseline',
+            padding: '3px 2px',
+            fontSize: 11,
+            cursor: 'pointer',
+            borderBottom: '1px solid #f0f0f0',
+          }}
+        >
+          <span
+            style={{
+              width: 8,
+              height: 8,
+              flexShrink: 0,
+              borderRadius: '50%',
+              background: ISSUE_COLORS[issue.severity],
+            }}
+          />
+          <span style={{ color: '#555', whiteSpace: 'nowrap' }}>{locationLabel(issue, chains)}</span>
+          <span>{issue.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
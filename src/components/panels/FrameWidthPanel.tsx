@@ -20,7 +20,7 @@ export function FrameWidthPanel() {
         value={settings.maxWidthCovered}
         unit="mm"
         min={200}
-        max={1200}
+        max={2000}
         step={50}
         onChange={(v) => setField('maxWidthCovered', v)}
       />
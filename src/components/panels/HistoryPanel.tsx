@@ -0,0 +1,78 @@
+import { useConfigStore, useConfigHistory } from '../../store/useConfigStore';
+
+export function HistoryPanel() {
+  const past = useConfigHistory((h) => h.past);
+  const future = useConfigHistory((h) => h.future);
+  const undo = useConfigStore((s) => s.undo);
+  const redo = useConfigStore((s) => s.redo);
+
+  /** Undo or redo until `doneCount` steps are done */
+  const jumpTo = (doneCount: number) => {
+    for (let n = past.length; n > doneCount; n--) undo();
+    for (let n = past.length; n < doneCount; n++) redo();
+  };
+
+  // Newest first: undone steps above the current one, done steps below
+  const rows = [
+    ...future.map((step, i) => ({ step, doneCount: past.length + i + 1, done: false })).reverse(),
+    ...past.map((step, i) => ({ step, doneCount: i + 1, done: true })).reverse(),
+  ];
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: 4, marginBottom: 8 }}>
+        <button
+          type="button"
+          onClick={undo}
+          disabled={past.length === 0}
+          className="btn btn-secondary"
+          style={{ flex: 1 }}
+          title="Ctrl+Z"
+        >
+          Ångra
+        </button>
+        <button
+          type="button"
+          onClick={redo}
+          disabled={future.length === 0}
+          className="btn btn-secondary"
+          style={{ flex: 1 }}
+          title="Ctrl+Shift+Z"
+        >
+          Gör om
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#888', textAlign: 'center', padding: '12px 0' }}>
+          Inga ändringar ännu
+        </div>
+      ) : (
+        <div style={{ maxHeight: 220, overflowY: 'auto' }}>
+          {rows.map(({ step, doneCount, done }) => {
+            const current = doneCount === past.length;
+            return (
+              <div
+                key={step.id}
+                onClick={() => jumpTo(doneCount)}
+                title={done ? 'Ångra till hit' : 'Gör om till hit'}
+                style={{
+                  padding: '3px 4px',
+                  fontSize: 11,
+                  cursor: 'pointer',
+                  borderRadius: 3,
+                  color: done ? '#333' : '#aaa',
+                  fontStyle: done ? 'normal' : 'italic',
+                  background: current ? '#e3f2fd' : 'transparent',
+                  borderLeft: `2px solid ${current ? '#2196F3' : 'transparent'}`,
+                }}
+              >
+                {step.label}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useConfigStore } from '../../store/useConfigStore';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { useProductSystem } from '../../hooks/useProductSystem';
+import { layoutBasis, type SideLayout } from '../../engine/calculations/layoutOptimizer';
+import { SPEL_GUIDE_TOLERANCE } from '../../utils/constants';
+import type { GuideChain } from '../../types/chain';
+
+const formatSizes = (sizes: number[]) => sizes.map((s) => `${s}`).join(', ');
+
+/** "Sida 2", prefixed with the chain name when there are several */
+function sideLabel(side: SideLayout, chains: GuideChain[]): string {
+  const chain = chains.find((c) => c.id === side.chainId);
+  const prefix = chains.length > 1 && chain ? `${chain.name} – ` : '';
+  return `${prefix}Sida ${side.segIndex + 1}`;
+}
+
+export function LayoutOptimizerPanel() {
+  const chains = useGuideChains();
+  const system = useProductSystem();
+  const proposal = useConfigStore((s) => s.layoutProposal);
+  const proposeLayout = useConfigStore((s) => s.proposeLayout);
+  const acceptLayoutProposal = useConfigStore((s) => s.acceptLayoutProposal);
+  const rejectLayoutProposal = useConfigStore((s) => s.rejectLayoutProposal);
+
+  if (!proposal) {
+    return (
+      <div>
+        <div style={{ fontSize: 10, color: '#888', marginBottom: 6 }}>
+          Föreslår paneler för alla glasade sidor tillsammans: så få glasmått som möjligt, speglade sidor lika
+          och spel inom ±{SPEL_GUIDE_TOLERANCE} mm.
+        </div>
+        <button type="button" onClick={proposeLayout} className="btn btn-secondary">
+          Föreslå layout
+        </button>
+      </div>
+    );
+  }
+
+  const stale = proposal.basis !== layoutBasis(chains, system);
+
+  return (
+    <div>
+      <div style={{ fontSize: 12, marginBottom: 6 }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span style={{ color: '#888' }}>Nu</span>
+          <span>{proposal.currentSizes.length} mått · {formatSizes(proposal.currentSizes)}</span>
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span style={{ color: '#888' }}>Förslag</span>
+          <span style={{ fontWeight: 600, color: '#2196F3' }}>
+            {proposal.sizes.length} mått · {formatSizes(proposal.sizes)}
+          </span>
+        </div>
+        {proposal.outOfTolerance > 0 && (
+          <div style={{ fontSize: 11, color: '#f59e0b' }}>
+            {proposal.outOfTolerance} sidor har spel över ±{SPEL_GUIDE_TOLERANCE} mm
+          </div>
+        )}
+      </div>
+
+      {proposal.sides.map((side) => (
+        <div
+          key={`${side.chainId}-${side.segIndex}`}
+          style={{ fontSize: 11, padding: '3px 2px', borderBottom: '1px solid #f0f0f0' }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: '#555' }}>
+            <span>
+              {sideLabel(side, chains)}
+              {side.mirrored ? ' · speglad' : ''}
+            </span>
+            <span>spel {side.spelGuide} mm</span>
+          </div>
+          <div style={{ fontFamily: 'monospace' }}>
+            {side.panels.map((p) => `${p.opening}${p.length}`).join(' ')}
+          </div>
+        </div>
+      ))}
+
+      {stale && (
+        <div style={{ fontSize: 11, color: '#ef4444', marginTop: 6 }}>
+          Ritningen har ändrats — förslaget gäller inte längre
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+        <button
+          type="button"
+          onClick={acceptLayoutProposal}
+          disabled={stale}
+          className="btn"
+          style={{ flex: 1, background: '#22c55e', color: '#fff', border: 'none' }}
+        >
+          Använd förslag
+        </button>
+        <button type="button" onClick={rejectLayoutProposal} className="btn btn-secondary" style={{ flex: 1 }}>
+          Avvisa
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useConfigStore } from '../../store/useConfigStore';
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  hasUnsavedChanges,
+  listProjects,
+  openProject,
+  renameProject,
+  saveProject,
+  type LibraryEntry,
+} from '../../utils/projectLibrary';
+
+const ICON_BUTTON: React.CSSProperties = {
+  border: 'none',
+  background: 'none',
+  cursor: 'pointer',
+  fontSize: 13,
+  padding: '0 2px',
+};
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString('sv-SE', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function LibraryPanel() {
+  const libraryProjectId = useConfigStore((s) => s.libraryProjectId);
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const refresh = useCallback(() => {
+    listProjects()
+      .then((list) => { setEntries(list); setError(null); })
+      .catch(() => setError('Biblioteket kunde inte läsas'));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  /** Run a library action, then show the list as it is now */
+  const run = (action: () => Promise<unknown>) => {
+    action()
+      .then(refresh)
+      .catch(() => setError('Åtgärden misslyckades'));
+  };
+
+  /**
+   * Before the working copy is replaced: changes to a library project are
+   * saved to it, a project outside the library is only dropped after asking.
+   * False when the user keeps it.
+   */
+  const keepWorkingCopy = async (): Promise<boolean> => {
+    if (!(await hasUnsavedChanges())) return true;
+    if (useConfigStore.getState().libraryProjectId) {
+      await saveProject();
+      return true;
+    }
+    return window.confirm('Det öppna projektet är inte sparat i biblioteket. Ersätta det ändå?');
+  };
+
+  const create = () => {
+    run(async () => {
+      if (await keepWorkingCopy()) await createProject();
+    });
+  };
+
+  const open = (id: string) => {
+    keepWorkingCopy()
+      .then(async (replace) => {
+        if (!replace) return;
+        const ok = await openProject(id);
+        if (ok) refresh();
+        else setError('Projektet kunde inte öppnas — sparade data är ogiltiga');
+      })
+      .catch(() => setError('Åtgärden misslyckades'));
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const { id, name } = renaming;
+    setRenaming(null);
+    run(() => renameProject(id, name.trim()));
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: 4, marginBottom: 8 }}>
+        <button type="button" onClick={create} className="btn btn-secondary" style={{ flex: 1 }}>
+          Nytt projekt
+        </button>
+        <button
+          type="button"
+          onClick={() => run(saveProject)}
+          className="btn"
+          style={{ flex: 1, background: '#22c55e', color: '#fff' }}
+          title={libraryProjectId ? 'Spara över det öppna projektet' : 'Spara som nytt projekt i biblioteket'}
+        >
+          Spara i bibliotek
+        </button>
+      </div>
+
+      {error && <div style={{ fontSize: 11, color: '#ef4444', marginBottom: 6 }}>{error}</div>}
+
+      {entries.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#888', textAlign: 'center', padding: '12px 0' }}>
+          Inga sparade projekt
+        </div>
+      ) : (
+        entries.map((entry) => {
+          const isOpen = entry.id === libraryProjectId;
+          return (
+            <div
+              key={entry.id}
+              onClick={() => { if (!isOpen) open(entry.id); }}
+              title={isOpen ? 'Öppet projekt' : 'Öppna projektet'}
+              style={{
+                display: 'flex',
+                gap: 6,
+                alignItems: 'center',
+                padding: 4,
+                marginBottom: 4,
+                borderRadius: 3,
+                cursor: isOpen ? 'default' : 'pointer',
+                background: isOpen ? '#e3f2fd' : 'transparent',
+                border: `1px solid ${isOpen ? '#2196F3' : '#eee'}`,
+              }}
+            >
+              <img
+                src={`data:image/svg+xml;utf8,${encodeURIComponent(entry.thumbnail)}`}
+                alt=""
+                width={60}
+                height={40}
+                style={{ flexShrink: 0, border: '1px solid #e5e7eb', borderRadius: 2 }}
+              />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                {renaming?.id === entry.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    style={{ width: '100%', fontSize: 12, padding: '1px 4px' }}
+                  />
+                ) : (
+                  <div style={{ fontSize: 12, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {entry.ordernamn || 'Namnlöst projekt'}
+                  </div>
+                )}
+                <div style={{ fontSize: 11, color: '#666', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {entry.brfNamn || '–'}
+                </div>
+                <div style={{ fontSize: 10, color: '#999' }}>Ändrad {formatTime(entry.updatedAt)}</div>
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column' }} onClick={(e) => e.stopPropagation()}>
+                <button
+                  type="button"
+                  title="Byt namn"
+                  onClick={() => setRenaming({ id: entry.id, name: entry.ordernamn })}
+                  style={{ ...ICON_BUTTON, color: '#555' }}
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  title="Duplicera"
+                  onClick={() => run(() => duplicateProject(entry.id))}
+                  style={{ ...ICON_BUTTON, color: '#555' }}
+                >
+                  ⧉
+                </button>
+                <button
+                  type="button"
+                  title="Ta bort projekt"
+                  onClick={() => {
+                    if (window.confirm(`Ta bort "${entry.ordernamn || 'Namnlöst projekt'}" ur biblioteket?`)) {
+                      run(() => deleteProject(entry.id));
+                    }
+                  }}
+                  style={{ ...ICON_BUTTON, color: '#e53935' }}
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
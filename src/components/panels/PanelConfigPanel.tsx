@@ -1,5 +1,7 @@
 import { useConfigStore } from '../../store/useConfigStore';
-import type { OpeningDirection, LockSymbol } from '../../types/panel';
+import type { OpeningDirection, LockSymbol, PcComponents } from '../../types/panel';
+import { SPEL_GUIDE_TOLERANCE } from '../../utils/constants';
+import { GLASS_CATALOG, panelGlass } from '../../engine/calculations/glass';
 
 const OPENING_CYCLE: OpeningDirection[] = ['>', '<', 'X'];
 const LOCK_CYCLE: LockSymbol[] = ['-', '|', '||'];
@@ -17,6 +19,8 @@ function shortLock(lock: string | null): string {
     'Slutlock hane': 'SL♂',
     '90 graderslock hona': '90♀',
     '90 graderslock hane': '90♂',
+    '45 graderslock hona': '45♀',
+    '45 graderslock hane': '45♂',
     'Variabelt andlock': 'VA',
     'Moteslock hona': 'ML♀',
     'Moteslock hane': 'ML♂',
@@ -32,6 +36,17 @@ function shortLock(lock: string | null): string {
   return map[lock] ?? lock.slice(0, 3);
 }
 
+/** Compact PC component list, e.g. "h 1014 · 90° 1014" */
+function pcSummary(pc: PcComponents): string {
+  const parts = [
+    ...pc.pc_h.map((l) => `h ${l}`),
+    ...pc.pc_hh.map((l) => `hh ${l}`),
+    ...pc.pc_90gr.map((l) => `90° ${l}`),
+    ...pc.pc_45gr.map((l) => `45° ${l}`),
+  ];
+  return parts.length > 0 ? parts.join(' · ') : '–';
+}
+
 export function PanelConfigPanel() {
   const selectedIdx = useConfigStore((s) => s.selectedSegmentIndex);
   const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
@@ -40,6 +55,8 @@ export function PanelConfigPanel() {
   const removePanel = useConfigStore((s) => s.removePanel);
   const updatePanelField = useConfigStore((s) => s.updatePanelField);
   const autoGeneratePanels = useConfigStore((s) => s.autoGeneratePanels);
+  const setEdgeLayoutLocked = useConfigStore((s) => s.setEdgeLayoutLocked);
+  const glastyp = useConfigStore((s) => s.projectConfig.glastyp);
 
   if (selectedIdx === null) {
     return <EmptyState text="Välj ett segment" />;
@@ -53,6 +70,7 @@ export function PanelConfigPanel() {
   const panels = edge.panels;
   const data = getEdgeData(selectedIdx);
   const fittings = data?.panelFittings ?? [];
+  const glassSpec = GLASS_CATALOG[glastyp];
 
   return (
     <div>
@@ -76,6 +94,24 @@ export function PanelConfigPanel() {
         </button>
       </div>
 
+      {/* Auto / manual layout */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 8, fontSize: 11 }}>
+        <span style={{ flex: 1, color: edge.layoutLocked ? '#2563eb' : '#888' }}>
+          {edge.layoutLocked
+            ? 'Manuell layout — behålls när kedjan ändras, bara offset anpassas'
+            : 'Auto — genereras om när kedjan ändras'}
+        </span>
+        <button
+          type="button"
+          onClick={() => setEdgeLayoutLocked(selectedIdx, !edge.layoutLocked)}
+          className="btn btn-secondary"
+          disabled={panels.length === 0}
+          title={edge.layoutLocked ? 'Generera om panelerna automatiskt' : 'Behåll panelerna som de är'}
+        >
+          {edge.layoutLocked ? 'Lås upp' : 'Lås layout'}
+        </button>
+      </div>
+
       {/* Panel list */}
       {panels.length === 0 ? (
         <EmptyState text='Inga paneler. Klicka "Auto-generera".' />
@@ -83,6 +119,7 @@ export function PanelConfigPanel() {
         <div>
           {panels.map((panel, pi) => {
             const fitting = fittings[pi];
+            const pane = fitting ? panelGlass(fitting, glassSpec) : null;
             return (
               <div
                 key={pi}
@@ -208,8 +245,15 @@ export function PanelConfigPanel() {
                       {shortLock(fitting.topLeft)}
                     </span>
                     <span style={{ color: '#ccc' }}>|</span>
-                    <span style={{ color: '#444' }}>
-                      {fitting.glassWidth} mm glas
+                    <span
+                      style={{ color: '#444' }}
+                      title={`Glasmodul: ${fitting.glassModuleHeight} mm`}
+                    >
+                      {fitting.glassWidth} × {fitting.glassHeight} mm glas
+                    </span>
+                    <span style={{ color: '#ccc' }}>·</span>
+                    <span title={`${glassSpec.label}, ${pane?.area} m²`}>
+                      {pane?.weight} kg
                     </span>
                     <span style={{ color: '#ccc' }}>|</span>
                     <span
@@ -232,6 +276,15 @@ export function PanelConfigPanel() {
                   </div>
                 )}
 
+                {/* Glass profile row */}
+                {fitting && (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 10, color: '#888', paddingLeft: 16, marginTop: 2 }}>
+                    <span>Glasprofil Ö: {fitting.upperGlassProfileLength}</span>
+                    <span>Glasprofil U: {fitting.lowerGlassProfileLength}</span>
+                    <span title="PC-komponenter">PC: {pcSummary(fitting.pcComponents)}</span>
+                  </div>
+                )}
+
                 {/* Offsets row */}
                 <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 10, color: '#888', paddingLeft: 16, marginTop: 2 }}>
                   <span>Offs V: {panel.offsetLeft}</span>
@@ -261,7 +314,7 @@ export function PanelConfigPanel() {
               <span style={{ color: '#444' }}>Spel:</span>
               <span style={{
                 fontWeight: 600,
-                color: Math.abs(data.spelGuide) > 5 ? '#f59e0b' : '#2196F3',
+                color: Math.abs(data.spelGuide) > SPEL_GUIDE_TOLERANCE ? '#f59e0b' : '#2196F3',
               }}>
                 {data.spelGuide} mm
               </span>
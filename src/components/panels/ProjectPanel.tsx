@@ -1,8 +1,21 @@
 import { useConfigStore } from '../../store/useConfigStore';
+import { GLASS_CATALOG, GLASS_TYPES, glassOrder } from '../../engine/calculations/glass';
+import { PRODUCT_SYSTEMS } from '../../engine/productSystem/productSystems';
+import type { GlassType } from '../../types/glass';
 
 export function ProjectPanel() {
   const config = useConfigStore((s) => s.projectConfig);
   const setField = useConfigStore((s) => s.setProjectField);
+  const setProductSystem = useConfigStore((s) => s.setProductSystem);
+  // Subscribe to the inputs so the glass order follows every edit
+  useConfigStore((s) => s.guideChains);
+  useConfigStore((s) => s.guidePoints);
+  useConfigStore((s) => s.guideClosed);
+  useConfigStore((s) => s.edgeConfigs);
+  useConfigStore((s) => s.levels);
+  const getChainProjects = useConfigStore((s) => s.getChainProjects);
+
+  const order = glassOrder(getChainProjects());
 
   return (
     <div>
@@ -35,17 +48,48 @@ export function ProjectPanel() {
         />
       </div>
 
+      <div className="control">
+        <label>Produktsystem</label>
+        <select value={config.productSystemId} onChange={(e) => setProductSystem(e.target.value)}>
+          {PRODUCT_SYSTEMS.map((system) => (
+            <option key={system.id} value={system.id}>
+              {system.name} ({system.version})
+            </option>
+          ))}
+        </select>
+      </div>
+
       <div className="control">
         <label>Glastyp</label>
         <select
           value={config.glastyp}
-          onChange={(e) => setField('glastyp', e.target.value as 'Kristall' | 'Lag-E')}
+          onChange={(e) => setField('glastyp', e.target.value as GlassType)}
         >
-          <option value="Kristall">Kristall</option>
-          <option value="Lag-E">Lag-E</option>
+          {GLASS_TYPES.map((type) => (
+            <option key={type} value={type} title={GLASS_CATALOG[type].label}>
+              {type}
+            </option>
+          ))}
         </select>
+        <div style={{ fontSize: 10, color: '#888', marginTop: 2 }}>
+          {GLASS_CATALOG[config.glastyp].thickness} mm · {GLASS_CATALOG[config.glastyp].density} kg/m³
+        </div>
       </div>
 
+      {order.length > 0 && (
+        <div className="control">
+          <label>Glasbeställning</label>
+          {order.map(({ type, totals }) => (
+            <div key={type} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12 }}>
+              <span style={{ color: '#444' }}>{type}</span>
+              <span style={{ fontWeight: 600, color: '#2196F3' }}>
+                {totals.count} st · {totals.area} m² · {totals.weight} kg
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="control">
         <label>Glasuppdelning</label>
         <input
@@ -1,10 +1,38 @@
 import { useConfigStore } from '../../store/useConfigStore';
+import type { PcComponents } from '../../types/panel';
+import type { FrameKind } from '../../engine/calculations/frameDivision';
+import type { SupportProfileKind } from '../../engine/calculations/supportProfiles';
+import { DEFAULT_DOOR_WIDTH, SPEL_GUIDE_TOLERANCE } from '../../utils/constants';
+
+const PC_COMPONENT_ROWS: { key: keyof PcComponents; label: string }[] = [
+  { key: 'pc_h', label: 'PC rak' },
+  { key: 'pc_hh', label: 'PC dubbel' },
+  { key: 'pc_90gr', label: 'PC 90°' },
+  { key: 'pc_45gr', label: 'PC 45°' },
+];
+
+const SUPPORT_PROFILE_LABELS: Record<SupportProfileKind, string> = {
+  barlina: 'Bärlina',
+  bottenprofil: 'Bottenprofil',
+};
+
+const FRAME_KIND_LABELS: Record<FrameKind, string> = {
+  glass: 'glas',
+  covered: 'täckt',
+  wall: 'vägg',
+};
 
 export function SegmentPanel() {
   const selectedIdx = useConfigStore((s) => s.selectedSegmentIndex);
   const getEdgeData = useConfigStore((s) => s.getEdgeData);
   const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
   const setEdgeWallOrGlazing = useConfigStore((s) => s.setEdgeWallOrGlazing);
+  const setEdgeDoor = useConfigStore((s) => s.setEdgeDoor);
+  const getProjectData = useConfigStore((s) => s.getProjectData);
+  // Frame division, support profiles and glass also follow these settings
+  useConfigStore((s) => s.profileConfig);
+  useConfigStore((s) => s.frameWidthSettings);
+  const glastyp = useConfigStore((s) => s.projectConfig.glastyp);
 
   if (selectedIdx === null) {
     return <EmptyState text="Välj ett segment i CAD-vyn" />;
@@ -17,6 +45,10 @@ export function SegmentPanel() {
 
   const edgeConfig = edgeConfigs[selectedIdx];
   const isGlazing = edgeConfig?.wallOrGlazingStatus !== 'wall';
+  const door = edgeConfig?.door;
+  const projectSide = getProjectData().sides.find((side) => side.segIndex === selectedIdx);
+  const division = projectSide?.frameDivision;
+  const supportProfiles = projectSide?.supportProfiles ?? [];
 
   return (
     <div>
@@ -68,6 +100,52 @@ export function SegmentPanel() {
         )}
       </div>
 
+      {/* Balcony door in a wall */}
+      {!isGlazing && (
+        <div style={{ borderTop: '1px solid #eee', paddingTop: 6, marginTop: 6 }}>
+          <div className="checkbox-row">
+            <input
+              type="checkbox"
+              checked={!!door}
+              onChange={(e) =>
+                setEdgeDoor(
+                  selectedIdx,
+                  e.target.checked
+                    ? {
+                        offset: Math.max(0, Math.round((data.edgeLength - DEFAULT_DOOR_WIDTH) / 2)),
+                        width: Math.min(DEFAULT_DOOR_WIDTH, Math.round(data.edgeLength)),
+                      }
+                    : null,
+                )
+              }
+            />
+            <label>Dörr</label>
+          </div>
+          {door && (
+            <>
+              <div className="control">
+                <label>Från start (mm)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={door.offset}
+                  onChange={(e) => setEdgeDoor(selectedIdx, { ...door, offset: Number(e.target.value) })}
+                />
+              </div>
+              <div className="control">
+                <label>Dörrbredd (mm)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={door.width}
+                  onChange={(e) => setEdgeDoor(selectedIdx, { ...door, width: Number(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Profile offsets */}
       {isGlazing && (
         <div style={{ borderTop: '1px solid #eee', paddingTop: 6, marginTop: 6 }}>
@@ -85,7 +163,7 @@ export function SegmentPanel() {
           <InfoRow
             label="Spel guide"
             value={`${data.spelGuide} mm`}
-            warn={Math.abs(data.spelGuide) > 5}
+            warn={Math.abs(data.spelGuide) > SPEL_GUIDE_TOLERANCE}
           />
         </div>
       )}
@@ -98,6 +176,58 @@ export function SegmentPanel() {
           <InfoRow label="Överskena" value={`${data.cutLengths.overskena} mm`} />
           <InfoRow label="Överhållare" value={`${data.cutLengths.overhallare} mm`} />
           <InfoRow label="Täcklist" value={`${data.cutLengths.coverprofile} mm`} />
+          {supportProfiles.map((piece) => (
+            <InfoRow
+              key={piece.kind}
+              label={`${SUPPORT_PROFILE_LABELS[piece.kind]} ${piece.profileName}`}
+              value={`${piece.length} mm`}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Frame division */}
+      {division && (
+        <div style={{ borderTop: '1px solid #eee', paddingTop: 6, marginTop: 6 }}>
+          <div style={{ fontSize: 10, color: '#888', textTransform: 'uppercase', marginBottom: 4 }}>
+            Ramindelning ({FRAME_KIND_LABELS[division.kind]}, max {division.maxWidth} mm)
+          </div>
+          {division.frames.map((frame) => (
+            <div key={frame.index} style={{ marginBottom: 4 }}>
+              <InfoRow label={`Ram ${frame.index + 1}`} value={`${frame.length} mm`} />
+              <div style={{ fontSize: 10, color: '#888', paddingLeft: 8 }}>
+                U {frame.cutLengths.underskena} · Ö {frame.cutLengths.overskena} · ÖH {frame.cutLengths.overhallare} · T {frame.cutLengths.coverprofile}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Glass panes */}
+      {projectSide && projectSide.glass.length > 0 && (
+        <div style={{ borderTop: '1px solid #eee', paddingTop: 6, marginTop: 6 }}>
+          <div style={{ fontSize: 10, color: '#888', textTransform: 'uppercase', marginBottom: 4 }}>Glas ({glastyp})</div>
+          <InfoRow label="Rutor" value={`${projectSide.glassTotals.count} st`} />
+          <InfoRow label="Area" value={`${projectSide.glassTotals.area} m²`} />
+          <InfoRow label="Vikt" value={`${projectSide.glassTotals.weight} kg`} />
+          <InfoRow
+            label="Tyngsta ruta"
+            value={`${Math.max(...projectSide.glass.map((g) => g.weight))} kg`}
+          />
+        </div>
+      )}
+
+      {/* PC components */}
+      {isGlazing && data.panelFittings.length > 0 && (
+        <div style={{ borderTop: '1px solid #eee', paddingTop: 6, marginTop: 6 }}>
+          <div style={{ fontSize: 10, color: '#888', textTransform: 'uppercase', marginBottom: 4 }}>PC-komponenter</div>
+          {PC_COMPONENT_ROWS.map(({ key, label }) => {
+            const lengths = data.pcComponents[key];
+            if (lengths.length === 0) return null;
+            return (
+              <InfoRow key={key} label={label} value={`${lengths.length} × ${lengths[0]} mm`} />
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,155 @@
+/**
+ * BrostningFrames3D — balustrade frames in the Understycke → Mellanstycke zone.
+ *
+ * Simple box geometry: a square aluminium frame around a panel or glass
+ * fill, as produced by the balustrade frame builder.
+ */
+
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useConfigStore } from '../../store/useConfigStore';
+import type { BrostningFrame } from '../../engine/calculations/brostningFrames';
+import { computeProject } from '../../engine/calculations/projectCalculations';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { useProductSystem } from '../../hooks/useProductSystem';
+
+// ─── Constants ──────────────────────────────────────────────────
+const FRAME_PROFILE_M = 40 / 1000; // square frame profile, 40 mm
+const PANEL_THICKNESS_M = 20 / 1000;
+const GLASS_THICKNESS_M = 8 / 1000;
+
+// ─── Materials ──────────────────────────────────────────────────
+const frameMat = new THREE.MeshStandardMaterial({
+  color: '#d0d0d0',
+  metalness: 0.5,
+  roughness: 0.3,
+});
+
+const whitePanelMat = new THREE.MeshStandardMaterial({ color: '#f5f5f5', roughness: 0.8 });
+const greyPanelMat = new THREE.MeshStandardMaterial({ color: '#8a8d91', roughness: 0.8 });
+const firePanelMat = new THREE.MeshStandardMaterial({ color: '#c9c4bc', roughness: 0.9 });
+const glassMat = new THREE.MeshStandardMaterial({
+  color: '#88ccee',
+  transparent: true,
+  opacity: 0.3,
+  side: THREE.DoubleSide,
+  depthWrite: false,
+});
+
+// ─── Fill ───────────────────────────────────────────────────────
+function FrameFill({ frame, width, height }: { frame: BrostningFrame; width: number; height: number }) {
+  if (frame.fill === 'glass') {
+    return (
+      <mesh material={glassMat}>
+        <boxGeometry args={[width, height, GLASS_THICKNESS_M]} />
+      </mesh>
+    );
+  }
+
+  if (frame.ramType === 'Vit & Gra Panel') {
+    // White outside, grey facing the balcony (+Z = inward)
+    const half = PANEL_THICKNESS_M / 2;
+    return (
+      <group>
+        <mesh material={whitePanelMat} position={[0, 0, -half / 2]}>
+          <boxGeometry args={[width, height, half]} />
+        </mesh>
+        <mesh material={greyPanelMat} position={[0, 0, half / 2]}>
+          <boxGeometry args={[width, height, half]} />
+        </mesh>
+      </group>
+    );
+  }
+
+  return (
+    <mesh material={frame.fireRated ? firePanelMat : whitePanelMat}>
+      <boxGeometry args={[width, height, PANEL_THICKNESS_M]} />
+    </mesh>
+  );
+}
+
+// ─── One frame ──────────────────────────────────────────────────
+function BrostningFrameAssembly({ frame }: { frame: BrostningFrame }) {
+  const w = frame.length / 1000;
+  const h = frame.height / 1000;
+  const p = FRAME_PROFILE_M;
+
+  return (
+    <group>
+      {/* Rails and stiles */}
+      <mesh material={frameMat} position={[0, h / 2 - p / 2, 0]}>
+        <boxGeometry args={[w, p, p]} />
+      </mesh>
+      <mesh material={frameMat} position={[0, -h / 2 + p / 2, 0]}>
+        <boxGeometry args={[w, p, p]} />
+      </mesh>
+      <mesh material={frameMat} position={[-w / 2 + p / 2, 0, 0]}>
+        <boxGeometry args={[p, h - 2 * p, p]} />
+      </mesh>
+      <mesh material={frameMat} position={[w / 2 - p / 2, 0, 0]}>
+        <boxGeometry args={[p, h - 2 * p, p]} />
+      </mesh>
+
+      <FrameFill frame={frame} width={w - 2 * p} height={h - 2 * p} />
+
+      {/* Handle on the inside of opening sashes */}
+      {frame.openable && (
+        <mesh material={frameMat} position={[w / 2 - p * 1.5, 0, p]}>
+          <boxGeometry args={[0.02, 0.12, 0.02]} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+// ─── Main component ─────────────────────────────────────────────
+export function BrostningFrames3D() {
+  const chains = useGuideChains();
+  const levels = useConfigStore((s) => s.levels);
+  const profileConfig = useConfigStore((s) => s.profileConfig);
+  const frameWidthSettings = useConfigStore((s) => s.frameWidthSettings);
+  const system = useProductSystem();
+
+  const frames = useMemo(
+    () =>
+      chains.flatMap((chain) =>
+        computeProject({
+          guidePoints: chain.points,
+          closed: chain.closed,
+          edgeConfigs: chain.edgeConfigs,
+          levels,
+          profileConfig,
+          frameWidthSettings,
+          system,
+        })
+          .sides.flatMap((side) => side.brostningFrames)
+          .map((frame) => ({ chainId: chain.id, frame })),
+      ),
+    [chains, levels, profileConfig, frameWidthSettings, system],
+  );
+
+  if (frames.length === 0) return null;
+
+  return (
+    <group>
+      {frames.map(({ chainId, frame }) => {
+        const sx = frame.start.x / 1000;
+        const sz = -frame.start.y / 1000;
+        const ex = frame.end.x / 1000;
+        const ez = -frame.end.y / 1000;
+        const yRotation = -Math.atan2(ez - sz, ex - sx);
+        const centerY = (frame.bottom + frame.top) / 2 / 1000;
+
+        return (
+          <group
+            key={`brostning-${chainId}-${frame.sideNumber}-${frame.index}`}
+            position={[(sx + ex) / 2, centerY, (sz + ez) / 2]}
+            rotation={[0, yRotation, 0]}
+          >
+            <BrostningFrameAssembly frame={frame} />
+          </group>
+        );
+      })}
+    </group>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * DesignIssues3D — design rule markers in the 3D view.
+ *
+ * Sides with issues get a coloured line along the guide at Mellanstycke,
+ * corners a vertical post from Understycke to Överstycke and a ring at the
+ * guide, so the markers also read in the top-down 2D view.
+ */
+
+import { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { useConfigStore } from '../../store/useConfigStore';
+import type { Point2D } from '../../types/geometry';
+import { getSegmentCount, segmentEndIndex } from '../../engine/geometry/guideChain';
+import { issueSegments, issueVertices } from '../../engine/validation/designRules';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { useDesignIssues, ISSUE_COLORS } from '../../hooks/useDesignIssues';
+
+/** Convert mm point to Three.js meters at given Y height. */
+function toThree(p: Point2D, y: number): [number, number, number] {
+  return [p.x / 1000, y, -p.y / 1000];
+}
+
+const RING_RADIUS_MM = 80;
+const RING_STEPS = 24;
+
+function ring(center: Point2D, y: number): [number, number, number][] {
+  return Array.from({ length: RING_STEPS + 1 }, (_, k) => {
+    const a = (k / RING_STEPS) * Math.PI * 2;
+    return toThree({ x: center.x + Math.cos(a) * RING_RADIUS_MM, y: center.y + Math.sin(a) * RING_RADIUS_MM }, y);
+  });
+}
+
+export function DesignIssues3D() {
+  const chains = useGuideChains();
+  const issues = useDesignIssues();
+  const levels = useConfigStore((s) => s.levels.levels);
+
+  const bottomY = levels.Understycke.zPosition / 1000;
+  const guideY = levels.Mellanstycke.zPosition / 1000;
+  const topY = levels.Overstycke.zPosition / 1000;
+
+  const markers = useMemo(
+    () =>
+      chains.flatMap((chain) => {
+        const segCount = getSegmentCount(chain.points, chain.closed);
+        const segs = [...issueSegments(issues, chain.id)]
+          .filter(([i]) => i < segCount)
+          .map(([i, severity]) => ({
+            key: `${chain.id}-seg-${i}`,
+            points: [
+              toThree(chain.points[i], guideY),
+              toThree(chain.points[segmentEndIndex(chain.points, i)], guideY),
+            ],
+            color: ISSUE_COLORS[severity],
+            lineWidth: 8,
+          }));
+        const verts = [...issueVertices(issues, chain.id)]
+          .filter(([i]) => i < chain.points.length)
+          .flatMap(([i, severity]) => [
+            {
+              key: `${chain.id}-vert-${i}`,
+              points: [toThree(chain.points[i], bottomY), toThree(chain.points[i], topY)],
+              color: ISSUE_COLORS[severity],
+              lineWidth: 5,
+            },
+            {
+              key: `${chain.id}-ring-${i}`,
+              points: ring(chain.points[i], guideY),
+              color: ISSUE_COLORS[severity],
+              lineWidth: 3,
+            },
+          ]);
+        return [...segs, ...verts];
+      }),
+    [chains, issues, bottomY, guideY, topY],
+  );
+
+  if (markers.length === 0) return null;
+
+  return (
+    <group>
+      {markers.map(({ key, points, color, lineWidth }) => (
+        <Line key={key} points={points} color={color} lineWidth={lineWidth} transparent opacity={0.7} />
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * FrameSplits2D — where long sides are split into frames, drawn over the plan.
+ *
+ * Every split post of a side's frame division (see frameDivision.ts) is a
+ * short dashed tick across the guide.
+ */
+
+import { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { useConfigStore } from '../../store/useConfigStore';
+import type { Point2D } from '../../types/geometry';
+import { segmentEndIndex } from '../../engine/geometry/guideChain';
+import { useChainProjects } from '../../hooks/useChainProjects';
+import { useGuideChains } from '../../hooks/useGuideChains';
+
+const SPLIT_COLOR = '#a855f7';
+
+/** Half the tick length across the guide (mm) */
+const TICK_HALF = 120;
+
+/** Convert mm point to Three.js meters at given Y height. */
+function toThree(p: Point2D, y: number): [number, number, number] {
+  return [p.x / 1000, y, -p.y / 1000];
+}
+
+export function FrameSplits2D() {
+  const chains = useGuideChains();
+  const chainProjects = useChainProjects();
+  const mellanZ = useConfigStore((s) => s.levels.levels.Mellanstycke.zPosition);
+  // Just above the guide lines
+  const y = mellanZ / 1000 + 0.004;
+
+  const ticks = useMemo(() => {
+    const out: { key: string; from: Point2D; to: Point2D }[] = [];
+    for (const { chainId, project } of chainProjects) {
+      const points = chains.find((c) => c.id === chainId)?.points;
+      if (!points) continue;
+      for (const side of project.sides) {
+        const start = points[side.segIndex];
+        const end = points[segmentEndIndex(points, side.segIndex)];
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        const len = Math.sqrt(dx * dx + dy * dy);
+        if (len < 1e-10) continue;
+        const ux = dx / len;
+        const uy = dy / len;
+        side.frameDivision?.splitPositions.forEach((d, i) => {
+          const px = start.x + ux * d;
+          const py = start.y + uy * d;
+          out.push({
+            key: `${chainId}-${side.segIndex}-${i}`,
+            from: { x: px - uy * TICK_HALF, y: py + ux * TICK_HALF },
+            to: { x: px + uy * TICK_HALF, y: py - ux * TICK_HALF },
+          });
+        });
+      }
+    }
+    return out;
+  }, [chains, chainProjects]);
+
+  if (ticks.length === 0) return null;
+
+  return (
+    <group>
+      {ticks.map((tick) => (
+        <Line
+          key={tick.key}
+          points={[toThree(tick.from, y), toThree(tick.to, y)]}
+          color={SPLIT_COLOR}
+          lineWidth={2}
+          dashed
+          dashSize={0.03}
+          gapSize={0.015}
+          depthTest={false}
+          renderOrder={11}
+        />
+      ))}
+    </group>
+  );
+}
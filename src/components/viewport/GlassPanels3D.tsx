@@ -10,66 +10,32 @@ import { useGLTF } from '@react-three/drei';
 import * as THREE from 'three';
 import { useConfigStore } from '../../store/useConfigStore';
 import type { Point2D } from '../../types/geometry';
-import type { LockType } from '../../types/panel';
-import {
-  END_CAP_INFO,
-  END_CAP_TYPES,
-  type EndCapType,
-  DEFAULT_GLASS_OFFSET,
-  DEFAULT_BOTTOM_LOCK_WIDTH,
-} from '../../store/panelBuilderStore';
-import {
-  GLASS_HEIGHT_OFFSET,
-  GLASS_MODULE_HEIGHT_OFFSET,
-} from '../../utils/constants';
-import {
-  computeEdgeData,
-  type PanelFittingResult,
-} from '../../engine/calculations/edgeCalculations';
-
-// ─── Map LockType → EndCapType (PL-number) ─────────────────────
-// Left side caps
-function lockTypeToEndCapLeft(lockType: LockType): EndCapType {
-  switch (lockType) {
-    case 'Slutlock hona':      return 'PL-230';
-    case 'Slutlock hane':      return 'PL-230';
-    case '90 graderslock hona': return 'PL-160';
-    case '90 graderslock hane': return 'PL-180';
-    case 'Variabelt andlock':  return 'PL-220';
-    case 'Moteslock hona':     return 'PL-200';
-    case 'Moteslock hane':     return 'PL-200';
-    default:                   return 'PL-200'; // fallback: möteslock
-  }
-}
-
-// Right side caps
-function lockTypeToEndCapRight(lockType: LockType): EndCapType {
-  switch (lockType) {
-    case 'Slutlock hona':      return 'PL-240';
-    case 'Slutlock hane':      return 'PL-240';
-    case '90 graderslock hona': return 'PL-170';
-    case '90 graderslock hane': return 'PL-190';
-    case 'Variabelt andlock':  return 'PL-220';
-    case 'Moteslock hona':     return 'PL-210';
-    case 'Moteslock hane':     return 'PL-210';
-    default:                   return 'PL-210'; // fallback: möteslock
-  }
-}
+import type { PanelFitting } from '../../types/panel';
+import type { ProductSystem } from '../../types/productSystem';
+import { END_CAP_TYPES, PRODUCT_SYSTEMS } from '../../engine/productSystem/productSystems';
+import { computeEdgeData } from '../../engine/calculations/edgeCalculations';
+import { endCapForLock } from '../../engine/calculations/cornerLocks';
+import { getSegmentCount, glazingSide, segmentEndIndex } from '../../engine/geometry/guideChain';
+import { getFrameHeight } from '../../engine/calculations/projectCalculations';
+import { useGuideChains } from '../../hooks/useGuideChains';
+import { useProductSystem } from '../../hooks/useProductSystem';
 
 // ─── Types ──────────────────────────────────────────────────────
 interface PositionedPanel {
   centerAlongSegment: number; // mm from segment start
   panelWidth: number;         // mm
   index: number;
-  fitting: PanelFittingResult;
+  fitting: PanelFitting;
   hasLock: boolean;
 }
 
 interface SegmentPanelGroup {
+  chainId: string;
   segIndex: number;
   start: Point2D;
   end: Point2D;
-  frameHeight: number; // mm
+  /** 1 when the inside of the balcony is right of travel, −1 when left */
+  inward: 1 | -1;
   panels: PositionedPanel[];
 }
 
@@ -88,8 +54,9 @@ const PART_ROT = {
 
 // ─── Constants ──────────────────────────────────────────────────
 // Glass panels are placed 62.5mm perpendicular inward from the guideline
-// (to the RIGHT side of the travel direction, matching SketchUp's
-// direction.cross(Z_AXIS) which gives [dy, -dx] in 2D).
+// (to the RIGHT side of the travel direction of a chain with the glazing on
+// its left, matching SketchUp's direction.cross(Z_AXIS) which gives
+// [dy, -dx] in 2D; mirrored when the glazing is on the right).
 const PANEL_PERP_OFFSET_M = 62.5 / 1000; // 62.5mm in meters
 
 // ─── Helpers ────────────────────────────────────────────────────
@@ -238,33 +205,27 @@ function MainLock({
 }
 
 // ─── Single panel assembly with real GLB parts ──────────────────
-function RealPanelAssembly({
-  panel,
-  frameHeight,
-}: {
-  panel: PositionedPanel;
-  frameHeight: number; // mm
-}) {
+function RealPanelAssembly({ panel, system }: { panel: PositionedPanel; system: ProductSystem }) {
   const { fitting, panelWidth, hasLock } = panel;
-
-  const glassHeight = frameHeight - GLASS_HEIGHT_OFFSET;
-  const glassModuleHeight = frameHeight - GLASS_MODULE_HEIGHT_OFFSET;
+  const { endCaps } = system;
+  const { glassHeight, glassModuleHeight } = fitting;
 
   // End cap types from fitting lock types
-  const leftCapType = lockTypeToEndCapLeft(fitting.topLeft);
-  const rightCapType = lockTypeToEndCapRight(fitting.topRight);
+  const leftCapType = endCapForLock(fitting.topLeft, 'left');
+  const rightCapType = endCapForLock(fitting.topRight, 'right');
 
   // Top rail: upper profile is flipped, so only the RIGHT end cap swaps L↔R
   const topLeftCapType = leftCapType;
-  const topRightCapType = lockTypeToEndCapLeft(fitting.topRight);
+  const topRightCapType = endCapForLock(fitting.topRight, 'left');
 
   // Bottom rail: the LEFT end cap at meeting points is swapped R→L
-  const bottomLeftCapType = lockTypeToEndCapRight(fitting.topLeft);
+  const bottomLeftCapType = endCapForLock(fitting.topLeft, 'right');
   const bottomRightCapType = rightCapType;
 
-  const leftOffset = DEFAULT_GLASS_OFFSET[leftCapType];
-  const rightOffset = DEFAULT_GLASS_OFFSET[rightCapType];
-  const lockDeduction = hasLock ? DEFAULT_BOTTOM_LOCK_WIDTH.single : 0;
+  const leftOffset = endCaps[leftCapType].defaultGlassOffset;
+  const rightOffset = endCaps[rightCapType].defaultGlassOffset;
+  // The lower profile gives way for the undre lås by the width the fitting deducts
+  const lockDeduction = fitting.glassWidth - fitting.lowerGlassProfileLength;
 
   // Profile lengths
   const upperProfileLen = panelWidth - leftOffset - rightOffset;
@@ -284,10 +245,10 @@ function RealPanelAssembly({
   const bottomRightCapX = upperProfileEndX;
 
   // GLB paths
-  const topLeftCapGlb = END_CAP_INFO[topLeftCapType].glb;
-  const topRightCapGlb = END_CAP_INFO[topRightCapType].glb;
-  const bottomLeftCapGlb = END_CAP_INFO[bottomLeftCapType].glb;
-  const bottomRightCapGlb = END_CAP_INFO[bottomRightCapType].glb;
+  const topLeftCapGlb = endCaps[topLeftCapType].glb;
+  const topRightCapGlb = endCaps[topRightCapType].glb;
+  const bottomLeftCapGlb = endCaps[bottomLeftCapType].glb;
+  const bottomRightCapGlb = endCaps[bottomRightCapType].glb;
 
   return (
     <group>
@@ -332,70 +293,73 @@ function RealPanelAssembly({
 
 // ─── Main component ─────────────────────────────────────────────
 export function GlassPanels3D() {
-  const guidePoints = useConfigStore((s) => s.guidePoints);
-  const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
-  const levels = useConfigStore((s) => s.levels.levels);
+  const chains = useGuideChains();
+  const levelsConfig = useConfigStore((s) => s.levels);
+  const levels = levelsConfig.levels;
 
   const mellanstyckeY = levels.Mellanstycke.zPosition / 1000;
   const overstyckeY = levels.Overstycke.zPosition / 1000;
-  const frameHeightMm = levels.Overstycke.zPosition - levels.Mellanstycke.zPosition;
+  const frameHeightMm = getFrameHeight(levelsConfig);
+  const system = useProductSystem();
 
   const segmentGroups = useMemo((): SegmentPanelGroup[] => {
-    if (guidePoints.length < 2) return [];
-
     const groups: SegmentPanelGroup[] = [];
 
-    for (let segIdx = 0; segIdx < guidePoints.length - 1; segIdx++) {
-      const edge = edgeConfigs[segIdx];
-      if (!edge || edge.wallOrGlazingStatus === 'wall') continue;
-      if (edge.panels.length === 0) continue;
-
-      // Get computed fittings for this edge
-      const edgeData = computeEdgeData(guidePoints, edgeConfigs, segIdx, frameHeightMm);
-      if (!edgeData || edgeData.panelFittings.length === 0) continue;
-
-      const start = guidePoints[segIdx];
-      const end = guidePoints[segIdx + 1];
-
-      const positionedPanels: PositionedPanel[] = [];
-
-      // Panels use their exact stored widths — no spelGuide distribution.
-      // (In SketchUp the edge is resized to totalModuleLength instead.)
-      let cursor = 0;
-
-      for (let pIdx = 0; pIdx < edge.panels.length; pIdx++) {
-        const panel = edge.panels[pIdx];
-        const fitting = edgeData.panelFittings[pIdx];
-        if (!fitting) continue;
-
-        cursor += panel.offsetLeft;
-        const centerAlongSegment = cursor + panel.length / 2;
-
-        // Panel has a lock if lock symbol is | or ||
-        const hasLock = panel.lock === '|' || panel.lock === '||';
-
-        positionedPanels.push({
-          centerAlongSegment,
-          panelWidth: panel.length,
-          index: pIdx,
-          fitting,
-          hasLock,
+    for (const { id: chainId, points: guidePoints, closed, edgeConfigs } of chains) {
+      const inward = glazingSide(guidePoints);
+      for (let segIdx = 0; segIdx < getSegmentCount(guidePoints, closed); segIdx++) {
+        const edge = edgeConfigs[segIdx];
+        if (!edge || edge.wallOrGlazingStatus === 'wall') continue;
+        if (edge.panels.length === 0) continue;
+
+        // Get computed fittings for this edge
+        const edgeData = computeEdgeData(guidePoints, edgeConfigs, segIdx, frameHeightMm, system, closed);
+        if (!edgeData || edgeData.panelFittings.length === 0) continue;
+
+        const start = guidePoints[segIdx];
+        const end = guidePoints[segmentEndIndex(guidePoints, segIdx)];
+
+        const positionedPanels: PositionedPanel[] = [];
+
+        // Panels use their exact stored widths — no spelGuide distribution.
+        // (In SketchUp the edge is resized to totalModuleLength instead.)
+        let cursor = 0;
+
+        for (let pIdx = 0; pIdx < edge.panels.length; pIdx++) {
+          const panel = edge.panels[pIdx];
+          const fitting = edgeData.panelFittings[pIdx];
+          if (!fitting) continue;
+
+          cursor += panel.offsetLeft;
+          const centerAlongSegment = cursor + panel.length / 2;
+
+          // Panel has a lock if lock symbol is | or ||
+          const hasLock = panel.lock === '|' || panel.lock === '||';
+
+          positionedPanels.push({
+            centerAlongSegment,
+            panelWidth: panel.length,
+            index: pIdx,
+            fitting,
+            hasLock,
+          });
+
+          cursor += panel.length + panel.offsetRight;
+        }
+
+        groups.push({
+          chainId,
+          segIndex: segIdx,
+          start,
+          end,
+          inward,
+          panels: positionedPanels,
         });
-
-        cursor += panel.length + panel.offsetRight;
       }
-
-      groups.push({
-        segIndex: segIdx,
-        start,
-        end,
-        frameHeight: frameHeightMm,
-        panels: positionedPanels,
-      });
     }
 
     return groups;
-  }, [guidePoints, edgeConfigs, frameHeightMm]);
+  }, [chains, frameHeightMm, system]);
 
   if (segmentGroups.length === 0) return null;
 
@@ -427,8 +391,8 @@ export function GlassPanels3D() {
     //   toThreeXZ: x→x/1000, y→-y/1000
     //   Three.js dir: (dx2d/L/1000, dy2d/L/1000 negated by toThreeXZ → dirZ already has sign)
     //   We just need perpX = -dirZ, perpZ = dirX (rotate dir 90° CW in XZ plane)
-    const perpX = -dirZ;
-    const perpZ = dirX;
+    const perpX = -dirZ * seg.inward;
+    const perpZ = dirX * seg.inward;
 
     return seg.panels.map((panel) => {
       const t = panel.centerAlongSegment / 1000;
@@ -436,28 +400,24 @@ export function GlassPanels3D() {
       const posZ = startZ + dirZ * t + perpZ * PANEL_PERP_OFFSET_M;
 
       return {
-        key: `seg${seg.segIndex}-p${panel.index}`,
+        key: `${seg.chainId}-seg${seg.segIndex}-p${panel.index}`,
         posX,
         posZ,
         yRotation,
         panel,
-        frameHeight: seg.frameHeight,
       };
     });
   });
 
   return (
     <group>
-      {allPanels.map(({ key, posX, posZ, yRotation, panel, frameHeight }) => (
+      {allPanels.map(({ key, posX, posZ, yRotation, panel }) => (
         <group
           key={key}
           position={[posX, centerY, posZ]}
           rotation={[0, yRotation, 0]}
         >
-          <RealPanelAssembly
-            panel={panel}
-            frameHeight={frameHeight}
-          />
+          <RealPanelAssembly panel={panel} system={system} />
         </group>
       ))}
     </group>
@@ -468,10 +428,12 @@ export function GlassPanels3D() {
 useGLTF.preload('/models/Glashållare_10mm.glb');
 useGLTF.preload('/models/Huvudlås.glb');
 const preloadedGlbs = new Set<string>();
-for (const type of END_CAP_TYPES) {
-  const glb = END_CAP_INFO[type].glb;
-  if (!preloadedGlbs.has(glb)) {
-    preloadedGlbs.add(glb);
-    useGLTF.preload(glb);
+for (const system of PRODUCT_SYSTEMS) {
+  for (const type of END_CAP_TYPES) {
+    const glb = system.endCaps[type].glb;
+    if (!preloadedGlbs.has(glb)) {
+      preloadedGlbs.add(glb);
+      useGLTF.preload(glb);
+    }
   }
 }
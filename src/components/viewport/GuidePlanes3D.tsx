@@ -3,6 +3,8 @@ import { Line } from '@react-three/drei';
 import * as THREE from 'three';
 import { useConfigStore } from '../../store/useConfigStore';
 import type { Point2D } from '../../types/geometry';
+import { getSegmentCount, segmentEndIndex } from '../../engine/geometry/guideChain';
+import { useGuideChains } from '../../hooks/useGuideChains';
 
 /** Convert mm point to Three.js meters at given Y height. */
 function toThree(p: Point2D, y: number): [number, number, number] {
@@ -14,40 +16,41 @@ function toThree(p: Point2D, y: number): [number, number, number] {
  * stretching from Understycke (bottom) to Överstycke (top).
  */
 export function GuidePlanes3D() {
-  const guidePoints = useConfigStore((s) => s.guidePoints);
+  const chains = useGuideChains();
   const levels = useConfigStore((s) => s.levels.levels);
 
   const understyckeY = levels.Understycke.zPosition / 1000;
   const overstyckeY = levels.Overstycke.zPosition / 1000;
 
   const planes = useMemo(() => {
-    if (guidePoints.length < 2) return [];
+    return chains.flatMap(({ id, points: guidePoints, closed }) => {
+      const segCount = getSegmentCount(guidePoints, closed);
+      return guidePoints.slice(0, segCount).map((start, i) => {
+        const end = guidePoints[segmentEndIndex(guidePoints, i)];
 
-    return guidePoints.slice(0, -1).map((start, i) => {
-      const end = guidePoints[i + 1];
+        // Four corners of the vertical quad
+        const bl = toThree(start, understyckeY); // bottom-left
+        const br = toThree(end, understyckeY);   // bottom-right
+        const tr = toThree(end, overstyckeY);    // top-right
+        const tl = toThree(start, overstyckeY);  // top-left
 
-      // Four corners of the vertical quad
-      const bl = toThree(start, understyckeY); // bottom-left
-      const br = toThree(end, understyckeY);   // bottom-right
-      const tr = toThree(end, overstyckeY);    // top-right
-      const tl = toThree(start, overstyckeY);  // top-left
+        // BufferGeometry: 2 triangles (6 vertices)
+        const positions = new Float32Array([
+          ...bl, ...br, ...tr,  // triangle 1
+          ...bl, ...tr, ...tl,  // triangle 2
+        ]);
 
-      // BufferGeometry: 2 triangles (6 vertices)
-      const positions = new Float32Array([
-        ...bl, ...br, ...tr,  // triangle 1
-        ...bl, ...tr, ...tl,  // triangle 2
-      ]);
+        const geom = new THREE.BufferGeometry();
+        geom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geom.computeVertexNormals();
 
-      const geom = new THREE.BufferGeometry();
-      geom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-      geom.computeVertexNormals();
+        // Wireframe border (4 edges)
+        const border: [number, number, number][] = [bl, br, tr, tl, bl];
 
-      // Wireframe border (4 edges)
-      const border: [number, number, number][] = [bl, br, tr, tl, bl];
-
-      return { geom, border, key: i };
+        return { geom, border, key: `${id}-${i}` };
+      });
     });
-  }, [guidePoints, understyckeY, overstyckeY]);
+  }, [chains, understyckeY, overstyckeY]);
 
   if (planes.length === 0) return null;
 
@@ -2,6 +2,9 @@ import { useMemo, useState, useRef, useEffect, useCallback } from 'react';
 import { Html, Line } from '@react-three/drei';
 import { useConfigStore } from '../../store/useConfigStore';
 import type { Point2D } from '../../types/geometry';
+import type { GuideChain } from '../../types/chain';
+import { canCloseChain, isInsideCorner } from '../../engine/geometry/guideChain';
+import { useGuideChains } from '../../hooks/useGuideChains';
 
 /** Convert mm (X/Y horizontal) to Three.js (meters, Y-up) at given height. */
 function toThree(p: Point2D, y: number): [number, number, number] {
@@ -75,15 +78,70 @@ function VertexDot({ point, color = '#ffffff', height }: { point: Point2D; color
   );
 }
 
+// ─── Locked point marker ────────────────────────────────────
+const LOCK_COLOR = '#facc15';
+
+function LockedVertexMarker({ point, height }: { point: Point2D; height: number }) {
+  const r = 60;
+  const corners = [[-r, -r], [r, -r], [r, r], [-r, r], [-r, -r]].map(
+    ([dx, dy]) => toThree({ x: point.x + dx, y: point.y + dy }, height + 0.002),
+  );
+  return <Line points={corners} color={LOCK_COLOR} lineWidth={2} depthTest={false} renderOrder={11} />;
+}
+
+// ─── Lock toggle beside a dimension ─────────────────────────
+function LockToggle({ locked, onToggle }: { locked: boolean; onToggle: () => void }) {
+  return (
+    <span
+      title={locked ? 'Lås upp måttet' : 'Lås måttet'}
+      onPointerDown={(e) => { e.stopPropagation(); onToggle(); }}
+      style={{
+        marginLeft: 4,
+        fontSize: '14px',
+        cursor: 'pointer',
+        opacity: locked ? 1 : 0.35,
+        userSelect: 'none',
+      }}
+    >
+      {locked ? '🔒' : '🔓'}
+    </span>
+  );
+}
+
+// ─── Manual panel layout tag beside a dimension ─────────────
+function ManualLayoutTag() {
+  return (
+    <span
+      title="Manuell panellayout — behålls när kedjan ändras"
+      style={{
+        marginLeft: 4,
+        padding: '0 4px',
+        fontSize: '12px',
+        fontWeight: 600,
+        color: '#111',
+        background: '#93c5fd',
+        borderRadius: 3,
+        userSelect: 'none',
+      }}
+    >
+      M
+    </span>
+  );
+}
+
 // ─── Editable dimension label ───────────────────────────────
-function DimensionLabel({ start, end, length, segmentIndex, height }: {
+function DimensionLabel({ start, end, length, segmentIndex, locked, manualLayout, height }: {
   start: Point2D;
   end: Point2D;
   length: number;
   segmentIndex: number;
+  locked: boolean;
+  /** The side's panels were edited by hand */
+  manualLayout: boolean;
   height: number;
 }) {
   const updateSegmentLength = useConfigStore((s) => s.updateSegmentLength);
+  const toggleLengthLock = useConfigStore((s) => s.toggleLengthLock);
   const [editing, setEditing] = useState(false);
   const [value, setValue] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -136,7 +194,7 @@ function DimensionLabel({ start, end, length, segmentIndex, height }: {
     <Html position={labelPos} center style={{ pointerEvents: 'none', zIndex: 100 }}>
       <div
         onPointerDown={(e) => { if (!editing) { e.stopPropagation(); startEdit(); } }}
-        style={{ cursor: editing ? 'default' : 'pointer', pointerEvents: 'auto' }}
+        style={{ cursor: editing ? 'default' : 'pointer', pointerEvents: 'auto', display: 'flex', alignItems: 'center' }}
       >
         {editing ? (
           <input
@@ -174,6 +232,8 @@ function DimensionLabel({ start, end, length, segmentIndex, height }: {
             {Math.round(length)} mm
           </div>
         )}
+        <LockToggle locked={locked} onToggle={() => toggleLengthLock(segmentIndex)} />
+        {manualLayout && <ManualLayoutTag />}
       </div>
     </Html>
   );
@@ -218,15 +278,17 @@ function PreviewDimensionLabel({ start, end, length, height }: {
 }
 
 // ─── Editable angle label ───────────────────────────────────
-function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
+function AngleLabel({ vertex, prev, next, angle, vertexIndex, locked, height }: {
   vertex: Point2D;
   prev: Point2D;
   next: Point2D;
   angle: number;
   vertexIndex: number;
+  locked: boolean;
   height: number;
 }) {
   const updateAngle = useConfigStore((s) => s.updateAngle);
+  const toggleAngleLock = useConfigStore((s) => s.toggleAngleLock);
   const [editing, setEditing] = useState(false);
   const [value, setValue] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -244,6 +306,9 @@ function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
   const cross = (-d1x) * d2y - (-d1y) * d2x;
   if (cross > 0) { bx = -bx; by = -by; }
 
+  const inside = isInsideCorner(angle);
+  const labelColor = inside ? '#fb923c' : '#c084fc';
+
   const offsetMm = 200;
   const [vx, , vz] = toThree(vertex, height);
   const labelPos: [number, number, number] = [
@@ -269,7 +334,8 @@ function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
 
   const commit = useCallback(() => {
     const num = parseFloat(value);
-    if (!isNaN(num) && num > 0 && num < 360) {
+    // Sign picks the turn: + outside corner, − inside corner
+    if (!isNaN(num) && num !== 0 && Math.abs(num) <= 180) {
       updateAngle(vertexIndex, num);
     }
     setEditing(false);
@@ -285,7 +351,7 @@ function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
     <Html position={labelPos} center style={{ pointerEvents: 'none', zIndex: 100 }}>
       <div
         onPointerDown={(e) => { if (!editing) { e.stopPropagation(); startEdit(); } }}
-        style={{ cursor: editing ? 'default' : 'pointer', pointerEvents: 'auto' }}
+        style={{ cursor: editing ? 'default' : 'pointer', pointerEvents: 'auto', display: 'flex', alignItems: 'center' }}
       >
         {editing ? (
           <input
@@ -300,9 +366,9 @@ function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
               width: 60,
               fontSize: '20px',
               fontFamily: 'monospace',
-              color: '#c084fc',
+              color: labelColor,
               background: 'rgba(0,0,0,0.85)',
-              border: '1px solid #c084fc',
+              border: `1px solid ${labelColor}`,
               borderRadius: 3,
               textAlign: 'center',
               outline: 'none',
@@ -312,7 +378,7 @@ function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
         ) : (
           <div
             style={{
-              color: '#c084fc',
+              color: labelColor,
               fontSize: '20px',
               fontFamily: 'monospace',
               whiteSpace: 'nowrap',
@@ -320,39 +386,89 @@ function AngleLabel({ vertex, prev, next, angle, vertexIndex, height }: {
               userSelect: 'none',
             }}
           >
-            {angle.toFixed(1)}°
+            {angle.toFixed(1)}°{inside ? ' inv.' : ''}
           </div>
         )}
+        <LockToggle locked={locked} onToggle={() => toggleAngleLock(vertexIndex)} />
       </div>
     </Html>
   );
 }
 
+// ─── Chain that is not being edited ─────────────────────────
+function InactiveChain({ chain, height }: { chain: GuideChain; height: number }) {
+  const points = useMemo(
+    () => (chain.closed && canCloseChain(chain.points) ? [...chain.points, chain.points[0]] : chain.points),
+    [chain.points, chain.closed],
+  );
+  if (points.length === 0) return null;
+  const [x, , z] = toThree(points[0], height);
+
+  return (
+    <group>
+      <PolyLine points={points} color="#9ca3af" lineWidth={2} height={height} />
+      {points.map((pt, i) => (
+        <VertexDot key={`pt-${i}`} point={pt} color="#9ca3af" height={height} />
+      ))}
+      <Html position={[x, height + 0.01, z]} style={{ pointerEvents: 'none' }}>
+        <div
+          style={{
+            color: '#d1d5db',
+            fontSize: '16px',
+            fontFamily: 'monospace',
+            whiteSpace: 'nowrap',
+            textShadow: '0 0 4px black, 0 0 8px black',
+            transform: 'translate(8px, -24px)',
+            userSelect: 'none',
+          }}
+        >
+          {chain.name}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
 // ─── Main component ─────────────────────────────────────────
 export function GuidelineDrawing() {
+  const chains = useGuideChains();
+  const activeChainId = useConfigStore((s) => s.activeChainId);
   const guidePoints = useConfigStore((s) => s.guidePoints);
   const previewPoint = useConfigStore((s) => s.previewPoint);
   const isDrawing = useConfigStore((s) => s.isDrawing);
   const getSegments = useConfigStore((s) => s.getSegments);
   const getAngles = useConfigStore((s) => s.getAngles);
   const getOffsetPoints = useConfigStore((s) => s.getOffsetPoints);
+  const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
+  const guideConstraints = useConfigStore((s) => s.guideConstraints);
   const mellanZ = useConfigStore((s) => s.levels.levels.Mellanstycke.zPosition);
   const guideHeight = mellanZ / 1000;
 
   const segments = getSegments();
   const angles = getAngles();
   const offsetPoints = getOffsetPoints();
+  const lockedEdges = new Set(guideConstraints.flatMap((c) => (c.kind === 'length' ? [c.edgeId] : [])));
+  const lockedVertices = new Set(guideConstraints.flatMap((c) => (c.kind === 'angle' ? [c.vertexId] : [])));
+  const pinnedVertices = new Set(guideConstraints.flatMap((c) => (c.kind === 'position' ? [c.vertexId] : [])));
 
   const lastPt = guidePoints.length > 0 ? guidePoints[guidePoints.length - 1] : null;
   const showPreview = isDrawing && lastPt && previewPoint;
+  // First point turns green while drawing: clicking it closes the loop
+  const canClose = isDrawing && canCloseChain(guidePoints);
   const previewLength = showPreview
     ? Math.sqrt((previewPoint.x - lastPt.x) ** 2 + (previewPoint.y - lastPt.y) ** 2)
     : 0;
 
-  if (guidePoints.length === 0 && !showPreview) return null;
+  const inactiveChains = chains.filter((c) => c.id !== activeChainId && c.points.length > 0);
+
+  if (guidePoints.length === 0 && !showPreview && inactiveChains.length === 0) return null;
 
   return (
     <group renderOrder={10}>
+      {inactiveChains.map((chain) => (
+        <InactiveChain key={chain.id} chain={chain} height={guideHeight} />
+      ))}
+
       {segments.map((seg, i) => (
         <group key={`seg-${i}`}>
           <SegmentLine start={seg.start} end={seg.end} color="#ef4444" height={guideHeight} />
@@ -361,6 +477,8 @@ export function GuidelineDrawing() {
             end={seg.end}
             length={seg.length}
             segmentIndex={i}
+            locked={lockedEdges.has(edgeConfigs[i]?.id ?? '')}
+            manualLayout={edgeConfigs[i]?.layoutLocked === true}
             height={guideHeight}
           />
         </group>
@@ -385,17 +503,27 @@ export function GuidelineDrawing() {
       )}
 
       {guidePoints.map((pt, i) => (
-        <VertexDot key={`pt-${i}`} point={pt} color="#ffffff" height={guideHeight} />
+        <VertexDot
+          key={`pt-${i}`}
+          point={pt}
+          color={i === 0 && canClose ? '#22c55e' : '#ffffff'}
+          height={guideHeight}
+        />
+      ))}
+
+      {guidePoints.filter((pt) => pinnedVertices.has(pt.id)).map((pt) => (
+        <LockedVertexMarker key={`lock-${pt.id}`} point={pt} height={guideHeight} />
       ))}
 
       {angles.map((a, i) => (
         <AngleLabel
           key={`angle-${i}`}
           vertex={a.vertex}
-          prev={guidePoints[a.index - 1]}
-          next={guidePoints[a.index + 1]}
+          prev={guidePoints[(a.index - 1 + guidePoints.length) % guidePoints.length]}
+          next={guidePoints[(a.index + 1) % guidePoints.length]}
           angle={a.angle}
           vertexIndex={a.index}
+          locked={lockedVertices.has(guidePoints[a.index].id)}
           height={guideHeight}
         />
       ))}
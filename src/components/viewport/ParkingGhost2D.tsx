@@ -0,0 +1,73 @@
+/**
+ * ParkingGhost2D — the opened state drawn over the plan.
+ *
+ * Every parked stack shows its panels swung in at the turning point and the
+ * stack outline; stacks that collide or block a door are red, stacks whose
+ * first panel has no lock amber. Door clearance zones are dashed.
+ */
+
+import { Line } from '@react-three/drei';
+import { useConfigStore } from '../../store/useConfigStore';
+import type { Point2D } from '../../types/geometry';
+import { useChainProjects } from '../../hooks/useChainProjects';
+import { ISSUE_COLORS } from '../../hooks/useDesignIssues';
+
+const STACK_COLOR = '#93c5fd';
+const DOOR_COLOR = '#f97316';
+
+/** Convert mm point to Three.js meters at given Y height. */
+function toThree(p: Point2D, y: number): [number, number, number] {
+  return [p.x / 1000, y, -p.y / 1000];
+}
+
+function closedOutline(points: Point2D[], y: number): [number, number, number][] {
+  return [...points, points[0]].map((p) => toThree(p, y));
+}
+
+export function ParkingGhost2D() {
+  const show = useConfigStore((s) => s.showParking2D);
+  const chainProjects = useChainProjects(show);
+  const mellanZ = useConfigStore((s) => s.levels.levels.Mellanstycke.zPosition);
+  // Just above the guide lines
+  const y = mellanZ / 1000 + 0.005;
+
+  if (!show) return null;
+
+  return (
+    <group>
+      {chainProjects.map(({ chainId, project: { parking } }) => (
+        <group key={chainId}>
+          {parking.doorZones.map((zone) => (
+            <Line
+              key={`door-${zone.segIndex}`}
+              points={closedOutline(zone.outline, y)}
+              color={DOOR_COLOR}
+              lineWidth={1.5}
+              dashed
+              dashSize={0.05}
+              gapSize={0.04}
+            />
+          ))}
+          {parking.stacks.map((stack) => {
+            const color = stack.blocked
+              ? ISSUE_COLORS.error
+              : stack.openable ? STACK_COLOR : ISSUE_COLORS.warning;
+            return (
+              <group key={`${stack.segIndex}-${stack.end}`}>
+                <Line points={closedOutline(stack.footprint, y)} color={color} lineWidth={1} transparent opacity={0.6} />
+                {stack.panels.map((panel) => (
+                  <Line
+                    key={panel.panelIndex}
+                    points={[toThree(panel.from, y), toThree(panel.to, y)]}
+                    color={color}
+                    lineWidth={2}
+                  />
+                ))}
+              </group>
+            );
+          })}
+        </group>
+      ))}
+    </group>
+  );
+}
@@ -3,6 +3,8 @@ import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useConfigStore } from '../../store/useConfigStore';
 import { loadPly, getPlyGeometry, onPlyProgress } from '../../utils/plyCache';
+import { getSegmentCount, segmentEndIndex } from '../../engine/geometry/guideChain';
+import type { GuideChain } from '../../types/chain';
 
 const MAX_GUIDE_PLANES = 20;
 
@@ -105,18 +107,21 @@ function makePointCloudMaterial(uniforms: Record<string, THREE.IUniform>) {
  * Compute segment endpoints from guide points in Three.js XZ coordinates.
  * Returns arrays of start (A) and end (B) points as Vector2.
  */
-function computeGuideSegments(guidePoints: { x: number; y: number }[]): {
+function computeGuideSegments(chains: GuideChain[]): {
   segA: THREE.Vector2[];
   segB: THREE.Vector2[];
 } {
   const segA: THREE.Vector2[] = [];
   const segB: THREE.Vector2[] = [];
-  for (let i = 0; i < guidePoints.length - 1 && i < MAX_GUIDE_PLANES; i++) {
-    const a = guidePoints[i];
-    const b = guidePoints[i + 1];
-    // Convert mm to Three.js meters: x/1000, z = -y/1000
-    segA.push(new THREE.Vector2(a.x / 1000, -a.y / 1000));
-    segB.push(new THREE.Vector2(b.x / 1000, -b.y / 1000));
+  for (const { points: guidePoints, closed } of chains) {
+    const segCount = getSegmentCount(guidePoints, closed);
+    for (let i = 0; i < segCount && segA.length < MAX_GUIDE_PLANES; i++) {
+      const a = guidePoints[i];
+      const b = guidePoints[segmentEndIndex(guidePoints, i)];
+      // Convert mm to Three.js meters: x/1000, z = -y/1000
+      segA.push(new THREE.Vector2(a.x / 1000, -a.y / 1000));
+      segB.push(new THREE.Vector2(b.x / 1000, -b.y / 1000));
+    }
   }
   return { segA, segB };
 }
@@ -165,8 +170,8 @@ export function PointCloudViewer() {
     uniforms.u_showGuidePlanes.value = show ? 1.0 : 0.0;
     uniforms.u_guidePlaneIsolate.value = state.guidePlaneIsolate ? 1.0 : 0.0;
 
-    if (show && state.guidePoints.length >= 2) {
-      const { segA, segB } = computeGuideSegments(state.guidePoints);
+    const { segA, segB } = show ? computeGuideSegments(state.getChains()) : { segA: [], segB: [] };
+    if (segA.length > 0) {
       uniforms.u_guideSegCount.value = segA.length;
       for (let i = 0; i < MAX_GUIDE_PLANES; i++) {
         if (i < segA.length) {
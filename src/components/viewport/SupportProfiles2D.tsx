@@ -0,0 +1,48 @@
+/**
+ * SupportProfiles2D — bärlina and bottenprofil drawn over the plan.
+ *
+ * Each piece is its mitered plan outline, the same one SupportProfiles3D
+ * extrudes: bärlina solid, bottenprofil dashed.
+ */
+
+import { Line } from '@react-three/drei';
+import { useConfigStore } from '../../store/useConfigStore';
+import type { Point2D } from '../../types/geometry';
+import { useChainProjects } from '../../hooks/useChainProjects';
+
+const BARLINA_COLOR = '#94a3b8';
+const BOTTENPROFIL_COLOR = '#a3a3a3';
+
+/** Convert mm point to Three.js meters at given Y height. */
+function toThree(p: Point2D, y: number): [number, number, number] {
+  return [p.x / 1000, y, -p.y / 1000];
+}
+
+function closedOutline(points: Point2D[], y: number): [number, number, number][] {
+  return [...points, points[0]].map((p) => toThree(p, y));
+}
+
+export function SupportProfiles2D() {
+  const chainProjects = useChainProjects();
+  const mellanZ = useConfigStore((s) => s.levels.levels.Mellanstycke.zPosition);
+  // Under the guide lines, so the guide stays on top
+  const y = mellanZ / 1000 - 0.002;
+
+  return (
+    <group>
+      {chainProjects.map(({ chainId, project }) =>
+        project.sides.flatMap((side) => side.supportProfiles).map((piece) => (
+          <Line
+            key={`${chainId}-${piece.kind}-${piece.sideNumber}`}
+            points={closedOutline(piece.outline, y)}
+            color={piece.kind === 'barlina' ? BARLINA_COLOR : BOTTENPROFIL_COLOR}
+            lineWidth={1}
+            dashed={piece.kind === 'bottenprofil'}
+            dashSize={0.03}
+            gapSize={0.015}
+          />
+        )),
+      )}
+    </group>
+  );
+}
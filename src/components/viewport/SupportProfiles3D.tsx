@@ -0,0 +1,66 @@
+/**
+ * SupportProfiles3D — bärlina and bottenprofil under the glazing.
+ *
+ * Each piece is its mitered plan outline extruded to the profile height,
+ * so the corner joints show the same miters as the cut list.
+ */
+
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useChainProjects } from '../../hooks/useChainProjects';
+import type { SupportProfilePiece } from '../../engine/calculations/supportProfiles';
+
+// ─── Materials ──────────────────────────────────────────────────
+const barlinaMat = new THREE.MeshStandardMaterial({
+  color: '#7b8794',
+  metalness: 0.6,
+  roughness: 0.4,
+});
+
+const bottenprofilMat = new THREE.MeshStandardMaterial({
+  color: '#c0c0c0',
+  metalness: 0.5,
+  roughness: 0.3,
+});
+
+/** Outline in plan (mm) → extruded along +Y in Three.js meters */
+function buildGeometry(piece: SupportProfilePiece): THREE.ExtrudeGeometry {
+  const shape = new THREE.Shape(piece.outline.map((p) => new THREE.Vector2(p.x / 1000, p.y / 1000)));
+  const geom = new THREE.ExtrudeGeometry(shape, {
+    depth: piece.section.height / 1000,
+    bevelEnabled: false,
+  });
+  // Shape XY plane → ground plane: (x, y, z) → (x, z, -y)
+  geom.rotateX(-Math.PI / 2);
+  return geom;
+}
+
+// ─── Main component ─────────────────────────────────────────────
+export function SupportProfiles3D() {
+  const chainProjects = useChainProjects();
+
+  const pieces = useMemo(
+    () =>
+      chainProjects.flatMap(({ chainId, project }) =>
+        project.sides
+          .flatMap((side) => side.supportProfiles)
+          .map((piece) => ({ chainId, piece, geom: buildGeometry(piece) })),
+      ),
+    [chainProjects],
+  );
+
+  if (pieces.length === 0) return null;
+
+  return (
+    <group>
+      {pieces.map(({ chainId, piece, geom }) => (
+        <mesh
+          key={`${chainId}-${piece.kind}-${piece.sideNumber}`}
+          geometry={geom}
+          material={piece.kind === 'barlina' ? barlinaMat : bottenprofilMat}
+          position={[0, piece.bottom / 1000, 0]}
+        />
+      ))}
+    </group>
+  );
+}
@@ -7,6 +7,9 @@ import { GuidelineDrawing } from './GuidelineDrawing';
 import { PointCloudViewer } from './PointCloudViewer';
 import { GuidePlanes3D } from './GuidePlanes3D';
 import { GlassPanels3D } from './GlassPanels3D';
+import { BrostningFrames3D } from './BrostningFrames3D';
+import { SupportProfiles3D } from './SupportProfiles3D';
+import { DesignIssues3D } from './DesignIssues3D';
 import { useConfigStore } from '../../store/useConfigStore';
 
 export function ViewportCanvas() {
@@ -36,6 +39,9 @@ export function ViewportCanvas() {
         <PointCloudViewer />
         {showGuidePlanes && <GuidePlanes3D />}
         <GlassPanels3D />
+        <BrostningFrames3D />
+        <SupportProfiles3D />
+        <DesignIssues3D />
         <OrbitControls
           makeDefault
           enableDamping
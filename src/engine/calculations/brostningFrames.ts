@@ -0,0 +1,144 @@
+/**
+ * Balustrade (bröstning) frame builder — port of 090_FrameBuilder.rb.
+ *
+ * Fills the zone Understycke → Mellanstycke under each glazing side with one
+ * frame per division from frameDivision. The frames stand on a line offset
+ * the system's brostning offset from the guide (inward, same side as the
+ * guide offset), so their corner ends move by the miter offset of that
+ * distance. At corners the variableCompensation table adds a small angle-dependent gap so
+ * neighbouring frames do not collide; splits give way for the split post.
+ */
+
+import type { Point2D } from '../../types/geometry';
+import type { LevelsConfig } from '../../types/levels';
+import type { BrostningsramType, ProfileConfig } from '../../types/profile';
+import type { ProductSystem } from '../../types/productSystem';
+import { interpolateFromTable } from '../../utils/math';
+import { offsetDueToMiter } from './edgeCalculations';
+import type { SideFrameDivision } from './frameDivision';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type BrostningFill = 'panel' | 'glass';
+
+export interface BrostningFillSpec {
+  fill: BrostningFill;
+  /** Glass frame that opens (hinged sash) */
+  openable: boolean;
+  fireRated: boolean;
+}
+
+export interface BrostningFrame {
+  sideNumber: number;
+  /** 0-based frame position on the side */
+  index: number;
+  /** Outer frame ends on the balustrade line (mm, plan coords) */
+  start: Point2D;
+  end: Point2D;
+  /** Understycke / Mellanstycke height (mm) */
+  bottom: number;
+  top: number;
+  /** Outer width and height (mm) */
+  length: number;
+  height: number;
+  ramType: BrostningsramType;
+  fill: BrostningFill;
+  openable: boolean;
+  fireRated: boolean;
+  /** Frame profile pieces, two of each, mitered 45° at every corner (mm) */
+  cutLengths: {
+    horizontal: number;
+    vertical: number;
+  };
+}
+
+// ─── Fill rules ──────────────────────────────────────────────
+
+export const BROSTNING_FILL_SPECS: Record<BrostningsramType, BrostningFillSpec> = {
+  'Vit Panel': { fill: 'panel', openable: false, fireRated: false },
+  'Vit & Gra Panel': { fill: 'panel', openable: false, fireRated: false },
+  'Fast Glas': { fill: 'glass', openable: false, fireRated: false },
+  'Oppningsbart Glas': { fill: 'glass', openable: true, fireRated: false },
+  'Brand': { fill: 'panel', openable: false, fireRated: true },
+};
+
+// ─── Dimensions ──────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** Corner gap from the variableCompensation table; the same at inside and outside corners */
+export function variableCompensation(angle: number, system: ProductSystem): number {
+  if (angle === 0) return 0;
+  const { angles, values } = system.variableCompensation;
+  return interpolateFromTable(180 - Math.abs(angle), angles, values);
+}
+
+/** How much a frame grows (+) or shrinks (−) at a side end (mm) */
+function cornerExtension(angle: number, system: ProductSystem): number {
+  if (angle === 0) return 0;
+  return offsetDueToMiter(system.frameOffsets.brostning, angle) - variableCompensation(angle, system);
+}
+
+/**
+ * Build the balustrade frames for one side.
+ * Returns [] when the balustrade is off or the zone has no height.
+ */
+export function buildBrostningFrames(
+  start: Point2D,
+  end: Point2D,
+  sideNumber: number,
+  startAngle: number,
+  endAngle: number,
+  division: SideFrameDivision,
+  levels: LevelsConfig,
+  profileConfig: ProfileConfig,
+  system: ProductSystem,
+): BrostningFrame[] {
+  if (!profileConfig.brostningEnabled) return [];
+
+  const bottom = levels.levels.Understycke.zPosition;
+  const top = levels.levels.Mellanstycke.zPosition;
+  const height = top - bottom;
+  if (height <= 0) return [];
+
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const segLen = Math.sqrt(dx * dx + dy * dy);
+  if (segLen < 1e-10) return [];
+
+  const ux = dx / segLen;
+  const uy = dy / segLen;
+  // Same perpendicular as the guide offset chain: (-dy, dx) × distance
+  const ox = -uy * system.frameOffsets.brostning;
+  const oy = ux * system.frameOffsets.brostning;
+  const pointAt = (along: number): Point2D => ({
+    x: start.x + ux * along + ox,
+    y: start.y + uy * along + oy,
+  });
+
+  const spec = BROSTNING_FILL_SPECS[profileConfig.brostningsramType];
+  const last = division.frames.length - 1;
+
+  return division.frames.map((frame) => {
+    const split = system.frameOffsets.underljusSplit;
+    const extLeft = frame.index === 0 ? cornerExtension(startAngle, system) : split;
+    const extRight = frame.index === last ? cornerExtension(endAngle, system) : split;
+    const from = frame.start - extLeft;
+    const to = frame.end + extRight;
+    const length = round1(to - from);
+
+    return {
+      sideNumber,
+      index: frame.index,
+      start: pointAt(from),
+      end: pointAt(to),
+      bottom,
+      top,
+      length,
+      height: round1(height),
+      ramType: profileConfig.brostningsramType,
+      ...spec,
+      cutLengths: { horizontal: length, vertical: round1(height) },
+    };
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Corner lock rules — which lock and end cap a side end gets.
+ *
+ * 070_set_glas_attribute.rb only recognised 90° corners and sent every
+ * other angle to the variable end lock. The table adds 135° corners, which
+ * take the 45° caps (PL-160…PL-190). Angles are matched on magnitude, so
+ * inside and outside corners get the same lock. The catalog has no
+ * dedicated 90° cap, so 90° locks are drawn with the variable cap.
+ */
+
+import type { EndCapType, LockType } from '../../types/panel';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export interface CornerLockRule {
+  /** Vertex angle the rule matches (degrees, unsigned) */
+  angle: number;
+  /** Lock at the start of a side (left end of the first panel) */
+  female: LockType;
+  /** Lock at the end of a side (right end of the last panel) */
+  male: LockType;
+}
+
+export interface EndCapPair {
+  left: EndCapType;
+  right: EndCapType;
+}
+
+// ─── Tables ──────────────────────────────────────────────────
+
+/** Half-width of the window around each rule angle (degrees) */
+export const CORNER_ANGLE_TOLERANCE = 4;
+
+export const CORNER_LOCK_RULES: CornerLockRule[] = [
+  { angle: 90, female: '90 graderslock hona', male: '90 graderslock hane' },
+  { angle: 135, female: '45 graderslock hona', male: '45 graderslock hane' },
+];
+
+const WALL_END_LOCK = { female: 'Slutlock hona', male: 'Slutlock hane' } as const;
+const FALLBACK_LOCK: LockType = 'Variabelt andlock';
+
+const MOTESLOCK_CAPS: EndCapPair = { left: 'PL-200', right: 'PL-210' };
+
+export const LOCK_END_CAPS: Partial<Record<NonNullable<LockType>, EndCapPair>> = {
+  'Slutlock hona': { left: 'PL-230', right: 'PL-240' },
+  'Slutlock hane': { left: 'PL-230', right: 'PL-240' },
+  '45 graderslock hona': { left: 'PL-160', right: 'PL-170' },
+  '45 graderslock hane': { left: 'PL-180', right: 'PL-190' },
+  '90 graderslock hona': { left: 'PL-220', right: 'PL-220' },
+  '90 graderslock hane': { left: 'PL-220', right: 'PL-220' },
+  'Variabelt andlock': { left: 'PL-220', right: 'PL-220' },
+  'Moteslock hona': MOTESLOCK_CAPS,
+  'Moteslock hane': MOTESLOCK_CAPS,
+};
+
+// ─── Lookups ─────────────────────────────────────────────────
+
+/** Rule for a vertex angle, or undefined when no rule matches */
+export function cornerLockRule(angle: number): CornerLockRule | undefined {
+  const a = Math.abs(angle);
+  return CORNER_LOCK_RULES.find((rule) => Math.abs(a - rule.angle) < CORNER_ANGLE_TOLERANCE);
+}
+
+/**
+ * Lock at one end of a side. angle 0 is a wall or free end.
+ * The start of a side takes the female lock, the end the male lock.
+ */
+export function cornerLock(angle: number, end: 'start' | 'end'): LockType {
+  if (angle === 0) return end === 'start' ? WALL_END_LOCK.female : WALL_END_LOCK.male;
+  const rule = cornerLockRule(angle);
+  if (!rule) return FALLBACK_LOCK;
+  return end === 'start' ? rule.female : rule.male;
+}
+
+/** End cap model for a lock on the given side of a panel; möteslock caps otherwise */
+export function endCapForLock(lock: LockType, side: 'left' | 'right'): EndCapType {
+  const caps = (lock && LOCK_END_CAPS[lock]) || MOTESLOCK_CAPS;
+  return caps[side];
+}
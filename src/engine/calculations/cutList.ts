@@ -0,0 +1,179 @@
+/**
+ * Project cut list — every glazing side's profile cut lengths in one table.
+ *
+ * Sides split into several frames contribute one piece per frame, cut
+ * square at the splits; balustrade frames add their four mitered pieces
+ * and the bärlina / bottenprofil one piece per side.
+ * Pieces with the same profile, length and end angles are combined into one
+ * row so the saw operator cuts them in one go. Rows keep the side labels
+ * they came from for labelling the pieces. With several guide chains the
+ * label carries the chain name, since side numbers restart in every chain.
+ */
+
+import type { ChainProject, ProjectSide } from './projectCalculations';
+import { miterCutAngle, type CutLengths } from './edgeCalculations';
+import type { SupportProfileKind } from './supportProfiles';
+
+export type ProfileType = keyof CutLengths | 'brostningsram' | SupportProfileKind;
+
+export const PROFILE_TYPES: ProfileType[] = [
+  'underskena',
+  'overskena',
+  'overhallare',
+  'coverprofile',
+  'brostningsram',
+  'barlina',
+  'bottenprofil',
+];
+
+export const PROFILE_LABELS: Record<ProfileType, string> = {
+  underskena: 'Underskena',
+  overskena: 'Överskena',
+  overhallare: 'Överhållare',
+  coverprofile: 'Täcklist',
+  brostningsram: 'Bröstningsram',
+  barlina: 'Bärlina',
+  bottenprofil: 'Bottenprofil',
+};
+
+/** Balustrade frames are mitered at all four corners */
+const BROSTNING_CUT_ANGLE = 45;
+
+const GLAZING_PROFILE_TYPES: (keyof CutLengths)[] = ['underskena', 'overskena', 'overhallare', 'coverprofile'];
+
+export interface CutListRow {
+  profileType: ProfileType;
+  /** mm */
+  length: number;
+  /** Saw angle from square at the left/right end (degrees) */
+  cutAngleLeft: number;
+  cutAngleRight: number;
+  quantity: number;
+  /** Side label of every piece, in project order — "3", or "Nisch:3" with several chains */
+  sideLabels: string[];
+}
+
+export function sideLabel(chain: ChainProject, sideNumber: number, chainCount: number): string {
+  return chainCount > 1 ? `${chain.name}:${sideNumber}` : String(sideNumber);
+}
+
+export function buildCutList(chains: ChainProject[]): CutListRow[] {
+  const rows = new Map<string, CutListRow>();
+
+  const addPiece = (
+    profileType: ProfileType,
+    length: number,
+    cutAngleLeft: number,
+    cutAngleRight: number,
+    label: string,
+  ) => {
+    if (length <= 0) return;
+    const key = `${profileType}|${length}|${cutAngleLeft}|${cutAngleRight}`;
+    const row = rows.get(key);
+    if (row) {
+      row.quantity++;
+      row.sideLabels.push(label);
+    } else {
+      rows.set(key, {
+        profileType,
+        length,
+        cutAngleLeft,
+        cutAngleRight,
+        quantity: 1,
+        sideLabels: [label],
+      });
+    }
+  };
+
+  for (const chain of chains) {
+    for (const side of chain.project.sides) {
+      addSidePieces(side, sideLabel(chain, side.sideNumber, chains.length), addPiece);
+    }
+  }
+
+  // Grouped by profile, longest first — the order the saw works through
+  return [...rows.values()].sort(
+    (a, b) =>
+      PROFILE_TYPES.indexOf(a.profileType) - PROFILE_TYPES.indexOf(b.profileType) ||
+      b.length - a.length,
+  );
+}
+
+type AddPiece = (
+  profileType: ProfileType,
+  length: number,
+  cutAngleLeft: number,
+  cutAngleRight: number,
+  label: string,
+) => void;
+
+function addSidePieces(side: ProjectSide, label: string, addPiece: AddPiece) {
+  if (side.wallOrGlazingStatus === 'wall') return;
+  const startCut = miterCutAngle(side.startAngle);
+  const endCut = miterCutAngle(side.endAngle);
+  const frames = side.frameDivision?.frames ?? [];
+
+  for (const profileType of GLAZING_PROFILE_TYPES) {
+    if (frames.length === 0) {
+      addPiece(profileType, side.cutLengths[profileType], startCut, endCut, label);
+      continue;
+    }
+    for (const frame of frames) {
+      addPiece(
+        profileType,
+        frame.cutLengths[profileType],
+        frame.index === 0 ? startCut : 0,
+        frame.index === frames.length - 1 ? endCut : 0,
+        label,
+      );
+    }
+  }
+
+  for (const frame of side.brostningFrames) {
+    for (const length of [frame.cutLengths.horizontal, frame.cutLengths.vertical]) {
+      addPiece('brostningsram', length, BROSTNING_CUT_ANGLE, BROSTNING_CUT_ANGLE, label);
+      addPiece('brostningsram', length, BROSTNING_CUT_ANGLE, BROSTNING_CUT_ANGLE, label);
+    }
+  }
+
+  for (const piece of side.supportProfiles) {
+    addPiece(piece.kind, piece.length, piece.cutAngleLeft, piece.cutAngleRight, label);
+  }
+}
+
+/** Distinct side labels of a row, e.g. "1, 3" */
+export function formatSideLabels(row: CutListRow): string {
+  return [...new Set(row.sideLabels)].join(', ');
+}
+
+// ─── CSV export ──────────────────────────────────────────────
+
+/** Swedish spreadsheet conventions: semicolon separator, decimal comma */
+const CSV_SEPARATOR = ';';
+
+function csvNumber(v: number): string {
+  return String(v).replace('.', ',');
+}
+
+function csvField(v: string): string {
+  return /[;"\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+export function cutListToCsv(rows: CutListRow[]): string {
+  const lines = [
+    ['Sida', 'Profil', 'Längd (mm)', 'Vinkel V (°)', 'Vinkel H (°)', 'Antal'].join(CSV_SEPARATOR),
+  ];
+  for (const row of rows) {
+    lines.push(
+      [
+        csvField(formatSideLabels(row)),
+        csvField(PROFILE_LABELS[row.profileType]),
+        csvNumber(row.length),
+        csvNumber(row.cutAngleLeft),
+        csvNumber(row.cutAngleRight),
+        String(row.quantity),
+      ].join(CSV_SEPARATOR),
+    );
+  }
+  return lines.join('\r\n') + '\r\n';
+}
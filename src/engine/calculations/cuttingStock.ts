@@ -0,0 +1,142 @@
+/**
+ * Cutting-stock optimizer — nests the cut list into standard profile bars.
+ *
+ * Best-fit decreasing per profile type: pieces are taken longest first and
+ * placed in the open bar that leaves the smallest remainder, opening a new
+ * bar when none fits. Every cut costs one saw kerf unless the piece uses up
+ * the rest of the bar. Offcuts at least minUsableOffcut long go back to the
+ * rack and are not counted as waste.
+ */
+
+import type { CuttingStockSettings } from '../../types/cutting';
+import { PROFILE_TYPES, type CutListRow, type ProfileType } from './cutList';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export interface CutPiece {
+  /** mm */
+  length: number;
+  cutAngleLeft: number;
+  cutAngleRight: number;
+  /** Side the piece is labelled with, as in the cut list */
+  sideLabel: string;
+}
+
+export interface StockBar {
+  cuts: CutPiece[];
+  /** Pieces plus kerf (mm) */
+  usedLength: number;
+  /** What is left of the bar after the last cut (mm) */
+  offcut: number;
+  /** Offcut is long enough to keep */
+  reusableOffcut: boolean;
+}
+
+export interface ProfileCuttingPlan {
+  profileType: ProfileType;
+  stockLength: number;
+  bars: StockBar[];
+  /** Pieces longer than the stock bar — cannot be planned */
+  oversized: CutPiece[];
+  /** Kerf + scrap offcuts (mm) */
+  waste: number;
+  /** waste / total stock length, 0–100 */
+  wastePercent: number;
+}
+
+export interface CuttingPlan {
+  profiles: ProfileCuttingPlan[];
+  barCount: number;
+  wastePercent: number;
+}
+
+// ─── Planning ────────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** One piece per quantity, with the side it belongs to */
+function expandRows(rows: CutListRow[]): CutPiece[] {
+  return rows.flatMap((row) =>
+    row.sideLabels.map((sideLabel) => ({
+      length: row.length,
+      cutAngleLeft: row.cutAngleLeft,
+      cutAngleRight: row.cutAngleRight,
+      sideLabel,
+    })),
+  );
+}
+
+function planProfile(
+  profileType: ProfileType,
+  pieces: CutPiece[],
+  settings: CuttingStockSettings,
+): ProfileCuttingPlan {
+  const stockLength = settings.stockLengths[profileType];
+  const { kerf, minUsableOffcut } = settings;
+
+  const bars: StockBar[] = [];
+  const oversized: CutPiece[] = [];
+  const sorted = [...pieces].sort((a, b) => b.length - a.length);
+
+  for (const piece of sorted) {
+    if (piece.length > stockLength) {
+      oversized.push(piece);
+      continue;
+    }
+
+    let best: StockBar | null = null;
+    for (const bar of bars) {
+      const remainder = stockLength - bar.usedLength - piece.length;
+      if (remainder < 0) continue;
+      if (!best || remainder < stockLength - best.usedLength - piece.length) best = bar;
+    }
+    if (!best) {
+      best = { cuts: [], usedLength: 0, offcut: stockLength, reusableOffcut: true };
+      bars.push(best);
+    }
+
+    best.cuts.push(piece);
+    const remainder = stockLength - best.usedLength - piece.length;
+    best.usedLength = round1(best.usedLength + piece.length + Math.min(kerf, remainder));
+  }
+
+  let waste = 0;
+  for (const bar of bars) {
+    bar.offcut = round1(stockLength - bar.usedLength);
+    bar.reusableOffcut = bar.offcut >= minUsableOffcut;
+    const kerfLoss = bar.usedLength - bar.cuts.reduce((sum, c) => sum + c.length, 0);
+    waste += kerfLoss + (bar.reusableOffcut ? 0 : bar.offcut);
+  }
+
+  const totalStock = bars.length * stockLength;
+  return {
+    profileType,
+    stockLength,
+    bars,
+    oversized,
+    waste: round1(waste),
+    wastePercent: totalStock > 0 ? round1((waste / totalStock) * 100) : 0,
+  };
+}
+
+export function planCuttingStock(
+  rows: CutListRow[],
+  settings: CuttingStockSettings,
+): CuttingPlan {
+  const profiles = PROFILE_TYPES.map((profileType) =>
+    planProfile(
+      profileType,
+      expandRows(rows.filter((r) => r.profileType === profileType)),
+      settings,
+    ),
+  ).filter((p) => p.bars.length > 0 || p.oversized.length > 0);
+
+  const totalStock = profiles.reduce((sum, p) => sum + p.bars.length * p.stockLength, 0);
+  const totalWaste = profiles.reduce((sum, p) => sum + p.waste, 0);
+
+  return {
+    profiles,
+    barCount: profiles.reduce((sum, p) => sum + p.bars.length, 0),
+    wastePercent: totalStock > 0 ? round1((totalWaste / totalStock) * 100) : 0,
+  };
+}
@@ -8,35 +8,19 @@
  */
 
 import type { Point2D } from '../../types/geometry';
-import type { Panel, OpeningDirection, LockSymbol, LockType } from '../../types/panel';
+import type {
+  Panel,
+  PanelFitting,
+  PcComponents,
+  OpeningDirection,
+  LockSymbol,
+  LockType,
+} from '../../types/panel';
 import type { EdgeConfig } from '../../types/edge';
-import {
-  INTERPOLATION_ANGLES,
-  WALL_OFFSETS,
-  GLAZING_OFFSETS,
-  MITER_DISTANCE_OVERSKENA,
-  MITER_DISTANCE_OVERHALLARE,
-  MITER_DISTANCE_COVERPROFILE,
-  COVER_PROFILE_WALL_OFFSET,
-  MAX_PANEL_WIDTH,
-  STANDARD_PANEL_SIZES,
-  FREE_WIDTH_THRESHOLD,
-  COMBO_TOLERANCE,
-  PANEL_STEP,
-  MIN_PANEL_WIDTH,
-  MIDDLE_PANEL_OFFSET,
-  PASSRUTA_PANEL_OFFSET,
-  DEFAULT_OFFSET_ANGLE_ZERO,
-  DEFAULT_OFFSET_WALL_90,
-  POSITIVE_ANGLE_FACTOR,
-  NEGATIVE_ANGLE_FACTOR,
-  OFFSET_ADDEND,
-  LOCK_WIDTHS,
-  GLASS_HEIGHT_OFFSET,
-  GLASS_MODULE_HEIGHT_OFFSET,
-} from '../../utils/constants';
+import type { ProductSystem } from '../../types/productSystem';
 import { interpolateFromTable } from '../../utils/math';
-import { angleBetweenSegments } from '../geometry/offsetChain';
+import { getSegmentCount, segmentEndIndex, vertexAngle } from '../geometry/guideChain';
+import { cornerLock } from './cornerLocks';
 
 // ─── Types ───────────────────────────────────────────────────
 
@@ -54,18 +38,6 @@ export interface CutLengths {
   coverprofile: number;
 }
 
-export interface PanelFittingResult {
-  topLeft: LockType;
-  topRight: LockType;
-  bottomLeft: LockType;
-  bottomRight: LockType;
-  topLock: LockType;
-  bottomLock: LockType;
-  glassWidth: number;
-  offsetLeft: number;
-  offsetRight: number;
-}
-
 export interface ComputedEdgeData {
   sideNumber: number;
   edgeLength: number;
@@ -78,34 +50,42 @@ export interface ComputedEdgeData {
   totalModuleLength: number;
   spelGuide: number;
   cutLengths: CutLengths;
-  panelFittings: PanelFittingResult[];
+  panelFittings: PanelFitting[];
+  /** All PC components on the side, collected from the panel fittings */
+  pcComponents: PcComponents;
 }
 
 // ─── Offset calculation ──────────────────────────────────────
 // Port of calculateOffset() from 030_Config_glazing.rb lines 287-333
+// angle is the signed corner angle: positive at outside corners,
+// negative at inside corners, whichever way the chain runs (vertexAngle).
 
 export function calculateOffset(
   angle: number,
   isConnectedToWall: boolean,
+  system: ProductSystem,
 ): OffsetResult {
   // angle = 0: straight edge or connected to wall
   if (angle === 0) {
-    return { offset: DEFAULT_OFFSET_ANGLE_ZERO, profileOffset: 0 };
+    return { offset: system.cornerOffsets.angleZero, profileOffset: 0 };
   }
 
+  const { min, square, max } = system.wallCornerAngles;
+
   // ~90° wall connection
-  if (isConnectedToWall && Math.abs(angle) >= 88 && Math.abs(angle) <= 99) {
-    return { offset: DEFAULT_OFFSET_WALL_90, profileOffset: -45 };
+  if (isConnectedToWall && Math.abs(angle) >= min && Math.abs(angle) <= square) {
+    return { offset: system.cornerOffsets.wall90, profileOffset: system.cornerOffsets.wall90Profile };
   }
 
   // Wide angles with wall — use interpolation table
-  if (isConnectedToWall && Math.abs(angle) > 99 && Math.abs(angle) <= 157) {
+  if (isConnectedToWall && Math.abs(angle) > square && Math.abs(angle) <= max) {
     const absAngle = Math.abs(angle);
     // Interpolation: angles table goes from 145→90, input is actual angle
-    const wallOffset = interpolateFromTable(absAngle, INTERPOLATION_ANGLES, WALL_OFFSETS);
-    const glazingOffset = interpolateFromTable(absAngle, INTERPOLATION_ANGLES, GLAZING_OFFSETS);
-    const offset = 50.5 + 10 - glazingOffset - 4;
-    const profileOff = -10 + glazingOffset - 4;
+    const { angles, wallOffsets, glazingOffsets } = system.offsetTables;
+    const wallOffset = interpolateFromTable(absAngle, angles, wallOffsets);
+    const glazingOffset = interpolateFromTable(absAngle, angles, glazingOffsets);
+    const offset = system.cornerOffsets.wallTable - glazingOffset;
+    const profileOff = glazingOffset + system.cornerOffsets.wallTableProfile;
     return { offset, profileOffset: profileOff };
   }
 
@@ -113,19 +93,22 @@ export function calculateOffset(
   if (angle > 0) {
     const halfAngle = (180 - angle) / 2;
     const rad = (Math.PI / 180) * halfAngle;
-    const offset = Math.tan(rad) * POSITIVE_ANGLE_FACTOR + OFFSET_ADDEND;
+    const offset = Math.tan(rad) * system.cornerOffsets.positiveAngleFactor + system.cornerOffsets.addend;
     return { offset, profileOffset: 0 };
   }
 
-  // Negative angle
+  // Negative angle (inside corner) — tan of the half angle turns negative,
+  // so the panels stop short of the vertex instead of running past it
   const halfAngle = (180 - angle) / 2;
   const rad = (Math.PI / 180) * halfAngle;
-  const offset = Math.tan(rad) * NEGATIVE_ANGLE_FACTOR + OFFSET_ADDEND;
+  const offset = Math.tan(rad) * system.cornerOffsets.negativeAngleFactor + system.cornerOffsets.addend;
   return { offset, profileOffset: 0 };
 }
 
 // ─── Miter offset ────────────────────────────────────────────
 // Port of offset_due_to_miter() from 060_screw_and_guide.rb lines 74-90
+// A negative (inside corner) angle gives the same offset with the opposite
+// sign: the face that grows at an outside corner shrinks at an inside one.
 
 export function offsetDueToMiter(distance: number, angleDegrees: number): number {
   if (angleDegrees === 0) return 0;
@@ -134,43 +117,57 @@ export function offsetDueToMiter(distance: number, angleDegrees: number): number
   return distance * Math.tan(rad);
 }
 
+/**
+ * Saw angle for a profile end, measured from a square cut.
+ * Each side takes half the turn at the vertex; free ends are cut square.
+ */
+export function miterCutAngle(angleDegrees: number): number {
+  if (angleDegrees === 0) return 0;
+  return Math.round(((180 - Math.abs(angleDegrees)) / 2) * 10) / 10;
+}
+
 // ─── Cut length calculations ─────────────────────────────────
 // Port from 030_Config_glazing.rb lines 795-808
 
+/**
+ * Length each profile gains at one end on top of the underskena length:
+ * the miter offset at a corner, plus the cover profile's wall allowance at
+ * free ends.
+ */
+export function cutLengthEndAllowances(angle: number, system: ProductSystem): CutLengths {
+  const miter = system.miterDistances;
+  return {
+    underskena: 0,
+    overskena: offsetDueToMiter(miter.overskena, angle),
+    overhallare: offsetDueToMiter(miter.overhallare, angle),
+    coverprofile:
+      offsetDueToMiter(miter.coverprofile, angle) +
+      (angle === 0 ? system.coverProfileWallOffset : 0),
+  };
+}
+
 export function calculateCutLengths(
   totalLength: number,
   profileOffsetLeft: number,
   profileOffsetRight: number,
   startAngle: number,
   endAngle: number,
+  system: ProductSystem,
 ): CutLengths {
   const underskena = totalLength + profileOffsetLeft + profileOffsetRight;
+  const left = cutLengthEndAllowances(startAngle, system);
+  const right = cutLengthEndAllowances(endAngle, system);
 
-  const overskena =
-    underskena +
-    offsetDueToMiter(MITER_DISTANCE_OVERSKENA, startAngle) +
-    offsetDueToMiter(MITER_DISTANCE_OVERSKENA, endAngle);
-
-  const overhallare =
-    underskena +
-    offsetDueToMiter(MITER_DISTANCE_OVERHALLARE, startAngle) +
-    offsetDueToMiter(MITER_DISTANCE_OVERHALLARE, endAngle);
-
-  let coverProfileOffset = 0;
-  if (startAngle === 0) coverProfileOffset += COVER_PROFILE_WALL_OFFSET;
-  if (endAngle === 0) coverProfileOffset += COVER_PROFILE_WALL_OFFSET;
-
-  const coverprofile =
-    underskena +
-    offsetDueToMiter(MITER_DISTANCE_COVERPROFILE, startAngle) +
-    offsetDueToMiter(MITER_DISTANCE_COVERPROFILE, endAngle) +
-    coverProfileOffset;
-
-  return { underskena, overskena, overhallare, coverprofile };
+  return {
+    underskena,
+    overskena: underskena + left.overskena + right.overskena,
+    overhallare: underskena + left.overhallare + right.overhallare,
+    coverprofile: underskena + left.coverprofile + right.coverprofile,
+  };
 }
 
 // ─── Even distribution (free widths, no 30mm snapping) ───────
-// Splits available length into equal panels (max MAX_PANEL_WIDTH each).
+// Splits available length into equal panels (max panelSizes.max each).
 
 export function evenDistributePanelsForEdge(
   edgeLength: number,
@@ -178,9 +175,10 @@ export function evenDistributePanelsForEdge(
   endAngle: number,
   startConnectedToWall: boolean,
   endConnectedToWall: boolean,
+  system: ProductSystem,
 ): Panel[] {
-  const leftResult = calculateOffset(startAngle, startConnectedToWall);
-  const rightResult = calculateOffset(endAngle, endConnectedToWall);
+  const leftResult = calculateOffset(startAngle, startConnectedToWall, system);
+  const rightResult = calculateOffset(endAngle, endConnectedToWall, system);
   const leftOffset = leftResult.offset;
   const rightOffset = rightResult.offset;
 
@@ -191,8 +189,9 @@ export function evenDistributePanelsForEdge(
   }
 
   // Split into equal panels, max 700mm each. No minimum width rule.
-  const numPanels = Math.max(1, Math.ceil(availableLength / MAX_PANEL_WIDTH));
-  const betweenPanelOffsets = (numPanels - 1) * MIDDLE_PANEL_OFFSET * 2;
+  const numPanels = Math.max(1, Math.ceil(availableLength / system.panelSizes.max));
+  const middle = system.panelOffsets.middle;
+  const betweenPanelOffsets = (numPanels - 1) * middle * 2;
   const availableForGlass = availableLength - betweenPanelOffsets;
   const panelWidth = Math.round((availableForGlass / numPanels) * 10) / 10;
 
@@ -203,8 +202,8 @@ export function evenDistributePanelsForEdge(
       length: panelWidth,
       opening: '>' as OpeningDirection,
       lock: '-' as LockSymbol,
-      offsetLeft: i === 0 ? Math.round(leftOffset * 10) / 10 : MIDDLE_PANEL_OFFSET,
-      offsetRight: i === numPanels - 1 ? Math.round(rightOffset * 10) / 10 : MIDDLE_PANEL_OFFSET,
+      offsetLeft: i === 0 ? Math.round(leftOffset * 10) / 10 : middle,
+      offsetRight: i === numPanels - 1 ? Math.round(rightOffset * 10) / 10 : middle,
     });
   }
   autoAssignLocks(panels);
@@ -221,9 +220,10 @@ export function autoGeneratePanelsForEdge(
   endAngle: number,
   startConnectedToWall: boolean,
   endConnectedToWall: boolean,
+  system: ProductSystem,
 ): Panel[] {
-  const leftResult = calculateOffset(startAngle, startConnectedToWall);
-  const rightResult = calculateOffset(endAngle, endConnectedToWall);
+  const leftResult = calculateOffset(startAngle, startConnectedToWall, system);
+  const rightResult = calculateOffset(endAngle, endConnectedToWall, system);
   const leftOffset = leftResult.offset;
   const rightOffset = rightResult.offset;
 
@@ -241,10 +241,11 @@ export function autoGeneratePanelsForEdge(
   }
 
   // Step 2: Number of panels
-  const numPanels = Math.max(1, Math.ceil(availableLength / MAX_PANEL_WIDTH));
+  const sizes = system.panelSizes;
+  const numPanels = Math.max(1, Math.ceil(availableLength / sizes.max));
 
   // Step 3: Between-panel offsets (2mm per side × 2 sides = 4mm per gap)
-  const betweenPanelOffsets = (numPanels - 1) * MIDDLE_PANEL_OFFSET * 2;
+  const betweenPanelOffsets = (numPanels - 1) * system.panelOffsets.middle * 2;
 
   // Step 4: Available length for actual glass
   const availableForGlass = availableLength - betweenPanelOffsets;
@@ -254,7 +255,7 @@ export function autoGeneratePanelsForEdge(
 
   // Step 6: Single panel — use exact width (rounded to nearest 30)
   if (numPanels === 1) {
-    const snapped = snapToStandardSize(avgLength);
+    const snapped = snapToStandardSize(avgLength, sizes.min, sizes.standard);
     return [{
       name: '1',
       length: snapped,
@@ -266,16 +267,16 @@ export function autoGeneratePanelsForEdge(
   }
 
   // Step 7: If average is below threshold, use free width (equal non-standard)
-  if (avgLength < FREE_WIDTH_THRESHOLD) {
-    return buildPanels(numPanels, Math.round(avgLength), Math.round(avgLength), 0, numPanels, leftOffset, rightOffset);
+  if (avgLength < sizes.freeWidthThreshold) {
+    return buildPanels(numPanels, Math.round(avgLength), Math.round(avgLength), 0, numPanels, leftOffset, rightOffset, system);
   }
 
   // Step 8: Find base size — smallest standard size >= avgLength
-  let baseSize = STANDARD_PANEL_SIZES.find(s => s >= avgLength);
-  if (!baseSize) baseSize = MAX_PANEL_WIDTH;
+  let baseSize = sizes.standard.find(s => s >= avgLength);
+  if (!baseSize) baseSize = sizes.max;
 
-  // Step 9: Smaller size = baseSize - 30 (min MIN_PANEL_WIDTH)
-  const smallerSize = Math.max(MIN_PANEL_WIDTH, baseSize - PANEL_STEP);
+  // Step 9: Smaller size = baseSize - step (min sizes.min)
+  const smallerSize = Math.max(sizes.min, baseSize - sizes.step);
 
   // Step 10: Find best combo of numLarge × baseSize + numSmall × smallerSize
   let bestLarge = numPanels;
@@ -288,8 +289,8 @@ export function autoGeneratePanelsForEdge(
     const totalGlass = nLarge * baseSize + nSmall * smallerSize;
     const diff = totalGlass - availableForGlass;
 
-    // Allow exceeding by up to COMBO_TOLERANCE
-    const valid = diff >= -COMBO_TOLERANCE;
+    // Allow falling short by up to the system's combo tolerance
+    const valid = diff >= -sizes.comboTolerance;
     const absDiff = Math.abs(diff);
 
     if (valid && (!bestValid || absDiff < bestDiff)) {
@@ -307,11 +308,11 @@ export function autoGeneratePanelsForEdge(
   // Step 11: If no valid combo found, fall back to free width
   if (!bestValid) {
     const equalSize = Math.round(avgLength);
-    return buildPanels(numPanels, equalSize, equalSize, 0, numPanels, leftOffset, rightOffset);
+    return buildPanels(numPanels, equalSize, equalSize, 0, numPanels, leftOffset, rightOffset, system);
   }
 
   // Step 12: Build panels — smaller panels first, then larger (default > direction)
-  return buildPanels(numPanels, baseSize, smallerSize, bestLarge, bestSmall, leftOffset, rightOffset);
+  return buildPanels(numPanels, baseSize, smallerSize, bestLarge, bestSmall, leftOffset, rightOffset, system);
 }
 
 /**
@@ -326,6 +327,7 @@ function buildPanels(
   numSmall: number,
   leftOffset: number,
   rightOffset: number,
+  system: ProductSystem,
 ): Panel[] {
   const panels: Panel[] = [];
   // Smaller panels first, then larger panels
@@ -335,14 +337,14 @@ function buildPanels(
 
     const oLeft = i === 0
       ? Math.round(leftOffset * 10) / 10
-      : MIDDLE_PANEL_OFFSET;
+      : system.panelOffsets.middle;
     const oRight = i === total - 1
       ? Math.round(rightOffset * 10) / 10
-      : MIDDLE_PANEL_OFFSET;
+      : system.panelOffsets.middle;
 
     panels.push({
       name: `${i + 1}`,
-      length: Math.max(MIN_PANEL_WIDTH, panelWidth),
+      length: Math.max(system.panelSizes.min, panelWidth),
       opening: '>' as OpeningDirection,
       lock: '-' as LockSymbol,
       offsetLeft: oLeft,
@@ -357,15 +359,15 @@ function buildPanels(
 }
 
 /**
- * Snap a width to the nearest standard size (30mm steps, 430-700).
- * If below MIN_PANEL_WIDTH, returns the raw rounded value.
+ * Snap a width to the nearest standard size.
+ * If below the smallest panel width, returns the raw rounded value.
  */
-function snapToStandardSize(width: number): number {
-  if (width < MIN_PANEL_WIDTH) return Math.max(100, Math.round(width));
+function snapToStandardSize(width: number, minWidth: number, standardSizes: number[]): number {
+  if (width < minWidth) return Math.max(100, Math.round(width));
   // Find closest standard size
-  let best = STANDARD_PANEL_SIZES[0];
+  let best = standardSizes[0];
   let bestDiff = Math.abs(width - best);
-  for (const s of STANDARD_PANEL_SIZES) {
+  for (const s of standardSizes) {
     const d = Math.abs(width - s);
     if (d < bestDiff) { bestDiff = d; best = s; }
   }
@@ -378,7 +380,7 @@ function snapToStandardSize(width: number): number {
  * - First left-opening (<) panel gets single lock |
  * - Last right-opening (>) panel gets single lock |
  */
-function autoAssignLocks(panels: Panel[]): void {
+export function autoAssignLocks(panels: Panel[]): void {
   // Reset all locks
   for (const p of panels) {
     if (p.lock !== '||') p.lock = '-'; // preserve double locks
@@ -402,19 +404,20 @@ function findLastIndex<T>(arr: T[], pred: (v: T) => boolean): number {
 // With passruta (fixed glass) offset from 275_Multi_Guide_HTML.rb lines 640-684
 
 /** Get between-panel offset considering passruta (fixed glass) */
-function betweenPanelOffset(panels: Panel[], index: number, side: 'left' | 'right'): number {
+function betweenPanelOffset(panels: Panel[], index: number, side: 'left' | 'right', system: ProductSystem): number {
+  const { middle, passruta } = system.panelOffsets;
   if (side === 'left' && index > 0) {
     const prev = panels[index - 1];
     const curr = panels[index];
     // If transition between fixed and opening, use larger offset
-    if (prev.opening === 'X' || curr.opening === 'X') return PASSRUTA_PANEL_OFFSET;
-    return MIDDLE_PANEL_OFFSET;
+    if (prev.opening === 'X' || curr.opening === 'X') return passruta;
+    return middle;
   }
   if (side === 'right' && index < panels.length - 1) {
     const curr = panels[index];
     const next = panels[index + 1];
-    if (curr.opening === 'X' || next.opening === 'X') return PASSRUTA_PANEL_OFFSET;
-    return MIDDLE_PANEL_OFFSET;
+    if (curr.opening === 'X' || next.opening === 'X') return passruta;
+    return middle;
   }
   return 0; // first left / last right — handled by edge offset
 }
@@ -425,38 +428,68 @@ export function recalcPanelOffsets(
   endAngle: number,
   startConnectedToWall: boolean,
   endConnectedToWall: boolean,
+  system: ProductSystem,
 ): Panel[] {
   if (panels.length === 0) return panels;
 
-  const leftResult = calculateOffset(startAngle, startConnectedToWall);
-  const rightResult = calculateOffset(endAngle, endConnectedToWall);
+  const leftResult = calculateOffset(startAngle, startConnectedToWall, system);
+  const rightResult = calculateOffset(endAngle, endConnectedToWall, system);
 
   return panels.map((p, i) => ({
     ...p,
     offsetLeft:
       i === 0
         ? Math.round(leftResult.offset * 10) / 10
-        : betweenPanelOffset(panels, i, 'left'),
+        : betweenPanelOffset(panels, i, 'left', system),
     offsetRight:
       i === panels.length - 1
         ? Math.round(rightResult.offset * 10) / 10
-        : betweenPanelOffset(panels, i, 'right'),
+        : betweenPanelOffset(panels, i, 'right', system),
   }));
 }
 
 // ─── Lock/fitting assignment ─────────────────────────────────
 // Port of set_panel_fittings_attribute() from 070_set_glas_attribute.rb
 
-function determineLockAtEdge(angle: number): LockType {
-  if (angle === 0) return 'Slutlock hona';
-  if (Math.abs(angle) > 86 && Math.abs(angle) < 94) return '90 graderslock hona';
-  return 'Variabelt andlock';
+/** Lower-rail lock deduction key for a panel lock symbol */
+function lowerLockType(lock: LockSymbol): LockType {
+  if (lock === '||') return 'Undre las dubbel';
+  if (lock === '|') return 'Undre las';
+  return null;
 }
 
-function determineLockAtEdgeEnd(angle: number): LockType {
-  if (angle === 0) return 'Slutlock hane';
-  if (Math.abs(angle) > 86 && Math.abs(angle) < 94) return '90 graderslock hane';
-  return 'Variabelt andlock';
+function lockWidth(lock: LockType, system: ProductSystem): number {
+  return lock ? (system.lockWidths[lock] ?? 0) : 0;
+}
+
+function emptyPcComponents(): PcComponents {
+  return { pc_h: [], pc_hh: [], pc_90gr: [], pc_45gr: [] };
+}
+
+/**
+ * PC component variant for one vertical panel edge, picked from its corner lock.
+ * cornerAngle is the vertex angle at side ends and 0 between panels — a
+ * variable lock there is the fixed/opening transition, which takes the
+ * double profile instead of the angled one.
+ */
+function pcComponentKey(lock: LockType, cornerAngle: number): keyof PcComponents | null {
+  switch (lock) {
+    case '90 graderslock hane':
+    case '90 graderslock hona':
+      return 'pc_90gr';
+    case '45 graderslock hane':
+    case '45 graderslock hona':
+      return 'pc_45gr';
+    case 'Variabelt andlock':
+      return cornerAngle === 0 ? 'pc_hh' : 'pc_45gr';
+    case 'Slutlock hane':
+    case 'Slutlock hona':
+    case 'Moteslock hane':
+    case 'Moteslock hona':
+      return 'pc_h';
+    default:
+      return null;
+  }
 }
 
 export function calculatePanelFittings(
@@ -464,9 +497,17 @@ export function calculatePanelFittings(
   startAngle: number,
   endAngle: number,
   frameHeight: number,
-): PanelFittingResult[] {
+  sideNumber: number,
+  system: ProductSystem,
+): PanelFitting[] {
   if (panels.length === 0) return [];
 
+  // Glass heights are the same for every panel on the side
+  const { glassOffsets } = system;
+  const glassHeight = Math.round((frameHeight - glassOffsets.glassHeight) * 10) / 10;
+  const glassModuleHeight = Math.round((frameHeight - glassOffsets.glassModuleHeight) * 10) / 10;
+  const pcLength = Math.round((frameHeight - glassOffsets.pcComponent) * 10) / 10;
+
   // Count opening directions
   const leftCount = panels.filter((p) => p.opening === '<').length;
   const rightCount = panels.filter((p) => p.opening === '>').length;
@@ -482,10 +523,10 @@ export function calculatePanelFittings(
     let bottomRight: LockType = 'Moteslock hane';
 
     if (isFirst) {
-      topLeft = bottomLeft = determineLockAtEdge(startAngle);
+      topLeft = bottomLeft = cornerLock(startAngle, 'start');
     }
     if (isLast) {
-      topRight = bottomRight = determineLockAtEdgeEnd(endAngle);
+      topRight = bottomRight = cornerLock(endAngle, 'end');
     }
 
     // ── Fixed glass override ──
@@ -531,43 +572,95 @@ export function calculatePanelFittings(
     }
 
     // ── Glass width (panel length minus lock widths) ──
-    const lockWidthLeft = topLeft ? (LOCK_WIDTHS[topLeft] ?? 0) : 0;
-    const lockWidthRight = topRight ? (LOCK_WIDTHS[topRight] ?? 0) : 0;
-    const glassWidth = panel.length - lockWidthLeft - lockWidthRight;
+    const glassWidth = panel.length - lockWidth(topLeft, system) - lockWidth(topRight, system);
+
+    // ── Glass profile lengths ──
+    // Upper rail gives way for the top lock, lower rail for the lower lock
+    const upperGlassProfileLength = glassWidth - lockWidth(topLock, system);
+    const lowerGlassProfileLength = glassWidth - lockWidth(lowerLockType(panel.lock), system);
+
+    // ── PC components (one per vertical edge) ──
+    const pcComponents = emptyPcComponents();
+    const leftKey = pcComponentKey(topLeft, isFirst ? startAngle : 0);
+    const rightKey = pcComponentKey(topRight, isLast ? endAngle : 0);
+    if (leftKey) pcComponents[leftKey].push(pcLength);
+    if (rightKey) pcComponents[rightKey].push(pcLength);
 
     return {
+      ...panel,
+      glassWidth: Math.round(glassWidth * 10) / 10,
+      glassHeight,
+      glassModuleHeight,
       topLeft,
       topRight,
       bottomLeft,
       bottomRight,
       topLock,
       bottomLock,
-      glassWidth: Math.round(glassWidth * 10) / 10,
-      offsetLeft: panel.offsetLeft,
-      offsetRight: panel.offsetRight,
+      openingLabel: panel.opening === '<' ? 'Vanster' : panel.opening === '>' ? 'Hoger' : null,
+      upperGlassProfileLength: Math.round(upperGlassProfileLength * 10) / 10,
+      lowerGlassProfileLength: Math.round(lowerGlassProfileLength * 10) / 10,
+      sideNumber,
+      pcComponents,
     };
   });
 }
 
 // ─── Wall connection detection ───────────────────────────────
 // Port from 060_screw_and_guide.rb is_connected_to_wall()
-// In the web app, we check if the adjacent edge is marked as 'wall'
+// In the web app, we check if the adjacent edge is marked as 'wall'.
+// In a closed chain the first and last sides are neighbours.
 
 export function isConnectedToWall(
   edgeConfigs: EdgeConfig[],
   segIndex: number,
   side: 'start' | 'end',
+  closed = false,
 ): boolean {
+  const count = edgeConfigs.length;
+  if (closed && count >= 3) {
+    const neighbour = side === 'start' ? (segIndex - 1 + count) % count : (segIndex + 1) % count;
+    return edgeConfigs[neighbour]?.wallOrGlazingStatus === 'wall';
+  }
   if (side === 'start' && segIndex > 0) {
     return edgeConfigs[segIndex - 1]?.wallOrGlazingStatus === 'wall';
   }
-  if (side === 'end' && segIndex < edgeConfigs.length - 1) {
+  if (side === 'end' && segIndex < count - 1) {
     return edgeConfigs[segIndex + 1]?.wallOrGlazingStatus === 'wall';
   }
   // First/last segments: no adjacent edge = treat like wall connection
   return false;
 }
 
+// ─── Segment geometry ────────────────────────────────────────
+// Length and corner angles of one segment. Free chain ends get angle 0;
+// a closed chain has no free ends.
+
+export interface SegmentGeometry {
+  edgeLength: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+export function getSegmentGeometry(
+  guidePoints: Point2D[],
+  segIndex: number,
+  closed = false,
+): SegmentGeometry {
+  const endIndex = segmentEndIndex(guidePoints, segIndex);
+  const start = guidePoints[segIndex];
+  const end = guidePoints[endIndex];
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const edgeLength = Math.sqrt(dx * dx + dy * dy);
+
+  return {
+    edgeLength,
+    startAngle: vertexAngle(guidePoints, segIndex, closed),
+    endAngle: vertexAngle(guidePoints, endIndex, closed),
+  };
+}
+
 // ─── Compute all data for a segment ──────────────────────────
 
 export function computeEdgeData(
@@ -575,50 +668,31 @@ export function computeEdgeData(
   edgeConfigs: EdgeConfig[],
   segIndex: number,
   frameHeight: number,
+  system: ProductSystem,
+  closed = false,
 ): ComputedEdgeData | null {
-  if (segIndex < 0 || segIndex >= guidePoints.length - 1) return null;
-
-  const start = guidePoints[segIndex];
-  const end = guidePoints[segIndex + 1];
-  const dx = end.x - start.x;
-  const dy = end.y - start.y;
-  const edgeLength = Math.sqrt(dx * dx + dy * dy);
+  if (segIndex < 0 || segIndex >= getSegmentCount(guidePoints, closed)) return null;
 
   // Side number (1-based index in chain)
   const sideNumber = segIndex + 1;
 
-  // Angles at vertices
-  let startAngle = 0;
-  let endAngle = 0;
-  if (segIndex > 0) {
-    startAngle = angleBetweenSegments(
-      guidePoints[segIndex - 1],
-      guidePoints[segIndex],
-      guidePoints[segIndex + 1],
-    );
-  }
-  if (segIndex + 2 < guidePoints.length) {
-    endAngle = angleBetweenSegments(
-      guidePoints[segIndex],
-      guidePoints[segIndex + 1],
-      guidePoints[segIndex + 2],
-    );
-  }
+  // Length and angles at vertices
+  const { edgeLength, startAngle, endAngle } = getSegmentGeometry(guidePoints, segIndex, closed);
 
   // Wall connections
-  const startConnectedToWall = isConnectedToWall(edgeConfigs, segIndex, 'start');
-  const endConnectedToWall = isConnectedToWall(edgeConfigs, segIndex, 'end');
+  const startConnectedToWall = isConnectedToWall(edgeConfigs, segIndex, 'start', closed);
+  const endConnectedToWall = isConnectedToWall(edgeConfigs, segIndex, 'end', closed);
 
   // Offsets
-  const leftResult = calculateOffset(startAngle, startConnectedToWall);
-  const rightResult = calculateOffset(endAngle, endConnectedToWall);
+  const leftResult = calculateOffset(startAngle, startConnectedToWall, system);
+  const rightResult = calculateOffset(endAngle, endConnectedToWall, system);
 
   // Panel fittings
   const edge = edgeConfigs[segIndex];
   const panels = edge?.panels ?? [];
   const panelFittings = edge?.wallOrGlazingStatus === 'wall'
     ? []
-    : calculatePanelFittings(panels, startAngle, endAngle, frameHeight);
+    : calculatePanelFittings(panels, startAngle, endAngle, frameHeight, sideNumber, system);
 
   // Total module length (sum of panel widths + offsets)
   const totalModuleLength = panels.reduce(
@@ -627,6 +701,13 @@ export function computeEdgeData(
   );
   const spelGuide = Math.round((edgeLength - totalModuleLength) * 10) / 10;
 
+  const pcComponents = emptyPcComponents();
+  for (const fitting of panelFittings) {
+    for (const key of Object.keys(pcComponents) as (keyof PcComponents)[]) {
+      pcComponents[key].push(...fitting.pcComponents[key]);
+    }
+  }
+
   // Cut lengths
   const cutLengths = calculateCutLengths(
     edgeLength,
@@ -634,6 +715,7 @@ export function computeEdgeData(
     rightResult.profileOffset,
     startAngle,
     endAngle,
+    system,
   );
 
   return {
@@ -654,5 +736,6 @@ export function computeEdgeData(
       coverprofile: Math.round(cutLengths.coverprofile * 10) / 10,
     },
     panelFittings,
+    pcComponents,
   };
 }
@@ -0,0 +1,125 @@
+/**
+ * Frame division — port of the side splitting in 090_FrameBuilder.rb.
+ *
+ * A side longer than its maximum frame width is built as several equal
+ * frames. The maximum depends on what the frame holds: glass, a covered
+ * (panel) balustrade, or a wall side. At every split both frames give way
+ * by the system's underljusSplit offset for the split post; the outer ends keep the
+ * side's corner miters.
+ */
+
+import type { FrameWidthSettings } from '../../types/frame';
+import type { BrostningsramType, ProfileConfig } from '../../types/profile';
+import type { ProductSystem } from '../../types/productSystem';
+import { cutLengthEndAllowances, type CutLengths } from './edgeCalculations';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type FrameKind = 'glass' | 'covered' | 'wall';
+
+export interface FrameSegment {
+  /** 0-based position on the side */
+  index: number;
+  /** Distance from the side's start vertex along the guide (mm) */
+  start: number;
+  end: number;
+  /** Nominal frame length, split post not deducted (mm) */
+  length: number;
+  cutLengths: CutLengths;
+}
+
+export interface SideFrameDivision {
+  kind: FrameKind;
+  maxWidth: number;
+  frames: FrameSegment[];
+  /** Split positions along the guide, from the start vertex (mm) */
+  splitPositions: number[];
+}
+
+// ─── Frame kind ──────────────────────────────────────────────
+
+/** Balustrade fills that close the frame with a panel instead of glass */
+const COVERED_BROSTNING_TYPES: BrostningsramType[] = ['Vit Panel', 'Vit & Gra Panel', 'Brand'];
+
+export function getFrameKind(
+  wallOrGlazingStatus: 'wall' | 'glazing',
+  profileConfig: ProfileConfig,
+): FrameKind {
+  if (wallOrGlazingStatus === 'wall') return 'wall';
+  if (
+    profileConfig.brostningEnabled &&
+    COVERED_BROSTNING_TYPES.includes(profileConfig.brostningsramType)
+  ) {
+    return 'covered';
+  }
+  return 'glass';
+}
+
+export function getMaxFrameWidth(kind: FrameKind, settings: FrameWidthSettings): number {
+  switch (kind) {
+    case 'wall':
+      return settings.maxWidthWall;
+    case 'covered':
+      return settings.maxWidthCovered;
+    default:
+      return settings.maxWidthGlass;
+  }
+}
+
+// ─── Division ────────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+function splitAllowances(system: ProductSystem): CutLengths {
+  const split = system.frameOffsets.underljusSplit;
+  return { underskena: split, overskena: split, overhallare: split, coverprofile: split };
+}
+
+/**
+ * Split one side into frames.
+ * span is the underskena length (edge + profile offsets) and spanStart
+ * where it begins relative to the start vertex (−profileOffsetLeft).
+ */
+export function divideSideIntoFrames(
+  span: number,
+  spanStart: number,
+  startAngle: number,
+  endAngle: number,
+  kind: FrameKind,
+  settings: FrameWidthSettings,
+  system: ProductSystem,
+): SideFrameDivision {
+  const maxWidth = getMaxFrameWidth(kind, settings);
+  const count = maxWidth > 0 && span > 0 ? Math.max(1, Math.ceil(span / maxWidth)) : 1;
+  const nominal = span / count;
+
+  const startAllowances = cutLengthEndAllowances(startAngle, system);
+  const endAllowances = cutLengthEndAllowances(endAngle, system);
+  const splits = splitAllowances(system);
+
+  const frames: FrameSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const left = i === 0 ? startAllowances : splits;
+    const right = i === count - 1 ? endAllowances : splits;
+    const start = spanStart + i * nominal;
+    frames.push({
+      index: i,
+      start: round1(start),
+      end: round1(start + nominal),
+      length: round1(nominal),
+      cutLengths: {
+        underskena: round1(nominal + left.underskena + right.underskena),
+        overskena: round1(nominal + left.overskena + right.overskena),
+        overhallare: round1(nominal + left.overhallare + right.overhallare),
+        coverprofile: round1(nominal + left.coverprofile + right.coverprofile),
+      },
+    });
+  }
+
+  return {
+    kind,
+    maxWidth,
+    frames,
+    splitPositions: frames.slice(1).map((f) => f.start),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Glass catalog — pane size, area and weight per panel.
+ *
+ * The ordered pane is the fitting's glass width × glass height less the
+ * glass type's deductions. Weight is area × thickness × density, which the
+ * installation crew uses for lifting; the glass order is m² per glass type.
+ */
+
+import type { PanelFitting } from '../../types/panel';
+import type { GlassSpec, GlassTotals, GlassType, PanelGlass } from '../../types/glass';
+import type { ChainProject } from './projectCalculations';
+
+// ─── Catalog ─────────────────────────────────────────────────
+
+export const GLASS_CATALOG: Record<GlassType, GlassSpec> = {
+  Kristall: {
+    label: 'Kristall — härdat klarglas',
+    thickness: 6,
+    density: 2500,
+    widthDeduction: 0,
+    heightDeduction: 0,
+  },
+  'Lag-E': {
+    label: 'Lag-E — härdat energiglas',
+    thickness: 6,
+    density: 2500,
+    // Coating is stripped 1 mm along each edge before toughening
+    widthDeduction: 2,
+    heightDeduction: 2,
+  },
+};
+
+export const GLASS_TYPES = Object.keys(GLASS_CATALOG) as GlassType[];
+
+// ─── Calculations ────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+export function panelGlass(fitting: PanelFitting, spec: GlassSpec): PanelGlass {
+  const width = Math.max(0, round1(fitting.glassWidth - spec.widthDeduction));
+  const height = Math.max(0, round1(fitting.glassHeight - spec.heightDeduction));
+  const area = (width * height) / 1e6;
+  const weight = area * (spec.thickness / 1000) * spec.density;
+  return { panelName: fitting.name, width, height, area: round3(area), weight: round1(weight) };
+}
+
+export function sumGlass(panes: PanelGlass[]): GlassTotals {
+  return {
+    count: panes.length,
+    area: round3(panes.reduce((sum, p) => sum + p.area, 0)),
+    weight: round1(panes.reduce((sum, p) => sum + p.weight, 0)),
+  };
+}
+
+/** Glass order for every chain, one entry per glass type in use */
+export function glassOrder(chains: ChainProject[]): { type: GlassType; totals: GlassTotals }[] {
+  const byType = new Map<GlassType, PanelGlass[]>();
+  for (const { project } of chains) {
+    const panes = project.sides.flatMap((side) => side.glass);
+    if (panes.length === 0) continue;
+    byType.set(project.glassType, [...(byType.get(project.glassType) ?? []), ...panes]);
+  }
+  return GLASS_TYPES.flatMap((type) => {
+    const panes = byType.get(type);
+    return panes ? [{ type, totals: sumGlass(panes) }] : [];
+  });
+}
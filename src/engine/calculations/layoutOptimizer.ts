@@ -0,0 +1,326 @@
+/**
+ * Project-wide panel layout optimizer.
+ *
+ * autoGeneratePanelsForEdge lays out each side on its own, so a balcony
+ * easily ends up with five or six different glass widths. This looks at
+ * every glazing side of every chain together and proposes a layout with:
+ *   1. the fewest distinct panel widths,
+ *   2. identical, mirrored layouts on sides that mirror each other,
+ *   3. spelGuide within the tolerance on every side.
+ *
+ * Each side may mix at most two widths, taken from the product system's
+ * standard sizes or from the free (equal-split) widths of any side. The
+ * smallest set of widths that lets every side close within the tolerance is
+ * found by exhaustive search up to MAX_SHARED_SIZES; sides it cannot cover
+ * fall back to their own free width. The result is a proposal only — the
+ * store applies it when the user accepts.
+ */
+
+import type { Panel } from '../../types/panel';
+import type { GuideChain } from '../../types/chain';
+import type { ProductSystem } from '../../types/productSystem';
+import { MIN_GLAZING_SIDE_LENGTH, SPEL_GUIDE_TOLERANCE } from '../../utils/constants';
+import { getSegmentCount } from '../geometry/guideChain';
+import { autoAssignLocks, calculateOffset, getSegmentGeometry, isConnectedToWall } from './edgeCalculations';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export interface SideLayout {
+  chainId: string;
+  segIndex: number;
+  panels: Panel[];
+  spelGuide: number;
+  /** Mirror image of another side's layout (order and openings reversed) */
+  mirrored: boolean;
+}
+
+export interface LayoutProposal {
+  sides: SideLayout[];
+  /** Distinct panel widths in the proposal, ascending (mm) */
+  sizes: number[];
+  /** Distinct panel widths in the current layout, ascending (mm) */
+  currentSizes: number[];
+  /** Sides whose spelGuide is still outside the tolerance */
+  outOfTolerance: number;
+  /** Geometry the proposal was made for — compare with layoutBasis */
+  basis: string;
+}
+
+/** Largest width set searched exhaustively; beyond that sides use their own free width */
+export const MAX_SHARED_SIZES = 3;
+
+interface SideShape {
+  chainId: string;
+  segIndex: number;
+  edgeLength: number;
+  leftOffset: number;
+  rightOffset: number;
+  /** Offset on each side of a joint between panels (mm) */
+  middleOffset: number;
+}
+
+interface Candidate {
+  /** Panel widths, ascending */
+  widths: number[];
+  /** Distinct widths, ascending */
+  sizes: number[];
+  spelGuide: number;
+}
+
+/** Sides with the same length and end offsets, possibly swapped */
+interface ShapeClass {
+  shapes: SideShape[];
+  candidates: Candidate[];
+  /** The side's own equal split — always possible */
+  fallback: Candidate;
+}
+
+// ─── Geometry ────────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const floor1 = (v: number) => Math.floor(v * 10 + 1e-6) / 10;
+
+function glazingShapes(chains: GuideChain[], system: ProductSystem): SideShape[] {
+  const shapes: SideShape[] = [];
+  for (const chain of chains) {
+    const { points, closed, edgeConfigs } = chain;
+    for (let segIndex = 0; segIndex < getSegmentCount(points, closed); segIndex++) {
+      if (edgeConfigs[segIndex]?.wallOrGlazingStatus === 'wall') continue;
+      const { edgeLength, startAngle, endAngle } = getSegmentGeometry(points, segIndex, closed);
+      if (edgeLength < MIN_GLAZING_SIDE_LENGTH) continue;
+      const left = calculateOffset(startAngle, isConnectedToWall(edgeConfigs, segIndex, 'start', closed), system);
+      const right = calculateOffset(endAngle, isConnectedToWall(edgeConfigs, segIndex, 'end', closed), system);
+      const shape: SideShape = {
+        chainId: chain.id,
+        segIndex,
+        edgeLength,
+        leftOffset: round1(left.offset),
+        rightOffset: round1(right.offset),
+        middleOffset: system.panelOffsets.middle,
+      };
+      if (glassRoom(shape, 1) > 0) shapes.push(shape);
+    }
+  }
+  return shapes;
+}
+
+/** Glass length left for n panels after the end and between-panel offsets */
+function glassRoom(shape: SideShape, n: number): number {
+  return shape.edgeLength - shape.leftOffset - shape.rightOffset - (n - 1) * shape.middleOffset * 2;
+}
+
+/** The default panel count and one more, for a second chance at a shared width */
+function panelCounts(shape: SideShape, system: ProductSystem): number[] {
+  const n = Math.max(1, Math.ceil(glassRoom(shape, 1) / system.panelSizes.max));
+  return [n, n + 1];
+}
+
+function candidate(widths: number[], room: number): Candidate {
+  const sorted = [...widths].sort((a, b) => a - b);
+  return {
+    widths: sorted,
+    sizes: [...new Set(sorted)],
+    spelGuide: round1(room - sorted.reduce((sum, w) => sum + w, 0)),
+  };
+}
+
+function freeCandidate(shape: SideShape, n: number): Candidate {
+  const room = glassRoom(shape, n);
+  return candidate(Array<number>(n).fill(floor1(room / n)), room);
+}
+
+// ─── Candidates ──────────────────────────────────────────────
+
+/** Standard sizes plus every side's equal-split width */
+function widthPool(shapes: SideShape[], system: ProductSystem): number[] {
+  const pool = new Set(system.panelSizes.standard);
+  for (const shape of shapes) {
+    for (const n of panelCounts(shape, system)) {
+      const w = freeCandidate(shape, n).widths[0];
+      if (w >= system.panelSizes.freeWidthThreshold && w <= system.panelSizes.max) pool.add(w);
+    }
+  }
+  return [...pool].sort((a, b) => a - b);
+}
+
+/** Every layout of one or two widths from the pool that closes within the tolerance */
+function sideCandidates(shape: SideShape, pool: number[], system: ProductSystem, tolerance: number): Candidate[] {
+  const out: Candidate[] = [];
+  for (const n of panelCounts(shape, system)) {
+    const room = glassRoom(shape, n);
+    for (let i = 0; i < pool.length; i++) {
+      for (let j = i; j < pool.length; j++) {
+        const a = pool[i];
+        const b = pool[j];
+        // k panels of the wider width, at least one of each when a ≠ b
+        const kRange = a === b ? [n] : Array.from({ length: n - 1 }, (_, k) => k + 1);
+        for (const k of kRange) {
+          const spel = room - (n - k) * a - k * b;
+          if (Math.abs(spel) > tolerance) continue;
+          out.push(candidate([...Array<number>(n - k).fill(a), ...Array<number>(k).fill(b)], room));
+        }
+      }
+    }
+  }
+  return out;
+}
+
+function shapeKey(shape: SideShape): string {
+  const lo = Math.min(shape.leftOffset, shape.rightOffset);
+  const hi = Math.max(shape.leftOffset, shape.rightOffset);
+  return `${round1(shape.edgeLength)}|${lo}|${hi}`;
+}
+
+function groupShapes(shapes: SideShape[], pool: number[], system: ProductSystem, tolerance: number): ShapeClass[] {
+  const classes = new Map<string, ShapeClass>();
+  for (const shape of shapes) {
+    const key = shapeKey(shape);
+    const existing = classes.get(key);
+    if (existing) {
+      existing.shapes.push(shape);
+      continue;
+    }
+    const [n] = panelCounts(shape, system);
+    classes.set(key, {
+      shapes: [shape],
+      candidates: sideCandidates(shape, pool, system, tolerance),
+      fallback: freeCandidate(shape, n),
+    });
+  }
+  return [...classes.values()];
+}
+
+// ─── Search ──────────────────────────────────────────────────
+
+/** Closest-fitting candidate that only uses widths from the set */
+function bestWithin(candidates: Candidate[], sizes: Set<number>): Candidate | null {
+  let best: Candidate | null = null;
+  for (const c of candidates) {
+    if (!c.sizes.every((s) => sizes.has(s))) continue;
+    if (
+      !best ||
+      Math.abs(c.spelGuide) < Math.abs(best.spelGuide) ||
+      (Math.abs(c.spelGuide) === Math.abs(best.spelGuide) && c.widths.length < best.widths.length)
+    ) {
+      best = c;
+    }
+  }
+  return best;
+}
+
+function* combinations(items: number[], k: number, start = 0): Generator<number[]> {
+  if (k === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - k; i++) {
+    for (const rest of combinations(items, k - 1, i + 1)) yield [items[i], ...rest];
+  }
+}
+
+/** Smallest width set covering the most sides; ties go to the smallest total spel */
+function chooseSizes(classes: ShapeClass[]): Set<number> {
+  const relevant = [...new Set(classes.flatMap((c) => c.candidates.flatMap((cand) => cand.sizes)))].sort(
+    (a, b) => a - b,
+  );
+  let best = { sizes: new Set<number>(), covered: 0, spel: Infinity };
+
+  for (let k = 1; k <= Math.min(MAX_SHARED_SIZES, relevant.length); k++) {
+    for (const combo of combinations(relevant, k)) {
+      const sizes = new Set(combo);
+      let covered = 0;
+      let spel = 0;
+      for (const cls of classes) {
+        const c = bestWithin(cls.candidates, sizes);
+        if (!c) continue;
+        covered += cls.shapes.length;
+        spel += Math.abs(c.spelGuide) * cls.shapes.length;
+      }
+      if (covered > best.covered || (covered === best.covered && spel < best.spel)) {
+        best = { sizes, covered, spel };
+      }
+    }
+    if (best.covered === classes.reduce((sum, c) => sum + c.shapes.length, 0)) break;
+  }
+
+  return best.sizes;
+}
+
+// ─── Layout ──────────────────────────────────────────────────
+
+function buildLayout(shape: SideShape, chosen: Candidate, mirrored: boolean): SideLayout {
+  const widths = mirrored ? [...chosen.widths].reverse() : chosen.widths;
+  const last = widths.length - 1;
+  const panels: Panel[] = widths.map((length, i) => ({
+    name: `${i + 1}`,
+    length,
+    opening: mirrored ? '<' : '>',
+    lock: '-',
+    offsetLeft: i === 0 ? shape.leftOffset : shape.middleOffset,
+    offsetRight: i === last ? shape.rightOffset : shape.middleOffset,
+  }));
+  autoAssignLocks(panels);
+
+  const totalModuleLength = panels.reduce((sum, p) => sum + p.length + p.offsetLeft + p.offsetRight, 0);
+  return {
+    chainId: shape.chainId,
+    segIndex: shape.segIndex,
+    panels,
+    spelGuide: round1(shape.edgeLength - totalModuleLength),
+    mirrored,
+  };
+}
+
+/** Distinct panel widths on the glazing sides of the chains, ascending */
+export function distinctPanelSizes(chains: GuideChain[]): number[] {
+  const sizes = new Set<number>();
+  for (const chain of chains) {
+    chain.edgeConfigs.forEach((edge, i) => {
+      if (i >= getSegmentCount(chain.points, chain.closed) || edge.wallOrGlazingStatus === 'wall') return;
+      for (const panel of edge.panels) sizes.add(panel.length);
+    });
+  }
+  return [...sizes].sort((a, b) => a - b);
+}
+
+/** Fingerprint of everything the proposal depends on */
+export function layoutBasis(chains: GuideChain[], system: ProductSystem): string {
+  return JSON.stringify([
+    system.id,
+    chains.map((c) => [c.id, c.points, c.closed, c.edgeConfigs.map((e) => e.wallOrGlazingStatus)]),
+  ]);
+}
+
+export function optimizePanelLayout(
+  chains: GuideChain[],
+  system: ProductSystem,
+  tolerance = SPEL_GUIDE_TOLERANCE,
+): LayoutProposal {
+  const shapes = glazingShapes(chains, system);
+  const pool = widthPool(shapes, system);
+  const classes = groupShapes(shapes, pool, system, tolerance);
+  const sizes = chooseSizes(classes);
+
+  const sides: SideLayout[] = [];
+  for (const cls of classes) {
+    const chosen = bestWithin(cls.candidates, sizes) ?? cls.fallback;
+    const [first] = cls.shapes;
+    for (const shape of cls.shapes) {
+      // Same class with the end offsets swapped — lay it out back to front
+      const mirrored = shape !== first && shape.leftOffset !== shape.rightOffset && shape.leftOffset === first.rightOffset;
+      sides.push(buildLayout(shape, chosen, mirrored));
+    }
+  }
+
+  // Back in chain and side order
+  const chainOrder = new Map(chains.map((c, i) => [c.id, i]));
+  sides.sort((a, b) => (chainOrder.get(a.chainId) ?? 0) - (chainOrder.get(b.chainId) ?? 0) || a.segIndex - b.segIndex);
+
+  return {
+    sides,
+    sizes: [...new Set(sides.flatMap((s) => s.panels.map((p) => p.length)))].sort((a, b) => a - b),
+    currentSizes: distinctPanelSizes(chains),
+    outOfTolerance: sides.filter((s) => Math.abs(s.spelGuide) > tolerance).length,
+    basis: layoutBasis(chains, system),
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Panel parking — where the glazing panels stack when the side is opened.
+ *
+ * Panels slide along the guide to a turning point and swing 90° inward
+ * (right of travel). '>' panels park at the end of the side, '<' panels at
+ * the start; fixed glass ('X') stays put and blocks every panel behind it.
+ * The panel nearest the turning point opens first, so it has to carry the
+ * lock — that is the panel autoAssignLocks picks.
+ *
+ * A parked stack is one pitch deep per panel along the side and reaches as
+ * far into the balcony as its widest panel. Stacks are checked against each
+ * other and against the free floor in front of any wall door.
+ */
+
+import type { Point2D } from '../../types/geometry';
+import type { Panel } from '../../types/panel';
+import type { EdgeConfig } from '../../types/edge';
+import type { ProductSystem } from '../../types/productSystem';
+import { DOOR_CLEARANCE_DEPTH } from '../../utils/constants';
+import { getSegmentCount, segmentEndIndex } from '../geometry/guideChain';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type ParkingEnd = 'start' | 'end';
+
+export interface ParkedPanel {
+  panelIndex: number;
+  /** On the guide (mm) */
+  from: Point2D;
+  /** Inner edge of the swung-in panel (mm) */
+  to: Point2D;
+}
+
+export interface ParkedStack {
+  segIndex: number;
+  end: ParkingEnd;
+  /** In opening order — the first one swings in first */
+  panels: ParkedPanel[];
+  /** Along the side (mm) */
+  depth: number;
+  /** Into the balcony (mm) */
+  reach: number;
+  /** The first panel to open carries the lock */
+  openable: boolean;
+  /** Collides with another stack or stands in front of a door */
+  blocked: boolean;
+  /** Plan outline of the parked stack (mm) */
+  footprint: Point2D[];
+}
+
+export interface DoorZone {
+  segIndex: number;
+  /** Free floor in front of the door (mm) */
+  outline: Point2D[];
+}
+
+export type ParkingConflict =
+  | { kind: 'stack-collision'; segIndex: number; otherSegIndex: number }
+  | { kind: 'door-blocked'; segIndex: number; doorSegIndex: number }
+  | { kind: 'no-opening-panel'; segIndex: number };
+
+export interface ParkingPlan {
+  stacks: ParkedStack[];
+  doorZones: DoorZone[];
+  conflicts: ParkingConflict[];
+}
+
+// ─── Side frame ──────────────────────────────────────────────
+
+/** Maps (along, inward) in mm on one side to plan coordinates */
+function sideFrame(start: Point2D, end: Point2D) {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const ux = (end.x - start.x) / length;
+  const uy = (end.y - start.y) / length;
+  // Right of travel = inward, opposite the glazing side
+  return {
+    length,
+    at: (along: number, inward: number): Point2D => ({
+      x: start.x + ux * along + uy * inward,
+      y: start.y + uy * along - ux * inward,
+    }),
+  };
+}
+
+function rectangle(
+  at: (along: number, inward: number) => Point2D,
+  from: number,
+  to: number,
+  reach: number,
+): Point2D[] {
+  return [at(from, 0), at(to, 0), at(to, reach), at(from, reach)];
+}
+
+// ─── Stacks ──────────────────────────────────────────────────
+
+const hasLock = (p: Panel) => p.lock === '|' || p.lock === '||';
+
+function sideStacks(
+  start: Point2D,
+  end: Point2D,
+  segIndex: number,
+  panels: Panel[],
+  system: ProductSystem,
+): ParkedStack[] {
+  const frame = sideFrame(start, end);
+  if (panels.length === 0 || frame.length < 1e-6) return [];
+
+  // Panel extents along the side, laid out from the start point
+  let cursor = 0;
+  const extents = panels.map((p) => {
+    cursor += p.offsetLeft;
+    const extent = { from: cursor, to: cursor + p.length };
+    cursor += p.length + p.offsetRight;
+    return extent;
+  });
+  const moduleStart = extents[0].from;
+  const moduleEnd = extents[extents.length - 1].to;
+
+  // Fixed glass blocks the panels behind it
+  const firstFixed = panels.findIndex((p) => p.opening === 'X');
+  const lastFixed = panels.map((p) => p.opening).lastIndexOf('X');
+  const toEnd = panels
+    .map((_, i) => i)
+    .filter((i) => panels[i].opening === '>' && i > lastFixed)
+    .reverse();
+  const toStart = panels
+    .map((_, i) => i)
+    .filter((i) => panels[i].opening === '<' && (firstFixed === -1 || i < firstFixed));
+
+  const pitch = system.parkedPanelPitch;
+  const build = (order: number[], parkEnd: ParkingEnd): ParkedStack | null => {
+    if (order.length === 0) return null;
+    const depth = order.length * pitch;
+    const reach = Math.max(...order.map((i) => panels[i].length));
+    // The first panel parks nearest the turning point
+    const along = (k: number) =>
+      parkEnd === 'end' ? moduleEnd - (k + 0.5) * pitch : moduleStart + (k + 0.5) * pitch;
+    return {
+      segIndex,
+      end: parkEnd,
+      panels: order.map((panelIndex, k) => ({
+        panelIndex,
+        from: frame.at(along(k), 0),
+        to: frame.at(along(k), panels[panelIndex].length),
+      })),
+      depth,
+      reach,
+      openable: hasLock(panels[order[0]]),
+      blocked: false,
+      footprint: parkEnd === 'end'
+        ? rectangle(frame.at, moduleEnd - depth, moduleEnd, reach)
+        : rectangle(frame.at, moduleStart, moduleStart + depth, reach),
+    };
+  };
+
+  return [build(toStart, 'start'), build(toEnd, 'end')].filter((s): s is ParkedStack => s !== null);
+}
+
+// ─── Overlap ─────────────────────────────────────────────────
+
+/** Penetration below this counts as touching, not colliding (mm) */
+const OVERLAP_EPSILON = 1;
+
+/** Separating axis test for two convex outlines */
+function convexOverlap(a: Point2D[], b: Point2D[]): boolean {
+  for (const poly of [a, b]) {
+    for (let i = 0; i < poly.length; i++) {
+      const p = poly[i];
+      const q = poly[(i + 1) % poly.length];
+      const len = Math.hypot(q.x - p.x, q.y - p.y);
+      if (len < 1e-9) continue;
+      const nx = -(q.y - p.y) / len;
+      const ny = (q.x - p.x) / len;
+      const project = (pts: Point2D[]) => pts.map((v) => v.x * nx + v.y * ny);
+      const pa = project(a);
+      const pb = project(b);
+      const overlap = Math.min(Math.max(...pa), Math.max(...pb)) - Math.max(Math.min(...pa), Math.min(...pb));
+      if (overlap <= OVERLAP_EPSILON) return false;
+    }
+  }
+  return true;
+}
+
+// ─── Plan ────────────────────────────────────────────────────
+
+export function planParking(
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  closed: boolean,
+  system: ProductSystem,
+): ParkingPlan {
+  const stacks: ParkedStack[] = [];
+  const doorZones: DoorZone[] = [];
+  const conflicts: ParkingConflict[] = [];
+
+  for (let i = 0; i < getSegmentCount(guidePoints, closed); i++) {
+    const edge = edgeConfigs[i];
+    if (!edge) continue;
+    const start = guidePoints[i];
+    const end = guidePoints[segmentEndIndex(guidePoints, i)];
+
+    if (edge.wallOrGlazingStatus === 'wall') {
+      if (!edge.door) continue;
+      const frame = sideFrame(start, end);
+      const from = Math.max(0, edge.door.offset);
+      const to = Math.min(frame.length, edge.door.offset + edge.door.width);
+      if (to > from) {
+        doorZones.push({ segIndex: i, outline: rectangle(frame.at, from, to, DOOR_CLEARANCE_DEPTH) });
+      }
+      continue;
+    }
+
+    const side = sideStacks(start, end, i, edge.panels, system);
+    stacks.push(...side);
+    if (edge.panels.length > 0 && !side.some((s) => s.openable)) {
+      conflicts.push({ kind: 'no-opening-panel', segIndex: i });
+    }
+  }
+
+  for (let a = 0; a < stacks.length; a++) {
+    for (let b = a + 1; b < stacks.length; b++) {
+      if (convexOverlap(stacks[a].footprint, stacks[b].footprint)) {
+        stacks[a].blocked = true;
+        stacks[b].blocked = true;
+        conflicts.push({ kind: 'stack-collision', segIndex: stacks[a].segIndex, otherSegIndex: stacks[b].segIndex });
+      }
+    }
+    for (const door of doorZones) {
+      if (convexOverlap(stacks[a].footprint, door.outline)) {
+        stacks[a].blocked = true;
+        conflicts.push({ kind: 'door-blocked', segIndex: stacks[a].segIndex, doorSegIndex: door.segIndex });
+      }
+    }
+  }
+
+  return { stacks, doorZones, conflicts };
+}
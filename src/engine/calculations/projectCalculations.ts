@@ -0,0 +1,298 @@
+/**
+ * Project calculation engine — whole-balcony calculations without the store.
+ *
+ * Everything here works on the same plain data the store persists, so it can
+ * run in Node scripts, workers and tests without mounting React or zustand.
+ * The store's panel regeneration helpers are thin wrappers around this module.
+ */
+
+import type { Point2D } from '../../types/geometry';
+import type { Panel } from '../../types/panel';
+import type { EdgeConfig } from '../../types/edge';
+import type { LevelsConfig } from '../../types/levels';
+import type { ProfileConfig } from '../../types/profile';
+import type { FrameWidthSettings } from '../../types/frame';
+import type { GlassTotals, GlassType, PanelGlass } from '../../types/glass';
+import type { ProductSystem } from '../../types/productSystem';
+import type { GuideChain } from '../../types/chain';
+import {
+  computeEdgeData,
+  getSegmentGeometry,
+  isConnectedToWall,
+  autoGeneratePanelsForEdge,
+  evenDistributePanelsForEdge,
+  recalcPanelOffsets,
+  type ComputedEdgeData,
+  type CutLengths,
+} from './edgeCalculations';
+import { divideSideIntoFrames, getFrameKind, type SideFrameDivision } from './frameDivision';
+import { buildBrostningFrames, type BrostningFrame } from './brostningFrames';
+import { buildSupportProfiles, type SupportProfilePiece } from './supportProfiles';
+import { GLASS_CATALOG, panelGlass, sumGlass } from './glass';
+import { planParking, type ParkingPlan } from './panelParking';
+import { getSegmentCount, segmentEndIndex } from '../geometry/guideChain';
+import { DEFAULT_PROJECT_CONFIG, MIN_GLAZING_SIDE_LENGTH } from '../../utils/constants';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export interface ProjectInput {
+  guidePoints: Point2D[];
+  /** Closed loop: the last point joins the first */
+  closed?: boolean;
+  edgeConfigs: EdgeConfig[];
+  levels: LevelsConfig;
+  profileConfig: ProfileConfig;
+  frameWidthSettings: FrameWidthSettings;
+  /** Product system the dimensional rules come from */
+  system: ProductSystem;
+  /** Glass catalog entry for pane area and weight; defaults to Kristall */
+  glassType?: GlassType;
+}
+
+export interface ProjectSide extends ComputedEdgeData {
+  segIndex: number;
+  wallOrGlazingStatus: 'wall' | 'glazing';
+  /** Frames the side is built from; null for wall sides without a wall frame */
+  frameDivision: SideFrameDivision | null;
+  /** Balustrade frames under the glazing; empty when the balustrade is off */
+  brostningFrames: BrostningFrame[];
+  /** Bärlina / bottenprofil under the side */
+  supportProfiles: SupportProfilePiece[];
+  /** Ordered pane per panel; empty for walls */
+  glass: PanelGlass[];
+  glassTotals: GlassTotals;
+}
+
+export interface ProjectTotals {
+  sideCount: number;
+  glazingSideCount: number;
+  panelCount: number;
+  /** Sum of all glazing edge lengths (mm) */
+  glazingLength: number;
+  /** Sum of all glazing module lengths (mm) */
+  moduleLength: number;
+  /** Summed profile cut lengths over all glazing sides (mm) */
+  cutLengths: CutLengths;
+  glass: GlassTotals;
+}
+
+export interface ComputedProject {
+  frameHeight: number;
+  glassType: GlassType;
+  system: ProductSystem;
+  /** Segments of the guide; a segment with no computable side is left out of sides */
+  segmentCount: number;
+  sides: ProjectSide[];
+  /** Parked panel stacks and their conflicts, over all sides */
+  parking: ParkingPlan;
+  totals: ProjectTotals;
+}
+
+/** One guide chain's computed project; side numbers restart in every chain */
+export interface ChainProject {
+  chainId: string;
+  name: string;
+  closed: boolean;
+  project: ComputedProject;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * Glazing frame height: the panels span Mellanstycke → Överstycke,
+ * same as the panel builder's panelHeight.
+ */
+export function getFrameHeight(levels: LevelsConfig): number {
+  return levels.levels.Overstycke.zPosition - levels.levels.Mellanstycke.zPosition;
+}
+
+// ─── Panel regeneration ──────────────────────────────────────
+
+/**
+ * Generate fresh panels for one segment.
+ * Returns null when the segment should be left untouched
+ * (out of range, wall, or shorter than 50 mm).
+ */
+export function generateSegmentPanels(
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  segIndex: number,
+  freeGlassWidth: boolean,
+  system: ProductSystem,
+  closed = false,
+): Panel[] | null {
+  if (segIndex < 0 || segIndex >= getSegmentCount(guidePoints, closed)) return null;
+  const edge = edgeConfigs[segIndex];
+  if (!edge || edge.wallOrGlazingStatus === 'wall') return null;
+
+  const { edgeLength, startAngle, endAngle } = getSegmentGeometry(guidePoints, segIndex, closed);
+  if (edgeLength < MIN_GLAZING_SIDE_LENGTH) return null;
+
+  const startWall = isConnectedToWall(edgeConfigs, segIndex, 'start', closed);
+  const endWall = isConnectedToWall(edgeConfigs, segIndex, 'end', closed);
+
+  return freeGlassWidth
+    ? evenDistributePanelsForEdge(edgeLength, startAngle, endAngle, startWall, endWall, system)
+    : autoGeneratePanelsForEdge(edgeLength, startAngle, endAngle, startWall, endWall, system);
+}
+
+/**
+ * Re-fit the existing panels of one segment to its current corners and wall
+ * connections: only the offsets change, the panels themselves are kept.
+ * Returns null when there is nothing to re-fit (out of range or wall).
+ */
+export function refitSegmentPanels(
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  segIndex: number,
+  system: ProductSystem,
+  closed = false,
+): Panel[] | null {
+  if (segIndex < 0 || segIndex >= getSegmentCount(guidePoints, closed)) return null;
+  const edge = edgeConfigs[segIndex];
+  if (!edge || edge.wallOrGlazingStatus === 'wall') return null;
+
+  const { startAngle, endAngle } = getSegmentGeometry(guidePoints, segIndex, closed);
+  return recalcPanelOffsets(
+    edge.panels,
+    startAngle,
+    endAngle,
+    isConnectedToWall(edgeConfigs, segIndex, 'start', closed),
+    isConnectedToWall(edgeConfigs, segIndex, 'end', closed),
+    system,
+  );
+}
+
+/**
+ * Regenerate every glazing segment. Changing one segment can cascade
+ * (wall status, angles, lock types) so all glazing sides are rebuilt —
+ * except sides with a locked layout, whose hand-edited panels are only
+ * re-fitted. Returns a new array; segments that are skipped keep their config.
+ */
+export function regenerateGlazingPanels(
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  freeGlassWidth: boolean,
+  system: ProductSystem,
+  excludeIndex?: number,
+  closed = false,
+): EdgeConfig[] {
+  return edgeConfigs.map((edge, i) => {
+    if (i === excludeIndex) return edge;
+    const panels = edge.layoutLocked
+      ? refitSegmentPanels(guidePoints, edgeConfigs, i, system, closed)
+      : generateSegmentPanels(guidePoints, edgeConfigs, i, freeGlassWidth, system, closed);
+    return panels ? { ...edge, panels } : edge;
+  });
+}
+
+// ─── Whole project ───────────────────────────────────────────
+
+export function computeProject(project: ProjectInput): ComputedProject {
+  const frameHeight = getFrameHeight(project.levels);
+  const closed = project.closed ?? false;
+  const glassType = project.glassType ?? DEFAULT_PROJECT_CONFIG.glastyp;
+  const glassSpec = GLASS_CATALOG[glassType];
+  const segCount = getSegmentCount(project.guidePoints, closed);
+
+  const sides: ProjectSide[] = [];
+  for (let i = 0; i < segCount; i++) {
+    const data = computeEdgeData(project.guidePoints, project.edgeConfigs, i, frameHeight, project.system, closed);
+    if (!data) continue;
+    const wallOrGlazingStatus = project.edgeConfigs[i]?.wallOrGlazingStatus ?? 'glazing';
+    const hasFrames = wallOrGlazingStatus === 'glazing' || project.profileConfig.vaggEnabled;
+    const frameDivision = hasFrames
+      ? divideSideIntoFrames(
+          data.cutLengths.underskena,
+          -data.profileOffsetLeft,
+          data.startAngle,
+          data.endAngle,
+          getFrameKind(wallOrGlazingStatus, project.profileConfig),
+          project.frameWidthSettings,
+          project.system,
+        )
+      : null;
+    const brostningFrames = frameDivision && wallOrGlazingStatus === 'glazing'
+      ? buildBrostningFrames(
+          project.guidePoints[i],
+          project.guidePoints[segmentEndIndex(project.guidePoints, i)],
+          data.sideNumber,
+          data.startAngle,
+          data.endAngle,
+          frameDivision,
+          project.levels,
+          project.profileConfig,
+          project.system,
+        )
+      : [];
+    const glass = data.panelFittings.map((fitting) => panelGlass(fitting, glassSpec));
+    sides.push({
+      ...data,
+      segIndex: i,
+      wallOrGlazingStatus,
+      frameDivision,
+      brostningFrames,
+      supportProfiles: buildSupportProfiles(
+        project.guidePoints,
+        project.edgeConfigs,
+        i,
+        project.levels,
+        project.profileConfig,
+        closed,
+      ),
+      glass,
+      glassTotals: sumGlass(glass),
+    });
+  }
+
+  return {
+    frameHeight,
+    glassType,
+    system: project.system,
+    segmentCount: segCount,
+    sides,
+    parking: planParking(project.guidePoints, project.edgeConfigs, closed, project.system),
+    totals: computeTotals(sides),
+  };
+}
+
+/** Settings every chain of a project is computed with */
+export type ProjectSettings = Omit<ProjectInput, 'guidePoints' | 'closed' | 'edgeConfigs'>;
+
+/** Every chain computed separately, in chain order */
+export function computeChainProjects(chains: GuideChain[], settings: ProjectSettings): ChainProject[] {
+  return chains.map((chain) => ({
+    chainId: chain.id,
+    name: chain.name,
+    closed: chain.closed,
+    project: computeProject({
+      ...settings,
+      guidePoints: chain.points,
+      closed: chain.closed,
+      edgeConfigs: chain.edgeConfigs,
+    }),
+  }));
+}
+
+function computeTotals(sides: ProjectSide[]): ProjectTotals {
+  const glazing = sides.filter((s) => s.wallOrGlazingStatus === 'glazing');
+  const sum = (fn: (s: ProjectSide) => number) =>
+    round1(glazing.reduce((acc, s) => acc + fn(s), 0));
+
+  return {
+    sideCount: sides.length,
+    glazingSideCount: glazing.length,
+    panelCount: glazing.reduce((acc, s) => acc + s.panelFittings.length, 0),
+    glazingLength: sum((s) => s.edgeLength),
+    moduleLength: sum((s) => s.totalModuleLength),
+    cutLengths: {
+      underskena: sum((s) => s.cutLengths.underskena),
+      overskena: sum((s) => s.cutLengths.overskena),
+      overhallare: sum((s) => s.cutLengths.overhallare),
+      coverprofile: sum((s) => s.cutLengths.coverprofile),
+    },
+    glass: sumGlass(glazing.flatMap((s) => s.glass)),
+  };
+}
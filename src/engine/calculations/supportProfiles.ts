@@ -0,0 +1,152 @@
+/**
+ * Support profiles under the glazing — bärlina and bottenprofil.
+ *
+ * Both follow the guide chain under every glazing side. They are centred on
+ * the guide, so at an outside corner the outer face (left of travel) grows
+ * and the inner face shrinks by offsetDueToMiter(width / 2) — the same miter
+ * rule as the glazing profiles in 060_screw_and_guide.rb. At an inside
+ * corner it is the other way round. Ends at a wall or a free end are cut
+ * square at the guide vertex.
+ *
+ * The bärlina carries the lower rail, so its top is at Mellanstycke; the
+ * bottenprofil stands on Understycke.
+ */
+
+import type { Point2D } from '../../types/geometry';
+import type { EdgeConfig } from '../../types/edge';
+import type { LevelsConfig } from '../../types/levels';
+import type { BarlinaType, BottenprofilType, ProfileConfig } from '../../types/profile';
+import {
+  getSegmentGeometry,
+  isConnectedToWall,
+  miterCutAngle,
+  offsetDueToMiter,
+} from './edgeCalculations';
+import { glazingSide, segmentEndIndex } from '../geometry/guideChain';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type SupportProfileKind = 'barlina' | 'bottenprofil';
+
+export interface SupportProfileSection {
+  /** Across the guide (mm) */
+  width: number;
+  height: number;
+}
+
+export interface SupportProfilePiece {
+  kind: SupportProfileKind;
+  profileName: string;
+  sideNumber: number;
+  /** Long-point cut length — the longer of the two faces (mm) */
+  length: number;
+  cutAngleLeft: number;
+  cutAngleRight: number;
+  /** Plan outline: outer start, outer end, inner end, inner start (mm) */
+  outline: Point2D[];
+  /** Height of the underside (mm) */
+  bottom: number;
+  section: SupportProfileSection;
+}
+
+// ─── Sections ────────────────────────────────────────────────
+
+export const BARLINA_SECTIONS: Record<Exclude<BarlinaType, 'Ingen'>, SupportProfileSection> = {
+  '100x100': { width: 100, height: 100 },
+  '50x100x100': { width: 100, height: 100 },
+  '100x50': { width: 100, height: 50 },
+  'L-Stal': { width: 100, height: 100 },
+};
+
+export const BOTTENPROFIL_SECTIONS: Record<Exclude<BottenprofilType, 'Ingen'>, SupportProfileSection> = {
+  '50x30': { width: 50, height: 30 },
+  '50x50': { width: 50, height: 50 },
+};
+
+// ─── Geometry ────────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+function buildPiece(
+  kind: SupportProfileKind,
+  profileName: string,
+  section: SupportProfileSection,
+  bottom: number,
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  segIndex: number,
+  closed: boolean,
+): SupportProfilePiece {
+  const { edgeLength, startAngle, endAngle } = getSegmentGeometry(guidePoints, segIndex, closed);
+  // Square cut where the side meets a wall
+  const leftAngle = isConnectedToWall(edgeConfigs, segIndex, 'start', closed) ? 0 : startAngle;
+  const rightAngle = isConnectedToWall(edgeConfigs, segIndex, 'end', closed) ? 0 : endAngle;
+
+  const half = section.width / 2;
+  const miterLeft = offsetDueToMiter(half, leftAngle);
+  const miterRight = offsetDueToMiter(half, rightAngle);
+
+  const start = guidePoints[segIndex];
+  const end = guidePoints[segmentEndIndex(guidePoints, segIndex)];
+  const ux = (end.x - start.x) / edgeLength;
+  const uy = (end.y - start.y) / edgeLength;
+  // Normal towards the outside — the glazing side of the chain
+  const side = glazingSide(guidePoints);
+  const nx = -uy * side;
+  const ny = ux * side;
+  const at = (along: number, across: number): Point2D => ({
+    x: start.x + ux * along + nx * across,
+    y: start.y + uy * along + ny * across,
+  });
+
+  return {
+    kind,
+    profileName,
+    sideNumber: segIndex + 1,
+    length: round1(edgeLength + Math.abs(miterLeft + miterRight)),
+    cutAngleLeft: miterCutAngle(leftAngle),
+    cutAngleRight: miterCutAngle(rightAngle),
+    outline: [
+      at(-miterLeft, half),
+      at(edgeLength + miterRight, half),
+      at(edgeLength - miterRight, -half),
+      at(miterLeft, -half),
+    ],
+    bottom,
+    section,
+  };
+}
+
+/** Bärlina and bottenprofil pieces for one side; [] for walls or when both are off */
+export function buildSupportProfiles(
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  segIndex: number,
+  levels: LevelsConfig,
+  profileConfig: ProfileConfig,
+  closed = false,
+): SupportProfilePiece[] {
+  if (edgeConfigs[segIndex]?.wallOrGlazingStatus === 'wall') return [];
+  const { edgeLength } = getSegmentGeometry(guidePoints, segIndex, closed);
+  if (edgeLength < 1e-10) return [];
+
+  const pieces: SupportProfilePiece[] = [];
+
+  if (profileConfig.barlinaType !== 'Ingen') {
+    const section = BARLINA_SECTIONS[profileConfig.barlinaType];
+    const bottom = levels.levels.Mellanstycke.zPosition - section.height;
+    pieces.push(
+      buildPiece('barlina', profileConfig.barlinaType, section, bottom, guidePoints, edgeConfigs, segIndex, closed),
+    );
+  }
+
+  if (profileConfig.bottenprofilType !== 'Ingen') {
+    const section = BOTTENPROFIL_SECTIONS[profileConfig.bottenprofilType];
+    const bottom = levels.levels.Understycke.zPosition;
+    pieces.push(
+      buildPiece('bottenprofil', profileConfig.bottenprofilType, section, bottom, guidePoints, edgeConfigs, segIndex, closed),
+    );
+  }
+
+  return pieces;
+}
@@ -0,0 +1,367 @@
+import type { Point2D } from '../../types/geometry';
+import type { GuidelineEdge, GuidelineVertex } from '../../types/guideline';
+import type { GuideConstraint, ConstraintStatus, IndexedGuideConstraint } from '../../types/constraint';
+import { signedAngleBetweenSegments } from './offsetChain';
+import { getSegmentCount, segmentEndIndex, vertexNeighbours } from './guideChain';
+
+/**
+ * Constraint solver for the guide polyline.
+ *
+ * The unknowns are the point coordinates; every lock contributes residuals
+ * in mm (angles are weighted by the length of their arms, so a degree at a
+ * long side counts for more than at a short one). Gauss–Newton with
+ * minimum-norm steps moves the points as little as possible, so whatever is
+ * not locked stays close to where it was drawn.
+ *
+ * The status is read from the rank of the constraint Jacobian: rows beyond
+ * the rank are redundant locks, columns beyond it are free dimensions. The
+ * three rigid motions (slide and turn in the plan) are not counted as free
+ * unless a position lock pins them.
+ */
+
+/** A lock counts as met within this (mm) */
+export const CONSTRAINT_TOLERANCE = 0.1;
+
+const MAX_ITERATIONS = 100;
+/** Finite-difference step for the Jacobian (mm) */
+const DIFF_STEP = 1e-3;
+/** Pivots below this fraction of the largest Jacobian entry count as zero */
+const RANK_EPSILON = 1e-7;
+
+// ─── Keys, resolving and measuring ───────────────────────────
+
+/** Identifies what a lock holds, regardless of its value */
+export function constraintKey(c: GuideConstraint): string {
+  switch (c.kind) {
+    case 'length': return `length:${c.edgeId}`;
+    case 'angle': return `angle:${c.vertexId}`;
+    case 'position': return `position:${c.vertexId}`;
+    case 'distance': return `distance:${[c.fromVertexId, c.toVertexId].sort().join('-')}`;
+  }
+}
+
+/**
+ * The lock by index in the current chain; null when its points or side are
+ * gone, or its point is no longer a corner.
+ */
+function resolve(
+  points: GuidelineVertex[],
+  edges: GuidelineEdge[],
+  closed: boolean,
+  c: GuideConstraint,
+): IndexedGuideConstraint | null {
+  const indexOf = (id: string) => points.findIndex((p) => p.id === id);
+  switch (c.kind) {
+    case 'length': {
+      const segIndex = edges.findIndex((e) => e.id === c.edgeId);
+      return segIndex >= 0 && segIndex < getSegmentCount(points, closed) ? { kind: 'length', segIndex, value: c.value } : null;
+    }
+    case 'angle': {
+      const vertexIndex = indexOf(c.vertexId);
+      return vertexIndex >= 0 && vertexNeighbours(points, vertexIndex, closed)
+        ? { kind: 'angle', vertexIndex, value: c.value }
+        : null;
+    }
+    case 'position': {
+      const vertexIndex = indexOf(c.vertexId);
+      return vertexIndex >= 0 ? { kind: 'position', vertexIndex, x: c.x, y: c.y } : null;
+    }
+    case 'distance': {
+      const fromIndex = indexOf(c.fromVertexId);
+      const toIndex = indexOf(c.toVertexId);
+      return fromIndex >= 0 && toIndex >= 0 && fromIndex !== toIndex
+        ? { kind: 'distance', fromIndex, toIndex, value: c.value }
+        : null;
+    }
+  }
+}
+
+/** Locks that still refer to existing points, sides and corners */
+export function validConstraints(
+  constraints: GuideConstraint[],
+  points: GuidelineVertex[],
+  edges: GuidelineEdge[],
+  closed: boolean,
+): GuideConstraint[] {
+  return constraints.filter((c) => resolve(points, edges, closed, c) !== null);
+}
+
+/** Locks that no longer apply are left out */
+function resolveAll(
+  points: GuidelineVertex[],
+  edges: GuidelineEdge[],
+  closed: boolean,
+  constraints: GuideConstraint[],
+): IndexedGuideConstraint[] {
+  return constraints.flatMap((c) => resolve(points, edges, closed, c) ?? []);
+}
+
+/** Current length, angle or distance of a resolved lock */
+function currentValue(
+  points: Point2D[],
+  closed: boolean,
+  c: Exclude<IndexedGuideConstraint, { kind: 'position' }>,
+): number {
+  switch (c.kind) {
+    case 'length': {
+      const s = points[c.segIndex];
+      const e = points[segmentEndIndex(points, c.segIndex)];
+      return Math.hypot(e.x - s.x, e.y - s.y);
+    }
+    case 'angle': {
+      const nb = vertexNeighbours(points, c.vertexIndex, closed);
+      return nb ? signedAngleBetweenSegments(points[nb.prev], points[c.vertexIndex], points[nb.next]) : 0;
+    }
+    case 'distance': {
+      const a = points[c.fromIndex];
+      const b = points[c.toIndex];
+      return Math.hypot(b.x - a.x, b.y - a.y);
+    }
+  }
+}
+
+/** The same lock with its value taken from the current geometry; null if it does not apply */
+export function measureConstraint(
+  points: GuidelineVertex[],
+  edges: GuidelineEdge[],
+  closed: boolean,
+  c: GuideConstraint,
+): GuideConstraint | null {
+  if (c.kind === 'position') {
+    const p = points.find((v) => v.id === c.vertexId);
+    return p ? { ...c, x: p.x, y: p.y } : null;
+  }
+  const indexed = resolve(points, edges, closed, c);
+  if (!indexed || indexed.kind === 'position') return null;
+  return { ...c, value: currentValue(points, closed, indexed) };
+}
+
+/** Locks of a chain walked the other way — every corner turns the other way */
+export function reversedConstraints(constraints: GuideConstraint[]): GuideConstraint[] {
+  return constraints.map((c) => (c.kind === 'angle' ? { ...c, value: -c.value } : c));
+}
+
+// ─── Residuals ───────────────────────────────────────────────
+
+/** Turn at a vertex (radians, + left) — unlike the corner angle it is continuous through a straight line */
+function turnAt(prev: Point2D, curr: Point2D, next: Point2D): number {
+  const ax = curr.x - prev.x, ay = curr.y - prev.y;
+  const bx = next.x - curr.x, by = next.y - curr.y;
+  return Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+}
+
+/** Signed corner angle (degrees) as a turn (radians) */
+function angleToTurn(angle: number): number {
+  return ((angle > 0 ? angle - 180 : angle + 180) * Math.PI) / 180;
+}
+
+const wrap = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+/** Mean arm length at each angle lock, from the starting geometry */
+function angleWeights(points: Point2D[], closed: boolean, constraints: IndexedGuideConstraint[]): number[] {
+  return constraints.map((c) => {
+    if (c.kind !== 'angle') return 1;
+    const nb = vertexNeighbours(points, c.vertexIndex, closed);
+    if (!nb) return 1;
+    const v = points[c.vertexIndex];
+    const arms = Math.hypot(points[nb.prev].x - v.x, points[nb.prev].y - v.y)
+      + Math.hypot(points[nb.next].x - v.x, points[nb.next].y - v.y);
+    return Math.max(arms / 2, 1);
+  });
+}
+
+function residualsOf(
+  points: Point2D[],
+  closed: boolean,
+  c: IndexedGuideConstraint,
+  weight: number,
+): number[] {
+  switch (c.kind) {
+    case 'length':
+    case 'distance':
+      return [currentValue(points, closed, c) - c.value];
+    case 'angle': {
+      const nb = vertexNeighbours(points, c.vertexIndex, closed);
+      if (!nb) return [0];
+      const turn = turnAt(points[nb.prev], points[c.vertexIndex], points[nb.next]);
+      return [wrap(turn - angleToTurn(c.value)) * weight];
+    }
+    case 'position': {
+      const p = points[c.vertexIndex];
+      return [p.x - c.x, p.y - c.y];
+    }
+  }
+}
+
+function allResiduals(
+  points: Point2D[],
+  closed: boolean,
+  constraints: IndexedGuideConstraint[],
+  weights: number[],
+): number[] {
+  return constraints.flatMap((c, i) => residualsOf(points, closed, c, weights[i]));
+}
+
+/** Rows = residuals, columns = x0, y0, x1, y1, … */
+function jacobian(
+  points: Point2D[],
+  closed: boolean,
+  constraints: IndexedGuideConstraint[],
+  weights: number[],
+): number[][] {
+  const rows = allResiduals(points, closed, constraints, weights).length;
+  const J = Array.from({ length: rows }, () => new Array<number>(points.length * 2).fill(0));
+  for (let v = 0; v < points.length; v++) {
+    for (const axis of ['x', 'y'] as const) {
+      const nudged = (d: number) => points.map((p, i) => (i === v ? { ...p, [axis]: p[axis] + d } : p));
+      const plus = allResiduals(nudged(DIFF_STEP), closed, constraints, weights);
+      const minus = allResiduals(nudged(-DIFF_STEP), closed, constraints, weights);
+      const col = v * 2 + (axis === 'x' ? 0 : 1);
+      for (let r = 0; r < rows; r++) J[r][col] = (plus[r] - minus[r]) / (2 * DIFF_STEP);
+    }
+  }
+  return J;
+}
+
+// ─── Linear algebra ──────────────────────────────────────────
+
+/** Solves A·x = b by Gaussian elimination with partial pivoting; A is square */
+function solveLinear(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    const p = M[col][col];
+    if (Math.abs(p) < 1e-15) continue;
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / p;
+      if (f === 0) continue;
+      for (let k = col; k <= n; k++) M[r][k] -= f * M[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let k = r + 1; k < n; k++) sum -= M[r][k] * x[k];
+    x[r] = Math.abs(M[r][r]) < 1e-15 ? 0 : sum / M[r][r];
+  }
+  return x;
+}
+
+const largestEntry = (A: number[][]) => Math.max(0, ...A.flat().map(Math.abs));
+
+/** Pivots at or below `zero` count as zero */
+function matrixRank(A: number[][], zero: number): number {
+  if (A.length === 0) return 0;
+  const M = A.map((row) => [...row]);
+  const cols = M[0].length;
+  let rank = 0;
+  for (let col = 0; col < cols && rank < M.length; col++) {
+    let pivot = rank;
+    for (let r = rank + 1; r < M.length; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) <= zero) continue;
+    [M[rank], M[pivot]] = [M[pivot], M[rank]];
+    for (let r = rank + 1; r < M.length; r++) {
+      const f = M[r][col] / M[rank][col];
+      for (let k = col; k < cols; k++) M[r][k] -= f * M[rank][k];
+    }
+    rank++;
+  }
+  return rank;
+}
+
+const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+
+// ─── Solve ───────────────────────────────────────────────────
+
+export interface SolveResult {
+  /** Same vertices and IDs, moved */
+  points: GuidelineVertex[];
+  /** Every lock is met */
+  converged: boolean;
+}
+
+/** Move the points as little as possible until every lock is met */
+export function solveGuide(
+  points: GuidelineVertex[],
+  edges: GuidelineEdge[],
+  closed: boolean,
+  locks: GuideConstraint[],
+): SolveResult {
+  const constraints = resolveAll(points, edges, closed, locks);
+  const weights = angleWeights(points, closed, constraints);
+  let current = points.map((p) => ({ ...p }));
+  let r = allResiduals(current, closed, constraints, weights);
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    if (r.every((v) => Math.abs(v) <= CONSTRAINT_TOLERANCE / 10)) break;
+    const J = jacobian(current, closed, constraints, weights);
+    // Minimum-norm step: Δ = −Jᵀ (J Jᵀ + μI)⁻¹ r — damping keeps redundant locks solvable
+    const JJt = J.map((a) => J.map((b) => a.reduce((sum, v, k) => sum + v * b[k], 0)));
+    const damping = 1e-9 * Math.max(1, ...JJt.map((row, i) => row[i]));
+    JJt.forEach((row, i) => { row[i] += damping; });
+    const y = solveLinear(JJt, r);
+    const step = current.flatMap((_, v) => [0, 1].map((axis) =>
+      -J.reduce((sum, row, k) => sum + row[v * 2 + axis] * y[k], 0)));
+
+    // Halve the step until the residual shrinks
+    let scale = 1;
+    let accepted = false;
+    for (let tries = 0; tries < 20; tries++, scale /= 2) {
+      const trial = current.map((p, v) => ({ ...p, x: p.x + step[v * 2] * scale, y: p.y + step[v * 2 + 1] * scale }));
+      const rt = allResiduals(trial, closed, constraints, weights);
+      if (norm(rt) < norm(r)) {
+        current = trial;
+        r = rt;
+        accepted = true;
+        break;
+      }
+    }
+    if (!accepted) break;
+  }
+
+  return { points: current, converged: r.every((v) => Math.abs(v) <= CONSTRAINT_TOLERANCE) };
+}
+
+// ─── Status ──────────────────────────────────────────────────
+
+/** How well the locks pin the current geometry */
+export function constraintStatus(
+  points: GuidelineVertex[],
+  edges: GuidelineEdge[],
+  closed: boolean,
+  locks: GuideConstraint[],
+): ConstraintStatus {
+  const constraints = resolveAll(points, edges, closed, locks);
+  const weights = angleWeights(points, closed, constraints);
+  const unsatisfied = locks.flatMap((lock, i) => {
+    const c = resolve(points, edges, closed, lock);
+    if (!c) return [];
+    const weight = angleWeights(points, closed, [c])[0];
+    return residualsOf(points, closed, c, weight).some((v) => Math.abs(v) > CONSTRAINT_TOLERANCE) ? [i] : [];
+  });
+
+  const J = jacobian(points, closed, constraints, weights);
+  const zero = RANK_EPSILON * Math.max(largestEntry(J), 1);
+  const rank = matrixRank(J, zero);
+
+  // Rigid motions of the whole chain: slide in x, slide in y, turn about the centroid
+  const n = points.length;
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / Math.max(n, 1);
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / Math.max(n, 1);
+  const size = Math.max(1, ...points.map((p) => Math.hypot(p.x - cx, p.y - cy)));
+  const motions = [
+    points.flatMap(() => [1, 0]),
+    points.flatMap(() => [0, 1]),
+    points.flatMap((p) => [-(p.y - cy) / size, (p.x - cx) / size]),
+  ];
+  const JR = J.map((row) => motions.map((m) => row.reduce((sum, v, k) => sum + v * m[k], 0)));
+  const freeRigid = 3 - matrixRank(JR, zero);
+
+  const freeDof = Math.max(0, n * 2 - rank - freeRigid);
+  const redundant = J.length - rank;
+  const state = unsatisfied.length > 0 ? 'conflict' : redundant > 0 ? 'over' : freeDof > 0 ? 'under' : 'well';
+  return { state, freeDof, redundant, unsatisfied };
+}
@@ -0,0 +1,91 @@
+import type { Point2D } from '../../types/geometry';
+import { signedAngleBetweenSegments } from './offsetChain';
+
+/**
+ * Guide chain topology — open polyline or closed loop.
+ *
+ * An open chain of n points has n − 1 segments and two free ends. A closed
+ * chain joins the last point back to the first, so it has n segments and
+ * every vertex is a corner. Segment i always runs from point i to point
+ * (i + 1) mod n, so the same indexing works for both.
+ */
+
+/** A loop needs at least a triangle. */
+export const MIN_CLOSED_CHAIN_POINTS = 3;
+
+export function canCloseChain(points: Point2D[]): boolean {
+  return points.length >= MIN_CLOSED_CHAIN_POINTS;
+}
+
+/** Number of segments in a chain of guide points. */
+export function getSegmentCount(points: Point2D[], closed = false): number {
+  if (closed && canCloseChain(points)) return points.length;
+  return points.length > 1 ? points.length - 1 : 0;
+}
+
+/** Index of the point a segment ends at — wraps to 0 for the closing segment. */
+export function segmentEndIndex(points: Point2D[], segIndex: number): number {
+  return (segIndex + 1) % points.length;
+}
+
+/** Neighbouring vertex indices, or null at a free end of an open chain. */
+export function vertexNeighbours(
+  points: Point2D[],
+  vertexIndex: number,
+  closed = false,
+): { prev: number; next: number } | null {
+  const n = points.length;
+  if (closed && canCloseChain(points)) {
+    return { prev: (vertexIndex - 1 + n) % n, next: (vertexIndex + 1) % n };
+  }
+  if (vertexIndex <= 0 || vertexIndex >= n - 1) return null;
+  return { prev: vertexIndex - 1, next: vertexIndex + 1 };
+}
+
+/**
+ * Twice the signed area of the chain, an open chain closed back to its first
+ * point — positive when it runs counter-clockwise (y up).
+ */
+export function chainSignedArea(points: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area;
+}
+
+/**
+ * Side of the direction of travel the glazing is on: 1 left, −1 right.
+ * The glazing faces away from the building, outside the turn of the chain,
+ * so it follows the winding — on the left of a clockwise chain — and a chain
+ * drawn in either direction gets the same corners.
+ */
+export function glazingSide(points: Point2D[]): 1 | -1 {
+  return chainSignedArea(points) > 0 ? -1 : 1;
+}
+
+/**
+ * Signed corner angle at a vertex — positive at outside corners, negative at
+ * inside corners (see signedAngleBetweenSegments); 0 at a free end.
+ */
+export function vertexAngle(points: Point2D[], vertexIndex: number, closed = false): number {
+  const nb = vertexNeighbours(points, vertexIndex, closed);
+  if (!nb) return 0;
+  return signedAngleBetweenSegments(points[nb.prev], points[vertexIndex], points[nb.next], glazingSide(points));
+}
+
+/** Inside corner — the chain turns towards the glazing side. */
+export function isInsideCorner(angle: number): boolean {
+  return angle < 0;
+}
+
+/** Indices of every vertex that is a corner (has two segments). */
+export function cornerVertexIndices(points: Point2D[], closed = false): number[] {
+  const indices: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (vertexNeighbours(points, i, closed)) indices.push(i);
+  }
+  return indices;
+}
@@ -0,0 +1,132 @@
+import type { Point2D } from '../../types/geometry';
+import type { GuidelineEdge, GuidelineVertex } from '../../types/guideline';
+import type { EdgeConfig } from '../../types/edge';
+import type { Panel } from '../../types/panel';
+import type { GuideChain } from '../../types/chain';
+import type { GuideConstraint, IndexedGuideConstraint } from '../../types/constraint';
+import { getSegmentCount, segmentEndIndex } from './guideChain';
+
+/**
+ * Guide graph — keeping side data on its side.
+ *
+ * Vertices carry an ID and every edge config names the two vertices it runs
+ * between. After any change to the points the edge configs are matched to
+ * the segments by those IDs, never by position in the array: a side keeps
+ * its panels when a point is inserted elsewhere, a side walked the other way
+ * round gets its own panels mirrored, and a segment no edge runs along gets
+ * a fresh glazing edge.
+ */
+
+let idCounter = 0;
+
+/** Unique across sessions — time based, with a counter for IDs made in the same millisecond */
+export function newGuideId(prefix: 'v' | 'e'): string {
+  idCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter.toString(36)}`;
+}
+
+export function createVertex(pt: Point2D): GuidelineVertex {
+  return { id: newGuideId('v'), x: pt.x, y: pt.y };
+}
+
+export function createEdgeConfig(
+  startVertexId: string,
+  endVertexId: string,
+  wallOrGlazingStatus: EdgeConfig['wallOrGlazingStatus'] = 'glazing',
+): EdgeConfig {
+  return { id: newGuideId('e'), startVertexId, endVertexId, wallOrGlazingStatus, panels: [] };
+}
+
+/** Panels of a side seen from its other end — order, openings and offsets flip */
+function mirrorPanels(panels: Panel[]): Panel[] {
+  return [...panels].reverse().map((p, i) => ({
+    ...p,
+    name: `${i + 1}`,
+    opening: p.opening === '>' ? '<' : p.opening === '<' ? '>' : p.opening,
+    offsetLeft: p.offsetRight,
+    offsetRight: p.offsetLeft,
+  }));
+}
+
+/** The same side walked the other way; `length` places the door from the new start */
+export function mirrorEdgeConfig(edge: EdgeConfig, length: number): EdgeConfig {
+  const mirrored: EdgeConfig = {
+    ...edge,
+    startVertexId: edge.endVertexId,
+    endVertexId: edge.startVertexId,
+    panels: mirrorPanels(edge.panels),
+  };
+  if (edge.door) mirrored.door = { ...edge.door, offset: length - edge.door.offset - edge.door.width };
+  return mirrored;
+}
+
+/** One edge config per segment, found by the vertex IDs at its ends */
+export function matchEdgeConfigsToSegments(
+  guidePoints: GuidelineVertex[],
+  edgeConfigs: EdgeConfig[],
+  closed = false,
+): EdgeConfig[] {
+  const synced: EdgeConfig[] = [];
+  for (let i = 0; i < getSegmentCount(guidePoints, closed); i++) {
+    const start = guidePoints[i];
+    const end = guidePoints[segmentEndIndex(guidePoints, i)];
+    const same = edgeConfigs.find((e) => e.startVertexId === start.id && e.endVertexId === end.id);
+    if (same) {
+      synced.push(same);
+      continue;
+    }
+    const reversed = edgeConfigs.find((e) => e.startVertexId === end.id && e.endVertexId === start.id);
+    synced.push(reversed
+      ? mirrorEdgeConfig(reversed, Math.hypot(end.x - start.x, end.y - start.y))
+      : createEdgeConfig(start.id, end.id));
+  }
+  return synced;
+}
+
+// ─── Saves from before the graph ─────────────────────────────
+
+/** A chain as saved before the guide graph — points, sides and locks by index */
+export interface IndexedChain extends Omit<GuideChain, 'points' | 'edgeConfigs' | 'constraints'> {
+  points: (Point2D & { id?: string })[];
+  edgeConfigs: (Omit<EdgeConfig, keyof GuidelineEdge> & Partial<GuidelineEdge>)[];
+  constraints?: (GuideConstraint | IndexedGuideConstraint)[];
+}
+
+function isIndexed(c: GuideConstraint | IndexedGuideConstraint): c is IndexedGuideConstraint {
+  return 'segIndex' in c || 'vertexIndex' in c || 'fromIndex' in c;
+}
+
+/** Give an index-addressed chain its IDs; chains that have them come back unchanged */
+export function migrateChainToGraph(chain: IndexedChain): GuideChain {
+  const points = chain.points.map((p) => ({ ...p, id: p.id ?? newGuideId('v') }));
+  const edgeConfigs = chain.edgeConfigs.slice(0, getSegmentCount(points, chain.closed)).map((e, i) => ({
+    ...e,
+    id: e.id ?? newGuideId('e'),
+    startVertexId: e.startVertexId ?? points[i].id,
+    endVertexId: e.endVertexId ?? points[segmentEndIndex(points, i)].id,
+  }));
+  const constraints = (chain.constraints ?? []).flatMap((c): GuideConstraint[] => {
+    if (!isIndexed(c)) return [c];
+    const vertex = (i: number) => points[i]?.id;
+    switch (c.kind) {
+      case 'length': {
+        const edgeId = edgeConfigs[c.segIndex]?.id;
+        return edgeId ? [{ kind: 'length', edgeId, value: c.value }] : [];
+      }
+      case 'angle': {
+        const vertexId = vertex(c.vertexIndex);
+        return vertexId ? [{ kind: 'angle', vertexId, value: c.value }] : [];
+      }
+      case 'position': {
+        const vertexId = vertex(c.vertexIndex);
+        return vertexId ? [{ kind: 'position', vertexId, x: c.x, y: c.y }] : [];
+      }
+      case 'distance': {
+        const fromVertexId = vertex(c.fromIndex);
+        const toVertexId = vertex(c.toIndex);
+        return fromVertexId && toVertexId ? [{ kind: 'distance', fromVertexId, toVertexId, value: c.value }] : [];
+      }
+    }
+  });
+  return { ...chain, points, edgeConfigs, constraints };
+}
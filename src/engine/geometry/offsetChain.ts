@@ -39,22 +39,26 @@ function perpendicular(dx: number, dy: number): Point2D {
  * @param offsetDistance - Perpendicular offset distance (negative = right side)
  * @param startInset - Distance to shorten at start
  * @param endInset - Distance to shorten at end
- * @returns Offset polyline vertices (mm)
+ * @param closed - Closed loop: every vertex is a corner and no insets apply
+ * @returns Offset polyline vertices (mm); a closed loop repeats its first point last
  */
 export function calculateOffsetPoints(
   points: Point2D[],
   offsetDistance: number,
   startInset: number,
   endInset: number,
+  closed = false,
 ): Point2D[] {
   if (points.length < 2) return [];
+  const isLoop = closed && points.length >= 3;
+  const segCount = isLoop ? points.length : points.length - 1;
 
   // Calculate offset segments (each segment offset perpendicular)
   const offsetSegments: { start: Point2D; end: Point2D; dx: number; dy: number }[] = [];
 
-  for (let i = 0; i < points.length - 1; i++) {
+  for (let i = 0; i < segCount; i++) {
     const p1 = points[i];
-    const p2 = points[i + 1];
+    const p2 = points[(i + 1) % points.length];
     const dx = p2.x - p1.x;
     const dy = p2.y - p1.y;
     const perp = perpendicular(dx, dy);
@@ -76,6 +80,23 @@ export function calculateOffsetPoints(
   // Build offset points by intersecting consecutive offset segments
   const result: Point2D[] = [];
 
+  if (isLoop) {
+    // Vertex i joins the segment before it (wrapping) and segment i
+    for (let i = 0; i < segCount; i++) {
+      const seg1 = offsetSegments[(i - 1 + segCount) % segCount];
+      const seg2 = offsetSegments[i];
+      const intersection = lineLineIntersection2D(
+        seg1.start,
+        { x: seg1.dx, y: seg1.dy },
+        seg2.start,
+        { x: seg2.dx, y: seg2.dy },
+      );
+      result.push(intersection ?? seg2.start);
+    }
+    result.push(result[0]);
+    return result;
+  }
+
   // First point: offset of first segment start, with inset
   const firstSeg = offsetSegments[0];
   const firstLen = distance2D(firstSeg.start.x, firstSeg.start.y, firstSeg.end.x, firstSeg.end.y);
@@ -147,3 +168,24 @@ export function angleBetweenSegments(
   const cosAngle = Math.max(-1, Math.min(1, dot / (len1 * len2)));
   return Math.acos(cosAngle) * (180 / Math.PI);
 }
+
+/**
+ * Signed corner angle at a shared vertex.
+ * Magnitude is the interior angle from angleBetweenSegments; the sign tells
+ * which way the chain turns relative to the glazing, on the left of travel
+ * by default (glazingSide 1) or on the right (−1):
+ *   +  turn away from the glazing — outside corner, the glazing wraps around
+ *   −  turn towards the glazing   — inside corner, the glazing folds in (e.g. a niche)
+ * A straight continuation is +180.
+ */
+export function signedAngleBetweenSegments(
+  p1: Point2D,
+  vertex: Point2D,
+  p3: Point2D,
+  glazingSide: 1 | -1 = 1,
+): number {
+  const angle = angleBetweenSegments(p1, vertex, p3);
+  const cross =
+    (vertex.x - p1.x) * (p3.y - vertex.y) - (vertex.y - p1.y) * (p3.x - vertex.x);
+  return cross * glazingSide > 1e-9 ? -angle : angle;
+}
@@ -0,0 +1,175 @@
+/**
+ * Product system catalog — versioned definitions of the dimensional rules.
+ *
+ * Every definition is checked by parseProductSystem before use, so a bad
+ * table shows up as a list of readable errors instead of odd panel sizes.
+ * The engine takes the active system as a parameter; a project stores the
+ * id of its system in ProjectConfig.productSystemId.
+ */
+
+import type { EndCapType, LockType } from '../../types/panel';
+import type { ProductSystem } from '../../types/productSystem';
+import { GEN1 } from './systems/gen1';
+
+// ─── Schema ──────────────────────────────────────────────────
+
+/** Definition format this build understands */
+export const PRODUCT_SYSTEM_SCHEMA_VERSION = 1;
+
+export const END_CAP_TYPES: EndCapType[] = [
+  'PL-160', 'PL-170', 'PL-180', 'PL-190', 'PL-200',
+  'PL-210', 'PL-220', 'PL-220P02', 'PL-230', 'PL-240',
+];
+
+/** Locks the fitting calculation deducts — every system must give their width */
+const REQUIRED_LOCK_WIDTHS: NonNullable<LockType>[] = [
+  '90 graderslock hane', '90 graderslock hona',
+  '45 graderslock hane', '45 graderslock hona',
+  'Variabelt andlock',
+  'Slutlock hane', 'Slutlock hona',
+  'Moteslock hane', 'Moteslock hona',
+  'Overlas dubbel', 'Overlas',
+  'Undre las dubbel', 'Undre las',
+];
+
+export type ProductSystemResult =
+  | { ok: true; system: ProductSystem }
+  | { ok: false; errors: string[] };
+
+// ─── Validation ──────────────────────────────────────────────
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isNumberList = (v: unknown): v is number[] => Array.isArray(v) && v.every(isNumber);
+
+/** Check that raw data is a complete, consistent product system definition */
+export function parseProductSystem(raw: unknown): ProductSystemResult {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { ok: false, errors: ['Definitionen är inte ett objekt'] };
+
+  if (raw.schemaVersion !== PRODUCT_SYSTEM_SCHEMA_VERSION) {
+    errors.push(`schemaVersion ${String(raw.schemaVersion)} stöds inte (${PRODUCT_SYSTEM_SCHEMA_VERSION})`);
+  }
+  for (const key of ['id', 'name', 'version'] as const) {
+    if (typeof raw[key] !== 'string' || raw[key] === '') errors.push(`${key} saknas`);
+  }
+
+  const numbers = (path: string, keys: string[]) => {
+    const group = raw[path];
+    if (!isRecord(group)) {
+      errors.push(`${path} saknas`);
+      return;
+    }
+    for (const key of keys) {
+      if (!isNumber(group[key])) errors.push(`${path}.${key} är inte ett tal`);
+    }
+  };
+
+  // Interpolation needs matching columns with angles in descending order
+  const table = (path: string, columns: string[]) => {
+    const group = raw[path];
+    if (!isRecord(group)) {
+      errors.push(`${path} saknas`);
+      return;
+    }
+    const { angles } = group;
+    if (!isNumberList(angles) || angles.length < 2) {
+      errors.push(`${path}.angles behöver minst två vinklar`);
+      return;
+    }
+    if (angles.some((a, i) => i > 0 && a >= angles[i - 1])) {
+      errors.push(`${path}.angles måste vara fallande`);
+    }
+    for (const key of columns) {
+      const list = group[key];
+      if (!isNumberList(list) || list.length !== angles.length) {
+        errors.push(`${path}.${key} ska ha ett tal per vinkel`);
+      }
+    }
+  };
+
+  numbers('lockWidths', REQUIRED_LOCK_WIDTHS);
+  numbers('glassOffsets', ['glassHeight', 'glassModuleHeight', 'pcComponent']);
+  numbers('cornerOffsets', [
+    'angleZero', 'wall90', 'wall90Profile', 'wallTable', 'wallTableProfile',
+    'positiveAngleFactor', 'negativeAngleFactor', 'addend',
+  ]);
+  const wallAngles = raw.wallCornerAngles;
+  if (!isRecord(wallAngles)) {
+    errors.push('wallCornerAngles saknas');
+  } else {
+    const { min, square, max } = wallAngles;
+    if (!isNumber(min) || !isNumber(square) || !isNumber(max) || min <= 0 || square < min || max < square || max >= 180) {
+      errors.push('wallCornerAngles.min/square/max måste vara stigande mellan 0 och 180°');
+    }
+  }
+  numbers('panelOffsets', ['middle', 'passruta']);
+  numbers('frameOffsets', ['brostning', 'underljusSplit']);
+  numbers('miterDistances', ['overskena', 'overhallare', 'coverprofile']);
+  if (!isNumber(raw.coverProfileWallOffset)) errors.push('coverProfileWallOffset är inte ett tal');
+  if (!isNumber(raw.parkedPanelPitch) || raw.parkedPanelPitch <= 0) {
+    errors.push('parkedPanelPitch måste vara ett positivt tal');
+  }
+  table('offsetTables', ['wallOffsets', 'glazingOffsets']);
+  table('variableCompensation', ['values']);
+
+  const sizes = raw.panelSizes;
+  if (!isRecord(sizes)) {
+    errors.push('panelSizes saknas');
+  } else {
+    const { min, max, step, standard, freeWidthThreshold, comboTolerance } = sizes;
+    if (!isNumber(min) || !isNumber(max) || !isNumber(step) || min <= 0 || max < min || step <= 0) {
+      errors.push('panelSizes.min/max/step är ogiltiga');
+    } else if (!isNumberList(standard) || standard.length === 0) {
+      errors.push('panelSizes.standard saknas');
+    } else if (standard.some((s, i) => s < min || s > max || (i > 0 && s <= standard[i - 1]))) {
+      errors.push(`panelSizes.standard måste vara stigande inom ${min}–${max} mm`);
+    }
+    if (!isNumber(freeWidthThreshold) || freeWidthThreshold <= 0) {
+      errors.push('panelSizes.freeWidthThreshold måste vara ett positivt tal');
+    }
+    if (!isNumber(comboTolerance) || comboTolerance < 0) {
+      errors.push('panelSizes.comboTolerance får inte vara negativ');
+    }
+  }
+
+  const caps = raw.endCaps;
+  if (!isRecord(caps)) {
+    errors.push('endCaps saknas');
+  } else {
+    for (const type of END_CAP_TYPES) {
+      const cap = caps[type];
+      if (!isRecord(cap) || typeof cap.label !== 'string' || typeof cap.glb !== 'string' || !isNumber(cap.defaultGlassOffset)) {
+        errors.push(`endCaps.${type} är ofullständig`);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, system: raw as unknown as ProductSystem };
+}
+
+// ─── Catalog ─────────────────────────────────────────────────
+
+function loadBuiltInSystems(definitions: unknown[]): ProductSystem[] {
+  return definitions.map((definition) => {
+    const result = parseProductSystem(definition);
+    // A broken built-in definition is a build error, not user data
+    if (!result.ok) throw new Error(`Invalid product system: ${result.errors.join('; ')}`);
+    return result.system;
+  });
+}
+
+export const PRODUCT_SYSTEMS: ProductSystem[] = loadBuiltInSystems([GEN1]);
+
+export const DEFAULT_PRODUCT_SYSTEM = PRODUCT_SYSTEMS[0];
+
+/**
+ * System by id. Loading a project reports an unknown id (see projectFile.ts),
+ * so one here is a bug — it throws rather than computing with another system.
+ */
+export function getProductSystem(id: string): ProductSystem {
+  const system = PRODUCT_SYSTEMS.find((s) => s.id === id);
+  if (!system) throw new Error(`Unknown product system "${id}"`);
+  return system;
+}
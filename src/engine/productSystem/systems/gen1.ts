@@ -0,0 +1,160 @@
+import type { ProductSystem } from '../../../types/productSystem';
+
+/**
+ * Profile generation 1 — the values of the SketchUp Ruby plugin.
+ * Each value is documented with its source file.
+ */
+export const GEN1: ProductSystem = {
+  schemaVersion: 1,
+  id: 'gen1',
+  name: 'Profilgeneration 1',
+  version: '1.0',
+
+  // Lock width compensation values (mm) — 070_set_glas_attribute.rb
+  lockWidths: {
+    '90 graderslock hane': 11.5,
+    '90 graderslock hona': 11.5,
+    // The plugin builds 135° corners with the variable end lock and deducts
+    // its 7.9 there (070_set_glas_attribute.rb); the 45° caps keep that
+    // deduction until a PL-160…PL-190 drawing gives their own
+    '45 graderslock hane': 7.9,
+    '45 graderslock hona': 7.9,
+    'Variabelt andlock': 7.9,
+    'Slutlock hane': 25,
+    'Slutlock hona': 25,
+    'Moteslock hane': 5.0,
+    'Moteslock hona': 5.0,
+    'Overlas dubbel': 30,
+    'Overlas': 30,
+    'Undre las dubbel': 5.0,
+    'Undre las': 5.0,
+  },
+
+  // Glass height offsets (mm) — 070_set_glas_attribute.rb
+  glassOffsets: {
+    glassHeight: 210.3,
+    glassModuleHeight: 170.3,
+    pcComponent: 86,
+  },
+
+  // Interpolation tables for offset calculation — 030_Config_glazing.rb
+  offsetTables: {
+    angles: [145, 140, 135, 130, 125, 120, 115, 110, 105, 100, 95, 90],
+    wallOffsets: [83.65, 78.39, 75.21, 73.2, 72.26, 72.17, 72.8, 74.08, 75.94, 78.38, 81.39, 85],
+    glazingOffsets: [42.6, 28.44, 21.36, 12.58, 4.58, 2.89, -10.02, -16.95, -23.81, -30.71, -37.74, -45],
+  },
+
+  // Default offsets — 030_Config_glazing.rb
+  cornerOffsets: {
+    angleZero: 46.5,
+    wall90: 91.5, // 50.5 + 45 - 4
+    wall90Profile: -45,
+    wallTable: 56.5, // 50.5 + 10 - 4
+    wallTableProfile: -14, // -10 - 4
+    positiveAngleFactor: 67.89,
+    negativeAngleFactor: 57.11,
+    addend: 5.0, // 2.0 + 3.0
+  },
+
+  // Wall corner branches of calculateOffset — 030_Config_glazing.rb
+  wallCornerAngles: {
+    min: 88,
+    square: 99,
+    max: 157,
+  },
+
+  // Meeting lock and passruta offsets — 275_Multi_Guide_HTML.rb
+  panelOffsets: {
+    middle: 2.0,
+    passruta: 6.0,
+  },
+
+  // Variable compensation interpolation — 090_FrameBuilder.rb
+  variableCompensation: {
+    angles: [90, 70, 45, 44, 37, 32, 23, 5],
+    values: [2, 2, 3.5, 3.7, 4.3, 4.6, 5.2, 8],
+  },
+
+  // Frame builder offsets — 090_FrameBuilder.rb
+  frameOffsets: {
+    brostning: -85,
+    underljusSplit: -45,
+  },
+
+  // Miter distance constants (mm) — 060_screw_and_guide.rb
+  miterDistances: {
+    overskena: 80.5,
+    overhallare: -37.1,
+    coverprofile: -88.09,
+  },
+  coverProfileWallOffset: 54,
+
+  // Parked panels stand face to face, one glass holder profile apart: the
+  // profile is 32 mm across the glass (public/models/Glashållare_10mm.glb).
+  // The plugin has no parking, so there is no plugin value to port
+  parkedPanelPitch: 32,
+
+  // Panel division — 030_Config_glazing.rb / 275_Multi_Guide_HTML.rb
+  panelSizes: {
+    min: 430,
+    max: 700,
+    step: 30,
+    standard: [430, 460, 490, 520, 550, 580, 610, 640, 670, 700],
+    freeWidthThreshold: 400,
+    comboTolerance: 5.0,
+  },
+
+  // End cap models — PL numbers of the Glasprofillock GLB set
+  endCaps: {
+    'PL-160': {
+      label: 'PL-160 — 45° hona vänster',
+      glb: '/models/Glasprofillock/PL-160 Window-End cap 45dgr female Left.glb',
+      defaultGlassOffset: 11.5,
+    },
+    'PL-170': {
+      label: 'PL-170 — 45° hona höger',
+      glb: '/models/Glasprofillock/PL-170 Window-End cap 45dgr female Right.glb',
+      defaultGlassOffset: 11.5,
+    },
+    'PL-180': {
+      label: 'PL-180 — 45° hane vänster',
+      glb: '/models/Glasprofillock/PL-180 Window-End cap 45dgr male Left.glb',
+      defaultGlassOffset: 11.5,
+    },
+    'PL-190': {
+      label: 'PL-190 — 45° hane höger',
+      glb: '/models/Glasprofillock/PL-190 Window-End cap 45dgr male Right.glb',
+      defaultGlassOffset: 11.5,
+    },
+    'PL-200': {
+      label: 'PL-200 — Möteslock vänster',
+      glb: '/models/Glasprofillock/PL-200 Window-End cap straight Left.glb',
+      defaultGlassOffset: 5.0,
+    },
+    'PL-210': {
+      label: 'PL-210 — Möteslock höger',
+      glb: '/models/Glasprofillock/PL-210 Window-End cap straight Right.glb',
+      defaultGlassOffset: 5.0,
+    },
+    'PL-220': {
+      label: 'PL-220 — Variabelt ändlock',
+      glb: '/models/Glasprofillock/PL-220 Window-End cap variable.glb',
+      defaultGlassOffset: 7.9,
+    },
+    'PL-220P02': {
+      label: 'PL-220 P02 — Variabelt ändlock',
+      glb: '/models/Glasprofillock/PL-220 Window-End cap variable_P02.glb',
+      defaultGlassOffset: 7.9,
+    },
+    'PL-230': {
+      label: 'PL-230 — Slutlock vänster',
+      glb: '/models/Glasprofillock/PL-230 Window-End cap Left.glb',
+      defaultGlassOffset: 25.0,
+    },
+    'PL-240': {
+      label: 'PL-240 — Slutlock höger',
+      glb: '/models/Glasprofillock/PL-240 Window-End cap Right.glb',
+      defaultGlassOffset: 25.0,
+    },
+  },
+};
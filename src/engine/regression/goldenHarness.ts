@@ -0,0 +1,321 @@
+/**
+ * Golden regression harness — compares the TypeScript engine against
+ * recorded results, meant to come from the SketchUp Ruby plugin.
+ *
+ * A fixture holds the recorded plugin inputs (guide chain, wall/glazing
+ * status, optional hand-edited panels) and whatever outputs the plugin
+ * printed for each side: offsets (030_Config_glazing.rb), cut lengths
+ * (060_screw_and_guide.rb), the auto-generated panel layout
+ * (275_Multi_Guide_HTML.rb) and lock assignments (070_set_glas_attribute.rb).
+ * Every expected field is optional, so a fixture only needs the values the
+ * plugin actually reported.
+ *
+ * Fixtures live in ./fixtures as JSON; run them with `npm run golden`.
+ * A fixture whose values were captured from this engine instead is marked
+ * `selfCaptured`: it only guards against regressions, not plugin parity.
+ */
+
+import type { Point2D } from '../../types/geometry';
+import type { Panel, LockType, PanelFitting } from '../../types/panel';
+import type { EdgeConfig } from '../../types/edge';
+import type { LevelName } from '../../types/levels';
+import {
+  calculateOffset,
+  autoGeneratePanelsForEdge,
+  computeEdgeData,
+  getSegmentGeometry,
+  isConnectedToWall,
+  type CutLengths,
+} from '../calculations/edgeCalculations';
+import { computeProject } from '../calculations/projectCalculations';
+import { buildCutList } from '../calculations/cutList';
+import { getSegmentCount, segmentEndIndex } from '../geometry/guideChain';
+import { mirrorEdgeConfig } from '../geometry/guideGraph';
+import { DEFAULT_PRODUCT_SYSTEM } from '../productSystem/productSystems';
+import { DEFAULT_FRAME_WIDTH_SETTINGS, DEFAULT_LEVELS, DEFAULT_PROFILE_CONFIG } from '../../utils/constants';
+
+// ─── Fixture format ──────────────────────────────────────────
+
+/** Default max absolute difference (mm / degrees) for numeric values */
+export const GOLDEN_DEFAULT_TOLERANCE = 0.1;
+
+/** Frame height used when a fixture does not record one (mm) */
+const DEFAULT_FIXTURE_FRAME_HEIGHT = 1100;
+
+export interface GoldenPanelLayout {
+  length: number;
+  offsetLeft: number;
+  offsetRight: number;
+}
+
+export interface GoldenFittingExpectation {
+  topLeft?: LockType;
+  topRight?: LockType;
+  bottomLeft?: LockType;
+  bottomRight?: LockType;
+  topLock?: LockType;
+  bottomLock?: LockType;
+  glassWidth?: number;
+  glassHeight?: number;
+  glassModuleHeight?: number;
+  upperGlassProfileLength?: number;
+  lowerGlassProfileLength?: number;
+  openingLabel?: PanelFitting['openingLabel'];
+}
+
+export interface GoldenSideExpectation {
+  /** 1-based side number, same as the plugin */
+  sideNumber: number;
+  startAngle?: number;
+  endAngle?: number;
+  /** calculateOffset().offset at the start/end of the side */
+  offsetLeft?: number;
+  offsetRight?: number;
+  profileOffsetLeft?: number;
+  profileOffsetRight?: number;
+  cutLengths?: Partial<CutLengths>;
+  /** Layout from autoGeneratePanelsForEdge (standard sizes) */
+  autoPanels?: GoldenPanelLayout[];
+  /** Lock assignment per panel — for the input panels, or the auto layout if none are given */
+  fittings?: GoldenFittingExpectation[];
+}
+
+export interface GoldenFixture {
+  /** Short unique id, e.g. "2025-04-brf-solsidan-hus3" */
+  name: string;
+  description?: string;
+  /** Where the expected values came from (plugin version, order, date) */
+  source: string;
+  /** Expected values captured from this engine, not from the plugin */
+  selfCaptured?: boolean;
+  /** Overrides GOLDEN_DEFAULT_TOLERANCE for this fixture */
+  tolerance?: number;
+  input: {
+    guidePoints: Point2D[];
+    /** Closed loop: the last point joins the first */
+    closed?: boolean;
+    edges: { wallOrGlazingStatus: 'wall' | 'glazing'; panels?: Panel[] }[];
+    /** Överstycke − Mellanstycke (mm) */
+    frameHeight?: number;
+  };
+  expected: {
+    sides: GoldenSideExpectation[];
+    /**
+     * The chain drawn the other way gives the same cut list (default
+     * settings) — corners follow the glazing side, not the direction of travel
+     */
+    sameCutListReversed?: boolean;
+  };
+}
+
+// ─── Results ─────────────────────────────────────────────────
+
+export interface GoldenMismatch {
+  /** Dotted path, e.g. "side 2.cutLengths.overskena" */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface GoldenResult {
+  name: string;
+  selfCaptured: boolean;
+  passed: boolean;
+  checked: number;
+  mismatches: GoldenMismatch[];
+}
+
+// ─── Runner ──────────────────────────────────────────────────
+
+interface Comparer {
+  checked: number;
+  mismatches: GoldenMismatch[];
+  value: (path: string, expected: unknown, actual: unknown) => void;
+  object: <T extends object>(path: string, expected: Partial<T> | undefined, actual: T | undefined) => void;
+  list: <T extends object>(path: string, expected: Partial<T>[] | undefined, actual: T[]) => void;
+}
+
+function createComparer(tolerance: number): Comparer {
+  const cmp: Comparer = {
+    checked: 0,
+    mismatches: [],
+    value: (path, expected, actual) => {
+      if (expected === undefined) return;
+      cmp.checked++;
+      const ok =
+        typeof expected === 'number' && typeof actual === 'number'
+          ? Math.abs(expected - actual) <= tolerance
+          : expected === actual;
+      if (!ok) cmp.mismatches.push({ path, expected, actual });
+    },
+    object: (path, expected, actual) => {
+      if (!expected) return;
+      for (const key of Object.keys(expected) as (keyof typeof expected)[]) {
+        cmp.value(`${path}.${String(key)}`, expected[key], actual?.[key]);
+      }
+    },
+    list: (path, expected, actual) => {
+      if (!expected) return;
+      cmp.value(`${path}.length`, expected.length, actual.length);
+      expected.forEach((e, i) => cmp.object(`${path}[${i}]`, e, actual[i]));
+    },
+  };
+  return cmp;
+}
+
+/** Build edge configs for the fixture — auto layout where no panels are recorded. */
+function buildEdgeConfigs(fixture: GoldenFixture): EdgeConfig[] {
+  const { guidePoints, edges, closed = false } = fixture.input;
+  // Fixtures address sides by number, as the plugin does — the IDs just follow it
+  const configs: EdgeConfig[] = edges.map((e, i) => ({
+    id: `side-${i + 1}`,
+    startVertexId: `point-${i + 1}`,
+    endVertexId: `point-${((i + 1) % guidePoints.length) + 1}`,
+    wallOrGlazingStatus: e.wallOrGlazingStatus,
+    panels: e.panels ?? [],
+  }));
+  for (let i = 0; i < getSegmentCount(guidePoints, closed); i++) {
+    const edge = configs[i];
+    if (!edge || edge.wallOrGlazingStatus === 'wall' || edge.panels.length > 0) continue;
+    edge.panels = autoLayout(guidePoints, configs, i, closed);
+  }
+  return configs;
+}
+
+function autoLayout(
+  guidePoints: Point2D[],
+  edgeConfigs: EdgeConfig[],
+  segIndex: number,
+  closed: boolean,
+): Panel[] {
+  const { edgeLength, startAngle, endAngle } = getSegmentGeometry(guidePoints, segIndex, closed);
+  return autoGeneratePanelsForEdge(
+    edgeLength,
+    startAngle,
+    endAngle,
+    isConnectedToWall(edgeConfigs, segIndex, 'start', closed),
+    isConnectedToWall(edgeConfigs, segIndex, 'end', closed),
+    DEFAULT_PRODUCT_SYSTEM,
+  );
+}
+
+/** The fixture walked the other way: recorded panels mirrored, auto sides laid out again */
+function reversedFixture(fixture: GoldenFixture): GoldenFixture {
+  const { guidePoints, edges, closed = false } = fixture.input;
+  const n = guidePoints.length;
+  const points = [...guidePoints].reverse();
+  // Reversed side j runs over original side n − 2 − j (mod n), open or closed
+  const reversedEdges = Array.from({ length: getSegmentCount(points, closed) }, (_, j) => {
+    const i = (2 * n - 2 - j) % n;
+    const edge = edges[i];
+    if (!edge?.panels) return edge;
+    const end = guidePoints[segmentEndIndex(guidePoints, i)];
+    const length = Math.hypot(end.x - guidePoints[i].x, end.y - guidePoints[i].y);
+    const config = { id: '', startVertexId: '', endVertexId: '', ...edge, panels: edge.panels };
+    return { ...edge, panels: mirrorEdgeConfig(config, length).panels };
+  });
+  return { ...fixture, input: { ...fixture.input, guidePoints: points, edges: reversedEdges } };
+}
+
+/** Cut list rows with the defaults, independent of side numbers and which end a cut is at */
+function cutListSignature(fixture: GoldenFixture): string[] {
+  const { guidePoints, closed = false } = fixture.input;
+  const frameHeight = fixture.input.frameHeight ?? DEFAULT_FIXTURE_FRAME_HEIGHT;
+  const level = (name: LevelName, zPosition: number) => ({ name, zPosition, visible: true });
+  const project = computeProject({
+    guidePoints,
+    closed,
+    edgeConfigs: buildEdgeConfigs(fixture),
+    levels: {
+      levels: {
+        Understycke: level('Understycke', DEFAULT_LEVELS.Understycke),
+        Mellanstycke: level('Mellanstycke', DEFAULT_LEVELS.Mellanstycke),
+        Overstycke: level('Overstycke', DEFAULT_LEVELS.Mellanstycke + frameHeight),
+      },
+    },
+    profileConfig: DEFAULT_PROFILE_CONFIG,
+    frameWidthSettings: DEFAULT_FRAME_WIDTH_SETTINGS,
+    system: DEFAULT_PRODUCT_SYSTEM,
+  });
+  return buildCutList([{ chainId: fixture.name, name: fixture.name, closed, project }])
+    .map((row) => {
+      const [a, b] = [row.cutAngleLeft, row.cutAngleRight].sort((x, y) => x - y);
+      return `${row.profileType} ${row.length} mm ${a}°/${b}° ×${row.quantity}`;
+    })
+    .sort();
+}
+
+export function runGoldenFixture(fixture: GoldenFixture): GoldenResult {
+  const cmp = createComparer(fixture.tolerance ?? GOLDEN_DEFAULT_TOLERANCE);
+  const { guidePoints, closed = false } = fixture.input;
+  const frameHeight = fixture.input.frameHeight ?? DEFAULT_FIXTURE_FRAME_HEIGHT;
+  const edgeConfigs = buildEdgeConfigs(fixture);
+
+  for (const exp of fixture.expected.sides) {
+    const segIndex = exp.sideNumber - 1;
+    const path = `side ${exp.sideNumber}`;
+    const data = computeEdgeData(guidePoints, edgeConfigs, segIndex, frameHeight, DEFAULT_PRODUCT_SYSTEM, closed);
+    if (!data) {
+      cmp.value(`${path}`, 'exists', 'missing');
+      continue;
+    }
+
+    const { startAngle, endAngle } = getSegmentGeometry(guidePoints, segIndex, closed);
+    const left = calculateOffset(startAngle, data.startConnectedToWall, DEFAULT_PRODUCT_SYSTEM);
+    const right = calculateOffset(endAngle, data.endConnectedToWall, DEFAULT_PRODUCT_SYSTEM);
+
+    cmp.value(`${path}.startAngle`, exp.startAngle, data.startAngle);
+    cmp.value(`${path}.endAngle`, exp.endAngle, data.endAngle);
+    cmp.value(`${path}.offsetLeft`, exp.offsetLeft, left.offset);
+    cmp.value(`${path}.offsetRight`, exp.offsetRight, right.offset);
+    cmp.value(`${path}.profileOffsetLeft`, exp.profileOffsetLeft, data.profileOffsetLeft);
+    cmp.value(`${path}.profileOffsetRight`, exp.profileOffsetRight, data.profileOffsetRight);
+    cmp.object(`${path}.cutLengths`, exp.cutLengths, data.cutLengths);
+
+    if (exp.autoPanels) {
+      const isWall = edgeConfigs[segIndex]?.wallOrGlazingStatus === 'wall';
+      const panels = isWall ? [] : autoLayout(guidePoints, edgeConfigs, segIndex, closed);
+      cmp.list(`${path}.autoPanels`, exp.autoPanels, panels);
+    }
+    cmp.list(`${path}.fittings`, exp.fittings, data.panelFittings);
+  }
+
+  if (fixture.expected.sameCutListReversed) {
+    const forward = cutListSignature(fixture);
+    const reversed = cutListSignature(reversedFixture(fixture));
+    cmp.value('reversed.cutList.length', forward.length, reversed.length);
+    forward.forEach((row, i) => cmp.value(`reversed.cutList[${i}]`, row, reversed[i]));
+  }
+
+  return {
+    name: fixture.name,
+    selfCaptured: fixture.selfCaptured ?? false,
+    passed: cmp.mismatches.length === 0,
+    checked: cmp.checked,
+    mismatches: cmp.mismatches,
+  };
+}
+
+/** Human-readable summary, one line per fixture plus one per mismatch. */
+export function formatGoldenReport(results: GoldenResult[]): string {
+  const lines: string[] = [];
+  for (const r of results) {
+    const origin = r.selfCaptured ? ', self-captured' : '';
+    lines.push(`${r.passed ? 'PASS' : 'FAIL'}  ${r.name}  (${r.checked} values${origin})`);
+    for (const m of r.mismatches) {
+      const diff =
+        typeof m.expected === 'number' && typeof m.actual === 'number'
+          ? `  Δ ${(m.actual - m.expected).toFixed(2)}`
+          : '';
+      lines.push(`      ${m.path}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}${diff}`);
+    }
+  }
+  const failed = results.filter((r) => !r.passed).length;
+  lines.push('');
+  const selfCaptured = results.filter((r) => r.selfCaptured).length;
+  lines.push(`${results.length - failed}/${results.length} fixtures match their recorded baseline`);
+  if (selfCaptured > 0) {
+    lines.push(`${selfCaptured} of them captured from this engine, not the Ruby plugin — no parity check`);
+  }
+  return lines.join('\n');
+}
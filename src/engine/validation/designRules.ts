@@ -0,0 +1,227 @@
+/**
+ * Design rule validation — flags configurations that cannot be built.
+ *
+ * Runs over computed chain projects and returns typed issues, each tied to
+ * a side, a vertex or a single panel of one chain so the sidebar and both
+ * viewports can point at it. The rules mirror limits that the calculation
+ * engine otherwise applies silently:
+ *   - panel widths outside the product system's panelSizes.min … max
+ *   - guide play (spelGuide) beyond SPEL_GUIDE_TOLERANCE
+ *   - wall corners outside the angle range calculateOffset handles
+ *   - glazing sides too short for panel generation
+ *   - glazing sides where no panel has a lock
+ *   - parked panel stacks that collide, block a door or cannot be opened
+ *     (see panelParking.ts)
+ */
+
+import type { ChainProject, ProjectSide } from '../calculations/projectCalculations';
+import type { ParkingConflict } from '../calculations/panelParking';
+import {
+  MIN_GLAZING_SIDE_LENGTH,
+  SPEL_GUIDE_TOLERANCE,
+} from '../../utils/constants';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type DesignRuleId =
+  | 'panel-too-narrow'
+  | 'panel-too-wide'
+  | 'spel-guide-gap'
+  | 'spel-guide-overlap'
+  | 'wall-corner-angle'
+  | 'side-too-short'
+  | 'side-without-lock'
+  | 'parking-collision'
+  | 'parking-blocks-door'
+  | 'no-opening-panel';
+
+export type IssueLocation =
+  | { kind: 'segment'; chainId: string; segIndex: number }
+  | { kind: 'vertex'; chainId: string; vertexIndex: number }
+  | { kind: 'panel'; chainId: string; segIndex: number; panelIndex: number };
+
+export interface DesignIssue {
+  rule: DesignRuleId;
+  severity: IssueSeverity;
+  /** Short Swedish description for the sidebar */
+  message: string;
+  location: IssueLocation;
+}
+
+// ─── Rules ───────────────────────────────────────────────────
+
+const fmt = (v: number) => `${Math.round(v * 10) / 10}`;
+
+function sideIssues(chain: ChainProject, side: ProjectSide): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+  const { chainId } = chain;
+  const segment: IssueLocation = { kind: 'segment', chainId, segIndex: side.segIndex };
+  const { min, max } = chain.project.system.panelSizes;
+
+  if (side.edgeLength < MIN_GLAZING_SIDE_LENGTH) {
+    issues.push({
+      rule: 'side-too-short',
+      severity: 'warning',
+      message: `Sidan är ${fmt(side.edgeLength)} mm — under ${MIN_GLAZING_SIDE_LENGTH} mm får den inga paneler`,
+      location: segment,
+    });
+    return issues;
+  }
+
+  side.panelFittings.forEach((panel, panelIndex) => {
+    const location: IssueLocation = { kind: 'panel', chainId, segIndex: side.segIndex, panelIndex };
+    if (panel.length > max) {
+      issues.push({
+        rule: 'panel-too-wide',
+        severity: 'error',
+        message: `Panel ${panelIndex + 1} är ${fmt(panel.length)} mm — max ${max} mm`,
+        location,
+      });
+    } else if (panel.length < min) {
+      issues.push({
+        rule: 'panel-too-narrow',
+        severity: 'warning',
+        message: `Panel ${panelIndex + 1} är ${fmt(panel.length)} mm — min ${min} mm`,
+        location,
+      });
+    }
+  });
+
+  if (side.panelFittings.length > 0) {
+    if (side.spelGuide > SPEL_GUIDE_TOLERANCE) {
+      issues.push({
+        rule: 'spel-guide-gap',
+        severity: 'warning',
+        message: `Spel ${fmt(side.spelGuide)} mm — panelerna fyller inte sidan`,
+        location: segment,
+      });
+    } else if (side.spelGuide < -SPEL_GUIDE_TOLERANCE) {
+      issues.push({
+        rule: 'spel-guide-overlap',
+        severity: 'error',
+        message: `Spel ${fmt(side.spelGuide)} mm — panelerna är längre än sidan`,
+        location: segment,
+      });
+    }
+
+    if (!side.panelFittings.some((p) => p.lock === '|' || p.lock === '||')) {
+      issues.push({
+        rule: 'side-without-lock',
+        severity: 'warning',
+        message: 'Ingen panel har lås',
+        location: segment,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/** Wall corner at one end of a glazing side, outside the handled angle range */
+function wallCornerIssue(
+  chain: ChainProject,
+  angle: number,
+  connectedToWall: boolean,
+  vertexIndex: number,
+): DesignIssue | null {
+  const a = Math.abs(angle);
+  if (!connectedToWall || a === 0) return null;
+  const { min, max } = chain.project.system.wallCornerAngles;
+  if (a >= min && a <= max) return null;
+  return {
+    rule: 'wall-corner-angle',
+    severity: 'error',
+    message: `Väggvinkel ${fmt(a)}° — stöds ${min}–${max}°`,
+    location: { kind: 'vertex', chainId: chain.chainId, vertexIndex },
+  };
+}
+
+function parkingIssue(chain: ChainProject, conflict: ParkingConflict): DesignIssue | null {
+  const location: IssueLocation = { kind: 'segment', chainId: chain.chainId, segIndex: conflict.segIndex };
+  switch (conflict.kind) {
+    case 'stack-collision':
+      return {
+        rule: 'parking-collision',
+        severity: 'error',
+        message: conflict.otherSegIndex === conflict.segIndex
+          ? 'Parkerade paneler krockar med varandra'
+          : `Parkerade paneler krockar med sida ${conflict.otherSegIndex + 1}`,
+        location,
+      };
+    case 'door-blocked':
+      return {
+        rule: 'parking-blocks-door',
+        severity: 'error',
+        message: `Parkerade paneler står framför dörren på sida ${conflict.doorSegIndex + 1}`,
+        location,
+      };
+    case 'no-opening-panel': {
+      // A side without any lock is already reported as side-without-lock
+      const side = chain.project.sides.find((s) => s.segIndex === conflict.segIndex);
+      if (!side?.panelFittings.some((p) => p.lock === '|' || p.lock === '||')) return null;
+      return {
+        rule: 'no-opening-panel',
+        severity: 'warning',
+        message: 'Ingen panel kan öppnas — låset ska sitta närmast parkeringen',
+        location,
+      };
+    }
+  }
+}
+
+/** Every issue in one chain */
+export function validateChain(chain: ChainProject): DesignIssue[] {
+  const { sides, segmentCount } = chain.project;
+  const issues: DesignIssue[] = [];
+
+  for (const side of sides) {
+    if (side.wallOrGlazingStatus === 'wall') continue;
+    issues.push(...sideIssues(chain, side));
+
+    const endVertex = chain.closed ? (side.segIndex + 1) % segmentCount : side.segIndex + 1;
+    const start = wallCornerIssue(chain, side.startAngle, side.startConnectedToWall, side.segIndex);
+    const end = wallCornerIssue(chain, side.endAngle, side.endConnectedToWall, endVertex);
+    if (start) issues.push(start);
+    if (end) issues.push(end);
+  }
+
+  for (const conflict of chain.project.parking.conflicts) {
+    const issue = parkingIssue(chain, conflict);
+    if (issue) issues.push(issue);
+  }
+
+  return issues;
+}
+
+/** Every issue in the project, errors first */
+export function validateProject(chains: ChainProject[]): DesignIssue[] {
+  const issues = chains.flatMap(validateChain);
+  return [
+    ...issues.filter((i) => i.severity === 'error'),
+    ...issues.filter((i) => i.severity === 'warning'),
+  ];
+}
+
+/** Worst severity per segment of a chain, for highlighting */
+export function issueSegments(issues: DesignIssue[], chainId: string): Map<number, IssueSeverity> {
+  const out = new Map<number, IssueSeverity>();
+  for (const issue of issues) {
+    const loc = issue.location;
+    if (loc.chainId !== chainId || loc.kind === 'vertex') continue;
+    if (out.get(loc.segIndex) !== 'error') out.set(loc.segIndex, issue.severity);
+  }
+  return out;
+}
+
+/** Worst severity per vertex of a chain, for highlighting */
+export function issueVertices(issues: DesignIssue[], chainId: string): Map<number, IssueSeverity> {
+  const out = new Map<number, IssueSeverity>();
+  for (const issue of issues) {
+    const loc = issue.location;
+    if (loc.chainId !== chainId || loc.kind !== 'vertex') continue;
+    if (out.get(loc.vertexIndex) !== 'error') out.set(loc.vertexIndex, issue.severity);
+  }
+  return out;
+}
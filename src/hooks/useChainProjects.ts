@@ -0,0 +1,13 @@
+import { useConfigStore, selectChainProjects } from '../store/useConfigStore';
+import type { ChainProject } from '../engine/calculations/projectCalculations';
+
+const NO_PROJECTS: ChainProject[] = [];
+
+/**
+ * Every chain computed separately, re-rendering on edits to any chain or to
+ * a project setting. All callers share one computation; `enabled` false
+ * skips it while nothing is shown.
+ */
+export function useChainProjects(enabled = true): ChainProject[] {
+  return useConfigStore((s) => (enabled ? selectChainProjects(s) : NO_PROJECTS));
+}
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { validateProject, type DesignIssue, type IssueSeverity } from '../engine/validation/designRules';
+import { useChainProjects } from './useChainProjects';
+
+/** Marker colours shared by the sidebar list and both viewports */
+export const ISSUE_COLORS: Record<IssueSeverity, string> = {
+  error: '#ef4444',
+  warning: '#f59e0b',
+};
+
+/** Design rule issues for every chain, re-evaluated on any project edit. */
+export function useDesignIssues(): DesignIssue[] {
+  const chainProjects = useChainProjects();
+  return useMemo(() => validateProject(chainProjects), [chainProjects]);
+}
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useConfigStore, withActiveChain } from '../store/useConfigStore';
+import type { GuideChain } from '../types/chain';
+
+/**
+ * Every guide chain, re-rendering on edits to any of them.
+ * For renderers that draw all chains, not only the one being edited.
+ */
+export function useGuideChains(): GuideChain[] {
+  const guideChains = useConfigStore((s) => s.guideChains);
+  const activeChainId = useConfigStore((s) => s.activeChainId);
+  const points = useConfigStore((s) => s.guidePoints);
+  const closed = useConfigStore((s) => s.guideClosed);
+  const edgeConfigs = useConfigStore((s) => s.edgeConfigs);
+  const constraints = useConfigStore((s) => s.guideConstraints);
+
+  return useMemo(
+    () => withActiveChain(guideChains, activeChainId, { points, closed, edgeConfigs, constraints }),
+    [guideChains, activeChainId, points, closed, edgeConfigs, constraints],
+  );
+}
@@ -0,0 +1,9 @@
+import { useConfigStore } from '../store/useConfigStore';
+import { getProductSystem } from '../engine/productSystem/productSystems';
+import type { ProductSystem } from '../types/productSystem';
+
+/** Product system selected for the project. */
+export function useProductSystem(): ProductSystem {
+  const id = useConfigStore((s) => s.projectConfig.productSystemId);
+  return getProductSystem(id);
+}
@@ -0,0 +1,188 @@
+import { create } from 'zustand';
+import { applyPatches, enablePatches, produceWithPatches, type Draft, type Patch } from 'immer';
+
+/**
+ * Undo/redo for an immer store, built on immer patches.
+ *
+ * `record` wraps the store's state creator: every set() runs through
+ * produceWithPatches and the patches that touch a document key (the data a
+ * project is made of, not selection or view state) are kept as steps.
+ *
+ *   - One step per labelled action, named by its label. Nested actions
+ *     belong to the outermost one.
+ *   - Unlabelled updates of document keys join the step before them, so
+ *     every action that can change the document needs a label — even one
+ *     that mostly touches selection.
+ *   - The same action on the same fields within COALESCE_MS joins the
+ *     previous step, so typing into a field is one step.
+ *   - Between beginGroup and endGroup everything is one step — a drag.
+ */
+
+enablePatches();
+
+/** Repeats of the same edit closer than this are one step (ms) */
+const COALESCE_MS = 1000;
+
+/** Steps kept; the oldest are dropped first */
+const MAX_STEPS = 200;
+
+export interface HistoryStep {
+  id: number;
+  label: string;
+  patches: Patch[];
+  inversePatches: Patch[];
+  /** Last change recorded into the step (ms) */
+  time: number;
+  /** Paths the last change wrote — a repeat on the same paths joins the step */
+  touched: string;
+}
+
+export interface HistoryState {
+  /** Done steps, oldest first */
+  past: HistoryStep[];
+  /** Undone steps, next redo first */
+  future: HistoryStep[];
+}
+
+/** History label per action — a fixed name or one built from the arguments */
+export type ActionLabels<T> = {
+  [K in keyof T]?: T[K] extends (...args: infer A) => unknown ? string | ((...args: A) => string) : never;
+};
+
+type RecipeSet<T> = (recipe: (state: Draft<T>) => void) => void;
+type ImmerSet<T> = (nextState: T | ((state: Draft<T>) => void)) => void;
+
+export function createHistory<T extends object>(documentKeys: readonly (keyof T)[], labels: ActionLabels<T>) {
+  const useHistory = create<HistoryState>()(() => ({ past: [], future: [] }));
+
+  let nextId = 1;
+  /** Label of the outermost action running, null outside actions */
+  let action: string | null = null;
+  /** Open group; stepId is set once its first change is recorded */
+  let group: { label: string | null; stepId: number | null } | null = null;
+  /** Bound to the store by record() */
+  let store: { set: ImmerSet<T>; get: () => T } | null = null;
+
+  const isDocument = (p: Patch) => documentKeys.includes(p.path[0] as keyof T);
+  const pathsOf = (patches: Patch[]) => patches.map((p) => p.path.join('/')).sort().join('|');
+
+  function commit(patches: Patch[], inversePatches: Patch[]) {
+    const forward = patches.filter(isDocument);
+    if (forward.length === 0) return;
+    const backward = inversePatches.filter(isDocument);
+    const now = Date.now();
+    const touched = pathsOf(forward);
+    const { past, future } = useHistory.getState();
+    const top = past[past.length - 1];
+
+    const extend = (step: HistoryStep) => {
+      useHistory.setState({
+        past: [
+          ...past.slice(0, -1),
+          {
+            ...step,
+            patches: [...step.patches, ...forward],
+            inversePatches: [...backward, ...step.inversePatches],
+            time: now,
+            touched,
+          },
+        ],
+      });
+    };
+
+    if (group?.stepId != null && top?.id === group.stepId) return extend(top);
+    if (action === null) {
+      if (top) extend(top);
+      return;
+    }
+    const repeat = top?.label === action && top.touched === touched && now - top.time < COALESCE_MS;
+    if (!group && top && repeat && future.length === 0) {
+      return extend(top);
+    }
+
+    const step: HistoryStep = {
+      id: nextId++,
+      label: group?.label ?? action,
+      patches: forward,
+      inversePatches: backward,
+      time: now,
+      touched,
+    };
+    if (group) group.stepId = step.id;
+    useHistory.setState({ past: [...past, step].slice(-MAX_STEPS), future: [] });
+  }
+
+  function applyStep(patches: Patch[]) {
+    if (!store) return;
+    store.set(applyPatches(store.get(), patches));
+  }
+
+  return {
+    /** Steps for the history panel */
+    useHistory,
+
+    /** Wrap a state creator so its set() calls and labelled actions are recorded */
+    record(creator: (set: RecipeSet<T>, get: () => T) => T) {
+      return (set: ImmerSet<T>, get: () => T): T => {
+        store = { set, get };
+        const recordingSet: RecipeSet<T> = (recipe) => {
+          const [next, patches, inversePatches] = produceWithPatches(get(), recipe);
+          set(next as T);
+          commit(patches, inversePatches);
+        };
+        const state = creator(recordingSet, get);
+
+        for (const key of Object.keys(labels) as (keyof T)[]) {
+          const fn = state[key] as ((...args: unknown[]) => unknown) | undefined;
+          const label = labels[key];
+          if (typeof fn !== 'function' || !label) continue;
+          state[key] = ((...args: unknown[]) => {
+            if (action !== null) return fn(...args);
+            action = typeof label === 'function' ? (label as (...a: unknown[]) => string)(...args) : label;
+            try {
+              return fn(...args);
+            } finally {
+              action = null;
+            }
+          }) as T[keyof T];
+        }
+        return state;
+      };
+    },
+
+    undo(): boolean {
+      group = null;
+      const { past, future } = useHistory.getState();
+      const step = past[past.length - 1];
+      if (!step) return false;
+      applyStep(step.inversePatches);
+      useHistory.setState({ past: past.slice(0, -1), future: [step, ...future] });
+      return true;
+    },
+
+    redo(): boolean {
+      group = null;
+      const { past, future } = useHistory.getState();
+      const step = future[0];
+      if (!step) return false;
+      applyStep(step.patches);
+      useHistory.setState({ past: [...past, step], future: future.slice(1) });
+      return true;
+    },
+
+    /** Record everything until endGroup as one step; without a label the first action names it */
+    beginGroup(label: string | null = null) {
+      group = { label, stepId: null };
+    },
+
+    endGroup() {
+      group = null;
+    },
+
+    /** Forget all steps — after loading a project the old patches no longer apply */
+    clear() {
+      group = null;
+      useHistory.setState({ past: [], future: [] });
+    },
+  };
+}
@@ -1,121 +1,54 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import type { EndCapType } from '../types/panel';
+import type { ProductSystem } from '../types/productSystem';
+import { END_CAP_TYPES, getProductSystem } from '../engine/productSystem/productSystems';
+import { useConfigStore } from './useConfigStore';
 
-// ─── End cap types ─────────────────────────────────────────────────
-// Each GLB file is a separate selectable variant.
-// Left/right variants have their own GLB files.
-export type EndCapType =
-  | 'PL-160'    // 45° hona vänster
-  | 'PL-170'    // 45° hona höger
-  | 'PL-180'    // 45° hane vänster
-  | 'PL-190'    // 45° hane höger
-  | 'PL-200'    // Möteslock vänster (straight left)
-  | 'PL-210'    // Möteslock höger (straight right)
-  | 'PL-220'    // Variabelt ändlock
-  | 'PL-220P02' // Variabelt ändlock P02
-  | 'PL-230'    // Slutlock vänster
-  | 'PL-240'    // Slutlock höger
-  ;
+export type { EndCapType };
 
 export type LockVariant = 'single' | 'double' | 'none';
 
-// ─── End cap info table ─────────────────────────────────────────────
-interface EndCapInfo {
-  label: string;
-  glb: string;
-  defaultGlassOffset: number;  // mm — how far the glass extends past the holder at this cap
-}
-
-export const END_CAP_INFO: Record<EndCapType, EndCapInfo> = {
-  'PL-160': {
-    label: 'PL-160 — 45° hona vänster',
-    glb: '/models/Glasprofillock/PL-160 Window-End cap 45dgr female Left.glb',
-    defaultGlassOffset: 11.5,
-  },
-  'PL-170': {
-    label: 'PL-170 — 45° hona höger',
-    glb: '/models/Glasprofillock/PL-170 Window-End cap 45dgr female Right.glb',
-    defaultGlassOffset: 11.5,
-  },
-  'PL-180': {
-    label: 'PL-180 — 45° hane vänster',
-    glb: '/models/Glasprofillock/PL-180 Window-End cap 45dgr male Left.glb',
-    defaultGlassOffset: 11.5,
-  },
-  'PL-190': {
-    label: 'PL-190 — 45° hane höger',
-    glb: '/models/Glasprofillock/PL-190 Window-End cap 45dgr male Right.glb',
-    defaultGlassOffset: 11.5,
-  },
-  'PL-200': {
-    label: 'PL-200 — Möteslock vänster',
-    glb: '/models/Glasprofillock/PL-200 Window-End cap straight Left.glb',
-    defaultGlassOffset: 5.0,
-  },
-  'PL-210': {
-    label: 'PL-210 — Möteslock höger',
-    glb: '/models/Glasprofillock/PL-210 Window-End cap straight Right.glb',
-    defaultGlassOffset: 5.0,
-  },
-  'PL-220': {
-    label: 'PL-220 — Variabelt ändlock',
-    glb: '/models/Glasprofillock/PL-220 Window-End cap variable.glb',
-    defaultGlassOffset: 7.9,
-  },
-  'PL-220P02': {
-    label: 'PL-220 P02 — Variabelt ändlock',
-    glb: '/models/Glasprofillock/PL-220 Window-End cap variable_P02.glb',
-    defaultGlassOffset: 7.9,
-  },
-  'PL-230': {
-    label: 'PL-230 — Slutlock vänster',
-    glb: '/models/Glasprofillock/PL-230 Window-End cap Left.glb',
-    defaultGlassOffset: 25.0,
-  },
-  'PL-240': {
-    label: 'PL-240 — Slutlock höger',
-    glb: '/models/Glasprofillock/PL-240 Window-End cap Right.glb',
-    defaultGlassOffset: 25.0,
-  },
-};
-
 // All end cap type keys
-export const END_CAP_TYPES = Object.keys(END_CAP_INFO) as EndCapType[];
+export { END_CAP_TYPES };
+
+// ─── Default offsets from the product system ────────────────────────
+export interface PanelBuilderOffsets {
+  glassOffsets: Record<EndCapType, number>;
+  topLockWidths: Record<LockVariant, number>;
+  bottomLockWidths: Record<LockVariant, number>;
+  glassHeightDeduction: number;
+  glassModuleHeightDeduction: number;
+}
 
-// ─── Default glass offsets derived from info table ──────────────────
-function buildDefaultGlassOffsets(): Record<EndCapType, number> {
-  const out = {} as Record<EndCapType, number>;
+/** Offsets a system gives the builder: cap glass offsets, överlås/undre lås widths, height deductions */
+export function panelBuilderDefaults(system: ProductSystem): PanelBuilderOffsets {
+  const glassOffsets = {} as Record<EndCapType, number>;
   for (const key of END_CAP_TYPES) {
-    out[key] = END_CAP_INFO[key].defaultGlassOffset;
+    glassOffsets[key] = system.endCaps[key].defaultGlassOffset;
   }
-  return out;
+  const { lockWidths } = system;
+  return {
+    glassOffsets,
+    topLockWidths: {
+      single: lockWidths['Overlas'] ?? 0,
+      double: lockWidths['Overlas dubbel'] ?? 0,
+      none: 0,
+    },
+    bottomLockWidths: {
+      single: lockWidths['Undre las'] ?? 0,
+      double: lockWidths['Undre las dubbel'] ?? 0,
+      none: 0,
+    },
+    glassHeightDeduction: system.glassOffsets.glassHeight,
+    glassModuleHeightDeduction: system.glassOffsets.glassModuleHeight,
+  };
 }
-export const DEFAULT_GLASS_OFFSET = buildDefaultGlassOffsets();
-
-// ─── Glass height constants (mm) ──────────────────────────────────
-export const GLASS_HEIGHT_DEDUCTION = 210.3;
-export const GLASS_MODULE_HEIGHT_DEDUCTION = 170.3;
-
-// ─── Top/bottom lock deductions (mm) from Ruby 070_set_glas_attribute.rb ──
-// Default top lock deductions
-export const DEFAULT_TOP_LOCK_WIDTH: Record<LockVariant, number> = {
-  single: 30.0,   // Överlås
-  double: 30.0,   // Överlås dubbel
-  none: 0,
-};
 
-// Re-export for backward compat
-export const TOP_LOCK_WIDTH = DEFAULT_TOP_LOCK_WIDTH;
-
-// Default bottom lock deductions (lock sits on lower rail)
-export const DEFAULT_BOTTOM_LOCK_WIDTH: Record<LockVariant, number> = {
-  single: 38.0,   // Undre lås
-  double: 38.0,   // Undre lås dubbel
-  none: 0,
-};
-
-// Re-export for backward compat
-export const BOTTOM_LOCK_WIDTH = DEFAULT_BOTTOM_LOCK_WIDTH;
+/** Defaults of the project's product system */
+function projectDefaults(): PanelBuilderOffsets {
+  return panelBuilderDefaults(getProductSystem(useConfigStore.getState().projectConfig.productSystemId));
+}
 
 // ─── Part rotation (multiples of 90°) ────────────────────────────
 // Each part has [rx, ry, rz] in units of 90° (0..3)
@@ -207,19 +140,15 @@ interface PanelBuilderState {
 
 export const usePanelBuilderStore = create<PanelBuilderState>()(
   immer((set, get) => ({
+    // Editable offsets — initialized from the project's product system
+    ...projectDefaults(),
+
     panelWidth: 600,
     panelHeight: 1700,
     endCapLeftType: 'PL-230',   // Slutlock vänster
     endCapRightType: 'PL-240',  // Slutlock höger
     lockType: 'single',
 
-    // Editable offsets — initialized from defaults
-    glassOffsets: { ...DEFAULT_GLASS_OFFSET },
-    topLockWidths: { ...DEFAULT_TOP_LOCK_WIDTH },
-    bottomLockWidths: { ...DEFAULT_BOTTOM_LOCK_WIDTH },
-    glassHeightDeduction: GLASS_HEIGHT_DEDUCTION,
-    glassModuleHeightDeduction: GLASS_MODULE_HEIGHT_DEDUCTION,
-
     partRotations: defaultRotations(),
 
     // ─── Derived values (use editable offsets) ────────────────
@@ -259,13 +188,7 @@ export const usePanelBuilderStore = create<PanelBuilderState>()(
     setBottomLockWidth: (variant, width) => set((s) => { s.bottomLockWidths[variant] = width; }),
     setGlassHeightDeduction: (v) => set((s) => { s.glassHeightDeduction = v; }),
     setGlassModuleHeightDeduction: (v) => set((s) => { s.glassModuleHeightDeduction = v; }),
-    resetOffsetsToDefaults: () => set((s) => {
-      s.glassOffsets = { ...DEFAULT_GLASS_OFFSET };
-      s.topLockWidths = { ...DEFAULT_TOP_LOCK_WIDTH };
-      s.bottomLockWidths = { ...DEFAULT_BOTTOM_LOCK_WIDTH };
-      s.glassHeightDeduction = GLASS_HEIGHT_DEDUCTION;
-      s.glassModuleHeightDeduction = GLASS_MODULE_HEIGHT_DEDUCTION;
-    }),
+    resetOffsetsToDefaults: () => set(projectDefaults()),
 
     // ─── Rotation controls ──────────────────────────────────
     rotatePart: (part, axis, direction) =>
@@ -5,7 +5,12 @@ import type { Point2D } from '../types/geometry';
 import type { ProjectConfig } from '../types/project';
 import type { ProfileConfig, BarlinaType, BottenprofilType, BrostningsramType } from '../types/profile';
 import type { Panel, OpeningDirection, LockSymbol } from '../types/panel';
-import type { EdgeConfig } from '../types/edge';
+import type { EdgeConfig, WallDoor } from '../types/edge';
+import type { GuideChain } from '../types/chain';
+import type { GuidelineVertex } from '../types/guideline';
+import type { GuideConstraint } from '../types/constraint';
+import type { FrameWidthSettings } from '../types/frame';
+import type { CuttingStockSettings, StockLengths } from '../types/cutting';
 import {
   DEFAULT_LEVELS,
   GUIDE_OFFSET_DISTANCE,
@@ -14,18 +19,50 @@ import {
   DEFAULT_PROJECT_CONFIG,
   DEFAULT_PROFILE_CONFIG,
   DEFAULT_FRAME_WIDTH_SETTINGS,
+  DEFAULT_CUTTING_STOCK_SETTINGS,
   DEFAULT_EXPANDED_SECTIONS,
 } from '../utils/constants';
 import { distance2D, degToRad, radToDeg } from '../utils/math';
-import { angleBetweenSegments, calculateOffsetPoints } from '../engine/geometry/offsetChain';
+import { calculateOffsetPoints } from '../engine/geometry/offsetChain';
+import {
+  canCloseChain,
+  cornerVertexIndices,
+  getSegmentCount,
+  glazingSide,
+  segmentEndIndex,
+  vertexAngle,
+  vertexNeighbours,
+} from '../engine/geometry/guideChain';
+import {
+  constraintKey,
+  measureConstraint,
+  reversedConstraints,
+  solveGuide,
+  validConstraints,
+} from '../engine/geometry/constraintSolver';
+import { createEdgeConfig, createVertex, matchEdgeConfigsToSegments } from '../engine/geometry/guideGraph';
 import {
   computeEdgeData,
-  autoGeneratePanelsForEdge,
-  evenDistributePanelsForEdge,
-  recalcPanelOffsets,
-  isConnectedToWall,
   type ComputedEdgeData,
 } from '../engine/calculations/edgeCalculations';
+import {
+  computeChainProjects,
+  computeProject,
+  generateSegmentPanels,
+  getFrameHeight,
+  refitSegmentPanels,
+  regenerateGlazingPanels,
+  type ChainProject,
+  type ComputedProject,
+} from '../engine/calculations/projectCalculations';
+import { getProductSystem } from '../engine/productSystem/productSystems';
+import {
+  layoutBasis,
+  optimizePanelLayout,
+  type LayoutProposal,
+} from '../engine/calculations/layoutOptimizer';
+import type { ProductSystem } from '../types/productSystem';
+import { createHistory } from './history';
 
 export type ActiveMode = 'select' | 'draw-guide' | 'levels';
 export type ActiveView = '2d' | '3d' | '2d3d' | 'panel';
@@ -39,16 +76,10 @@ export interface SegmentInfo {
 
 export interface AngleInfo {
   vertex: Point2D;
-  angle: number; // degrees
+  angle: number; // signed degrees: + outside corner, − inside corner
   index: number; // index of vertex point
 }
 
-export interface FrameWidthSettings {
-  maxWidthGlass: number;
-  maxWidthCovered: number;
-  maxWidthWall: number;
-}
-
 // ─── Angle snapping ───────────────────────────────────────
 const SNAP_THRESHOLD_DEG = 5;
 const SNAP_ANGLES = [0, 45, 90, 135, 180, 225, 270, 315];
@@ -99,8 +130,27 @@ interface ConfigState {
   levelEditMode: boolean;
   setLevelEditMode: (v: boolean) => void;
 
-  // Guideline polyline — ONE connected chain of points
-  guidePoints: Point2D[];
+  // ─── Guide chains ───────────────────────────────────────────
+  // A project can hold several independent chains. The active one is edited
+  // through guidePoints / guideClosed / edgeConfigs / guideConstraints below;
+  // its entry in guideChains is only written back when another chain is
+  // activated, so read all chains through getChains().
+  guideChains: GuideChain[];
+  activeChainId: string;
+  /** Start a new, empty chain and begin drawing it */
+  addGuideChain: () => void;
+  setActiveChain: (id: string) => void;
+  renameGuideChain: (id: string, name: string) => void;
+  /** Remove a chain; the last remaining chain is cleared instead */
+  removeGuideChain: (id: string) => void;
+
+  // Guideline polyline of the active chain — edge configs and locks refer to
+  // its points by ID, never by index
+  guidePoints: GuidelineVertex[];
+  /** Closed loop: the last point joins the first and every vertex is a corner */
+  guideClosed: boolean;
+  /** Locked lengths, angles and points of the active chain */
+  guideConstraints: GuideConstraint[];
   previewPoint: Point2D | null;
   isDrawing: boolean;
   snapEnabled: boolean;
@@ -120,8 +170,20 @@ interface ConfigState {
   setPreviewPoint: (pt: Point2D | null) => void;
   setIsDrawing: (v: boolean) => void;
   undoLastPoint: () => void;
+  /** Join the last point to the first (needs 3 points) or reopen the loop */
+  setGuideClosed: (closed: boolean) => void;
+  /** Walk the chain the other way — inside and outside swap, every side keeps its data mirrored */
+  reverseGuide: () => void;
   clearGuide: () => void;
   toggleSnap: () => void;
+
+  // Locked dimensions — while any are set, edits go through the constraint solver
+  toggleLengthLock: (segIndex: number) => void;
+  toggleAngleLock: (vertexIndex: number) => void;
+  togglePositionLock: (vertexIndex: number) => void;
+  /** Lock the straight distance between two points, e.g. the width between two walls */
+  addDistanceConstraint: (fromIndex: number, toIndex: number, value: number) => void;
+  removeConstraint: (index: number) => void;
   toggleSnapAngle: () => void;
 
   // Computed
@@ -138,6 +200,11 @@ interface ConfigState {
   // ─── Project config ───────────────────────────────────────
   projectConfig: ProjectConfig;
   setProjectField: <K extends keyof ProjectConfig>(key: K, value: ProjectConfig[K]) => void;
+  /** Switch product system and regenerate the glazing panels of every chain */
+  setProductSystem: (id: string) => void;
+  /** Project library entry the working copy was opened from or last saved to */
+  libraryProjectId: string | null;
+  setLibraryProjectId: (id: string | null) => void;
 
   // ─── Profile config ───────────────────────────────────────
   profileConfig: ProfileConfig;
@@ -147,6 +214,11 @@ interface ConfigState {
   frameWidthSettings: FrameWidthSettings;
   setFrameWidthField: <K extends keyof FrameWidthSettings>(key: K, value: FrameWidthSettings[K]) => void;
 
+  // ─── Cutting stock ─────────────────────────────────────────
+  cuttingStockSettings: CuttingStockSettings;
+  setCuttingStockField: (key: 'kerf' | 'minUsableOffcut', value: number) => void;
+  setStockLength: (profileType: keyof StockLengths, length: number) => void;
+
   // ─── Segment selection ─────────────────────────────────────
   selectedSegmentIndex: number | null;
   setSelectedSegmentIndex: (index: number | null) => void;
@@ -154,13 +226,32 @@ interface ConfigState {
   // ─── Per-edge config ───────────────────────────────────────
   edgeConfigs: EdgeConfig[];
   setEdgeWallOrGlazing: (segIndex: number, status: 'wall' | 'glazing') => void;
+  /** Door in a wall side; null removes it */
+  setEdgeDoor: (segIndex: number, door: WallDoor | null) => void;
   addPanel: (segIndex: number) => void;
   removePanel: (segIndex: number, panelIndex: number) => void;
   updatePanelField: (segIndex: number, panelIndex: number, field: keyof Panel, value: string | number) => void;
+  /** Regenerate the side's panels and put it back on auto layout */
   autoGeneratePanels: (segIndex: number) => void;
+  /** Manual layout keeps the panels through geometry changes; auto regenerates them */
+  setEdgeLayoutLocked: (segIndex: number, locked: boolean) => void;
 
   // ─── Computed edge data ─────────────────────────────────────
   getEdgeData: (segIndex: number) => ComputedEdgeData | null;
+  /** All sides + totals of the active chain, computed by the headless project engine */
+  getProjectData: () => ComputedProject;
+  /** Every chain with the active one's working state */
+  getChains: () => GuideChain[];
+  /** Every chain computed separately, in chain order */
+  getChainProjects: () => ChainProject[];
+
+  // ─── Layout optimizer ──────────────────────────────────────
+  /** Project-wide panel layout waiting for accept/reject */
+  layoutProposal: LayoutProposal | null;
+  proposeLayout: () => void;
+  /** Apply the proposal — ignored if the geometry changed since it was made */
+  acceptLayoutProposal: () => void;
+  rejectLayoutProposal: () => void;
 
   // ─── Accordion UI ──────────────────────────────────────────
   expandedSections: Record<string, boolean>;
@@ -189,6 +280,9 @@ interface ConfigState {
   // ─── 2D HUD toggles ─────────────────────────────────────
   showLevels2D: boolean;
   setShowLevels2D: (v: boolean) => void;
+  /** Ghost of the opened state — parked panel stacks and door zones */
+  showParking2D: boolean;
+  setShowParking2D: (v: boolean) => void;
 
   // ─── 3D guide planes ──────────────────────────────────────
   showGuidePlanes: boolean;
@@ -199,12 +293,90 @@ interface ConfigState {
   // ─── 2D viewBox (shared between SVG and Three.js) ──────
   cadViewBox: { x: number; y: number; w: number; h: number };
   setCadViewBox: (vb: { x: number; y: number; w: number; h: number }) => void;
+
+  // ─── Undo / redo ──────────────────────────────────────────
+  undo: () => void;
+  redo: () => void;
+  /** Record every edit until endHistoryGroup as one step, e.g. a drag */
+  beginHistoryGroup: () => void;
+  endHistoryGroup: () => void;
+  /** Forget the undo history, e.g. after loading a project */
+  clearHistory: () => void;
 }
 
+// ─── Undo history ─────────────────────────────────────────────
+// The project data is what undo restores; selection, view and point cloud
+// state stay as they are.
+const HISTORY_KEYS = [
+  'levels',
+  'guideChains',
+  'activeChainId',
+  'guidePoints',
+  'guideClosed',
+  'guideConstraints',
+  'freeGlassWidth',
+  'projectConfig',
+  'profileConfig',
+  'frameWidthSettings',
+  'cuttingStockSettings',
+  'edgeConfigs',
+] as const satisfies readonly (keyof ConfigState)[];
+
+const PANEL_FIELD_LABELS: Partial<Record<keyof Panel, string>> = {
+  length: 'Ändra panelbredd',
+  opening: 'Ändra öppningsriktning',
+  lock: 'Ändra panellås',
+};
+
+const configHistory = createHistory<ConfigState>(HISTORY_KEYS, {
+  setLevelZ: 'Ändra nivå',
+  setLevelVisible: (_, visible) => (visible ? 'Visa nivå' : 'Dölj nivå'),
+  setLevelFromClip: 'Nivå från klipphöjd',
+  addGuideChain: 'Ny kedja',
+  setActiveChain: 'Byt kedja',
+  renameGuideChain: 'Byt namn på kedja',
+  removeGuideChain: 'Ta bort kedja',
+  toggleFreeGlassWidth: 'Fritt glasmått',
+  addPoint: 'Lägg till punkt',
+  movePoint: 'Flytta punkt',
+  removePoint: 'Ta bort punkt',
+  insertPointOnSegment: 'Infoga punkt',
+  updateSegmentLength: 'Ändra sidlängd',
+  updateAngle: 'Ändra vinkel',
+  undoLastPoint: 'Ta bort senaste punkt',
+  setGuideClosed: (closed) => (closed ? 'Stäng kedja' : 'Öppna kedja'),
+  reverseGuide: 'Vänd riktning',
+  clearGuide: 'Rensa kedja',
+  toggleLengthLock: 'Lås längd',
+  toggleAngleLock: 'Lås vinkel',
+  togglePositionLock: 'Lås punkt',
+  addDistanceConstraint: 'Lås totalmått',
+  removeConstraint: 'Ta bort lås',
+  setProjectField: 'Ändra projektuppgift',
+  setProductSystem: 'Byt produktsystem',
+  setProfileField: 'Ändra profil',
+  setFrameWidthField: 'Ändra rambredd',
+  setCuttingStockField: 'Ändra kapinställning',
+  setStockLength: 'Ändra lagerlängd',
+  setEdgeWallOrGlazing: (segIndex, status) => `Sida ${segIndex + 1} till ${status === 'wall' ? 'vägg' : 'glas'}`,
+  setEdgeDoor: (_, door) => (door ? 'Ändra dörr' : 'Ta bort dörr'),
+  addPanel: 'Lägg till panel',
+  removePanel: 'Ta bort panel',
+  updatePanelField: (_, __, field) => PANEL_FIELD_LABELS[field] ?? 'Ändra panel',
+  autoGeneratePanels: 'Auto-generera paneler',
+  setEdgeLayoutLocked: (_, locked) => (locked ? 'Lås panellayout' : 'Lås upp panellayout'),
+  acceptLayoutProposal: 'Optimerad layout',
+  // Selecting a side brings its panels up to date; a step only when that changed anything
+  setSelectedSegmentIndex: 'Uppdatera paneler',
+});
+
+/** Undo steps of the configurator, for the history panel */
+export const useConfigHistory = configHistory.useHistory;
+
 // ─── Helper: resize segment geometry to match total panel module length ──
 function resizeSegmentToFitPanels(state: ConfigState, segIndex: number) {
   const pts = state.guidePoints;
-  if (segIndex < 0 || segIndex >= pts.length - 1) return;
+  if (segIndex < 0 || segIndex >= getSegmentCount(pts, state.guideClosed)) return;
   const edge = state.edgeConfigs[segIndex];
   if (!edge || edge.panels.length === 0) return;
 
@@ -214,81 +386,240 @@ function resizeSegmentToFitPanels(state: ConfigState, segIndex: number) {
   );
   if (totalModule <= 0) return;
 
+  const endIndex = segmentEndIndex(pts, segIndex);
   const s = pts[segIndex];
-  const e = pts[segIndex + 1];
+  const e = pts[endIndex];
   const dx = e.x - s.x;
   const dy = e.y - s.y;
   const currentLen = Math.sqrt(dx * dx + dy * dy);
   if (currentLen < 1e-10) return;
 
   const scale = totalModule / currentLen;
-  pts[segIndex + 1] = {
+  pts[endIndex] = {
+    ...e,
     x: s.x + dx * scale,
     y: s.y + dy * scale,
   };
 }
 
+// ─── Helper: product system of the project ──
+function activeSystem(state: Pick<ConfigState, 'projectConfig'>): ProductSystem {
+  return getProductSystem(state.projectConfig.productSystemId);
+}
+
 // ─── Helper: regenerate panels for a segment (force) ──
-// Always regenerates even if panels already exist.
+// Always regenerates even if panels already exist; the side is auto again.
 function forceRegenSegment(state: ConfigState, i: number) {
-  const pts = state.guidePoints;
-  if (i < 0 || i >= pts.length - 1) return;
+  const panels = generateSegmentPanels(
+    state.guidePoints,
+    state.edgeConfigs,
+    i,
+    state.freeGlassWidth,
+    activeSystem(state),
+    state.guideClosed,
+  );
+  if (panels) {
+    state.edgeConfigs[i].panels = panels;
+    delete state.edgeConfigs[i].layoutLocked;
+  }
+}
+
+// ─── Helper: keep a hand-edited segment ──
+// Locks the layout so regeneration leaves it alone, and re-fits the offsets.
+function lockSegmentLayout(state: ConfigState, i: number) {
   const edge = state.edgeConfigs[i];
   if (!edge || edge.wallOrGlazingStatus === 'wall') return;
-
-  const s = pts[i];
-  const e = pts[i + 1];
-  const edgeLength = Math.sqrt((e.x - s.x) ** 2 + (e.y - s.y) ** 2);
-  if (edgeLength < 50) return;
-
-  let startAngle = 0;
-  let endAngle = 0;
-  if (i > 0) startAngle = angleBetweenSegments(pts[i - 1], pts[i], pts[i + 1]);
-  if (i + 2 < pts.length) endAngle = angleBetweenSegments(pts[i], pts[i + 1], pts[i + 2]);
-
-  const startWall = isConnectedToWall(state.edgeConfigs, i, 'start');
-  const endWall = isConnectedToWall(state.edgeConfigs, i, 'end');
-
-  if (state.freeGlassWidth) {
-    edge.panels = evenDistributePanelsForEdge(edgeLength, startAngle, endAngle, startWall, endWall);
-  } else {
-    edge.panels = autoGeneratePanelsForEdge(edgeLength, startAngle, endAngle, startWall, endWall);
-  }
+  edge.layoutLocked = true;
+  const panels = refitSegmentPanels(state.guidePoints, state.edgeConfigs, i, activeSystem(state), state.guideClosed);
+  if (panels) edge.panels = panels;
 }
 
 // ─── Helper: regenerate ALL glazing segments ──
 // Changing one segment can cascade (wall status, angles, lock types)
 // so the safest approach is to regenerate every glazing segment.
 function regenAllGlazing(state: ConfigState, excludeIndex?: number) {
-  const segCount = state.guidePoints.length > 1 ? state.guidePoints.length - 1 : 0;
-  for (let i = 0; i < segCount; i++) {
-    if (i === excludeIndex) continue; // already handled by caller
-    forceRegenSegment(state, i);
+  state.edgeConfigs = regenerateGlazingPanels(
+    state.guidePoints,
+    state.edgeConfigs,
+    state.freeGlassWidth,
+    activeSystem(state),
+    excludeIndex,
+    state.guideClosed,
+  );
+}
+
+// ─── Helper: regenerate the glazing of the chains not being edited ──
+// Panels follow global settings (product system, free glass width), and the
+// inactive chains are part of the project's calculations too.
+function regenInactiveChains(state: ConfigState) {
+  const system = activeSystem(state);
+  for (const chain of state.guideChains) {
+    if (chain.id === state.activeChainId) continue;
+    chain.edgeConfigs = regenerateGlazingPanels(
+      chain.points,
+      chain.edgeConfigs,
+      state.freeGlassWidth,
+      system,
+      undefined,
+      chain.closed,
+    );
   }
 }
 
-// ─── Helper: ensure edgeConfigs array matches segment count ──
+// ─── Helper: match edge configs to the segments by vertex IDs ──
 function syncEdgeConfigs(state: ConfigState) {
-  const segCount = state.guidePoints.length > 1 ? state.guidePoints.length - 1 : 0;
-  while (state.edgeConfigs.length < segCount) {
-    state.edgeConfigs.push({ wallOrGlazingStatus: 'glazing', panels: [] });
-  }
-  if (state.edgeConfigs.length > segCount) {
-    state.edgeConfigs.length = segCount;
-  }
-  // Clamp selection
-  if (state.selectedSegmentIndex !== null && state.selectedSegmentIndex >= segCount) {
+  const selectedId = state.selectedSegmentIndex !== null
+    ? state.edgeConfigs[state.selectedSegmentIndex]?.id
+    : undefined;
+  state.edgeConfigs = matchEdgeConfigsToSegments(state.guidePoints, state.edgeConfigs, state.guideClosed);
+  const segCount = state.edgeConfigs.length;
+  // The selection follows its side; if the side is gone, clamp the index
+  const selectedIndex = state.edgeConfigs.findIndex((e) => e.id === selectedId);
+  if (selectedIndex >= 0) {
+    state.selectedSegmentIndex = selectedIndex;
+  } else if (state.selectedSegmentIndex !== null && state.selectedSegmentIndex >= segCount) {
     state.selectedSegmentIndex = segCount > 0 ? segCount - 1 : null;
   }
+  state.guideConstraints = validConstraints(
+    state.guideConstraints,
+    state.guidePoints,
+    state.edgeConfigs,
+    state.guideClosed,
+  );
   // Regenerate panels for ALL glazing edges — angles, wall status,
   // and lock types can cascade so every segment must stay in sync.
-  for (let i = 0; i < segCount; i++) {
-    forceRegenSegment(state, i);
+  regenAllGlazing(state);
+}
+
+// ─── Helper: drop a selection the restored chain no longer has ──
+function keepSelectionInRange(state: ConfigState) {
+  if (state.selectedSegmentIndex !== null && state.selectedSegmentIndex >= state.edgeConfigs.length) {
+    state.selectedSegmentIndex = null;
   }
 }
 
+// ─── Helper: edit geometry through the locked dimensions ──
+/**
+ * Solve the active chain with an edit as one more lock. A lock on the same
+ * dimension takes the new value; otherwise the edit only drives this solve.
+ * Returns false, leaving the points as they were, when the locks and the
+ * edit cannot all be met.
+ */
+function solveWithEdit(state: ConfigState, edit: GuideConstraint): boolean {
+  const key = constraintKey(edit);
+  const locked = state.guideConstraints.some((c) => constraintKey(c) === key);
+  const constraints = locked
+    ? state.guideConstraints.map((c) => (constraintKey(c) === key ? edit : c))
+    : [...state.guideConstraints, edit];
+  const result = solveGuide(state.guidePoints, state.edgeConfigs, state.guideClosed, constraints);
+  if (!result.converged) return false;
+  state.guidePoints = result.points;
+  if (locked) state.guideConstraints = constraints;
+  return true;
+}
+
+/** Add a lock at its current value, or remove it if already set */
+function toggleLock(state: ConfigState, lock: GuideConstraint) {
+  const key = constraintKey(lock);
+  const index = state.guideConstraints.findIndex((c) => constraintKey(c) === key);
+  if (index >= 0) {
+    state.guideConstraints.splice(index, 1);
+    return;
+  }
+  const measured = measureConstraint(state.guidePoints, state.edgeConfigs, state.guideClosed, lock);
+  if (measured) state.guideConstraints.push(measured);
+}
+
+// ─── Helpers: guide chains ──
+const FIRST_CHAIN_ID = 'chain-1';
+
+function createChain(id: string, name: string): GuideChain {
+  return { id, name, points: [], closed: false, edgeConfigs: [], constraints: [] };
+}
+
+function nextChainNumber(chains: GuideChain[]): number {
+  const numbers = chains.map((c) => parseInt(c.id.replace('chain-', ''), 10) || 0);
+  return Math.max(0, ...numbers) + 1;
+}
+
+/** All chains with the active chain's working state written in (never stale) */
+export function withActiveChain(
+  guideChains: GuideChain[],
+  activeChainId: string,
+  active: Pick<GuideChain, 'points' | 'closed' | 'edgeConfigs' | 'constraints'>,
+): GuideChain[] {
+  return guideChains.map((c) => (c.id === activeChainId ? { ...c, ...active } : c));
+}
+
+function chainsWithActive(state: ConfigState): GuideChain[] {
+  return withActiveChain(state.guideChains, state.activeChainId, {
+    points: state.guidePoints,
+    closed: state.guideClosed,
+    edgeConfigs: state.edgeConfigs,
+    constraints: state.guideConstraints,
+  });
+}
+
+/** Store values the last chain projects were computed from, by reference */
+let chainProjectsCache: { inputs: unknown[]; projects: ChainProject[] } | null = null;
+
+/**
+ * Every chain computed separately. Memoized on the inputs, so all
+ * subscribers share one computation per edit instead of one each.
+ */
+export function selectChainProjects(state: ConfigState): ChainProject[] {
+  const inputs = [
+    state.guideChains,
+    state.activeChainId,
+    state.guidePoints,
+    state.guideClosed,
+    state.edgeConfigs,
+    state.guideConstraints,
+    state.levels,
+    state.profileConfig,
+    state.frameWidthSettings,
+    state.projectConfig.glastyp,
+    state.projectConfig.productSystemId,
+  ];
+  const cached = chainProjectsCache;
+  if (cached && inputs.every((value, i) => value === cached.inputs[i])) return cached.projects;
+  const projects = computeChainProjects(chainsWithActive(state), {
+    levels: state.levels,
+    profileConfig: state.profileConfig,
+    frameWidthSettings: state.frameWidthSettings,
+    glassType: state.projectConfig.glastyp,
+    system: activeSystem(state),
+  });
+  chainProjectsCache = { inputs, projects };
+  return projects;
+}
+
+/** Write the working state back into the active chain's entry */
+function storeActiveChain(state: ConfigState) {
+  const chain = state.guideChains.find((c) => c.id === state.activeChainId);
+  if (!chain) return;
+  chain.points = state.guidePoints;
+  chain.closed = state.guideClosed;
+  chain.edgeConfigs = state.edgeConfigs;
+  chain.constraints = state.guideConstraints;
+}
+
+/** Make a chain the working state; drawing and selection do not carry over */
+function activateChain(state: ConfigState, chain: GuideChain) {
+  state.activeChainId = chain.id;
+  state.guidePoints = chain.points;
+  state.guideClosed = chain.closed;
+  state.edgeConfigs = chain.edgeConfigs;
+  state.guideConstraints = chain.constraints;
+  state.isDrawing = false;
+  state.previewPoint = null;
+  state.selectedSegmentIndex = null;
+  // Bring the panels up to date with settings changed while it was inactive
+  regenAllGlazing(state);
+}
+
 export const useConfigStore = create<ConfigState>()(
-  immer((set, get) => ({
+  immer(configHistory.record((set, get) => ({
     // Levels
     levels: {
       levels: {
@@ -314,8 +645,55 @@ export const useConfigStore = create<ConfigState>()(
         state.levelEditMode = v;
       }),
 
+    // ─── Guide chains ───────────────────────────────────────────
+    guideChains: [createChain(FIRST_CHAIN_ID, 'Kedja 1')],
+    activeChainId: FIRST_CHAIN_ID,
+
+    addGuideChain: () =>
+      set((state) => {
+        storeActiveChain(state);
+        const n = nextChainNumber(state.guideChains);
+        const chain = createChain(`chain-${n}`, `Kedja ${n}`);
+        state.guideChains.push(chain);
+        activateChain(state, chain);
+        state.activeMode = 'draw-guide';
+      }),
+
+    setActiveChain: (id) =>
+      set((state) => {
+        if (id === state.activeChainId) return;
+        const chain = state.guideChains.find((c) => c.id === id);
+        if (!chain) return;
+        storeActiveChain(state);
+        activateChain(state, chain);
+      }),
+
+    renameGuideChain: (id, name) =>
+      set((state) => {
+        const chain = state.guideChains.find((c) => c.id === id);
+        if (chain) chain.name = name;
+      }),
+
+    removeGuideChain: (id) =>
+      set((state) => {
+        const index = state.guideChains.findIndex((c) => c.id === id);
+        if (index < 0) return;
+        if (state.guideChains.length === 1) {
+          activateChain(state, { ...state.guideChains[0], points: [], closed: false, edgeConfigs: [], constraints: [] });
+          storeActiveChain(state);
+          return;
+        }
+        storeActiveChain(state);
+        state.guideChains.splice(index, 1);
+        if (id === state.activeChainId) {
+          activateChain(state, state.guideChains[Math.max(0, index - 1)]);
+        }
+      }),
+
     // Guideline polyline
     guidePoints: [],
+    guideClosed: false,
+    guideConstraints: [],
     previewPoint: null,
     isDrawing: false,
     snapEnabled: true,
@@ -324,18 +702,27 @@ export const useConfigStore = create<ConfigState>()(
 
     addPoint: (pt) =>
       set((state) => {
+        // A closed loop has no free end to extend
+        if (state.guideClosed) return;
         const origin = state.guidePoints.length > 0
           ? state.guidePoints[state.guidePoints.length - 1]
           : null;
         const snapped = applySnap(pt, origin, state.snapAngle);
-        state.guidePoints.push(snapped);
+        state.guidePoints.push(createVertex(snapped));
         syncEdgeConfigs(state);
       }),
 
     movePoint: (index, pt) =>
       set((state) => {
         if (index >= 0 && index < state.guidePoints.length) {
-          state.guidePoints[index] = pt;
+          if (state.guideConstraints.length > 0) {
+            // A locked point stays put; otherwise the rest follows the locks
+            const vertexId = state.guidePoints[index].id;
+            if (state.guideConstraints.some((c) => c.kind === 'position' && c.vertexId === vertexId)) return;
+            if (!solveWithEdit(state, { kind: 'position', vertexId, x: pt.x, y: pt.y })) return;
+          } else {
+            state.guidePoints[index] = { ...state.guidePoints[index], x: pt.x, y: pt.y };
+          }
           // Moving a point changes angles — regenerate ALL glazing segments
           regenAllGlazing(state);
         }
@@ -343,7 +730,17 @@ export const useConfigStore = create<ConfigState>()(
 
     removePoint: (index) =>
       set((state) => {
-        if (state.guidePoints.length > 2 && index >= 0 && index < state.guidePoints.length) {
+        const minPoints = state.guideClosed ? 3 : 2;
+        if (state.guidePoints.length > minPoints && index >= 0 && index < state.guidePoints.length) {
+          // The side spanning the gap keeps the wall/glazing status of the side before the point
+          const removed = state.guidePoints[index];
+          const incoming = state.edgeConfigs.find((e) => e.endVertexId === removed.id);
+          const outgoing = state.edgeConfigs.find((e) => e.startVertexId === removed.id);
+          if (incoming && outgoing) {
+            state.edgeConfigs.push(
+              createEdgeConfig(incoming.startVertexId, outgoing.endVertexId, incoming.wallOrGlazingStatus),
+            );
+          }
           state.guidePoints.splice(index, 1);
           syncEdgeConfigs(state);
         }
@@ -351,14 +748,17 @@ export const useConfigStore = create<ConfigState>()(
 
     insertPointOnSegment: (segmentIndex, pt) =>
       set((state) => {
-        if (segmentIndex >= 0 && segmentIndex < state.guidePoints.length - 1) {
-          state.guidePoints.splice(segmentIndex + 1, 0, pt);
-          // Insert a new edge config after the split segment
-          const oldConfig = state.edgeConfigs[segmentIndex];
-          state.edgeConfigs.splice(segmentIndex + 1, 0, {
-            wallOrGlazingStatus: oldConfig?.wallOrGlazingStatus ?? 'glazing',
-            panels: [],
-          });
+        if (segmentIndex >= 0 && segmentIndex < getSegmentCount(state.guidePoints, state.guideClosed)) {
+          const start = state.guidePoints[segmentIndex];
+          const end = state.guidePoints[segmentEndIndex(state.guidePoints, segmentIndex)];
+          const vertex = createVertex(pt);
+          state.guidePoints.splice(segmentIndex + 1, 0, vertex);
+          // Both halves replace the split side and keep its wall/glazing status
+          const status = state.edgeConfigs[segmentIndex]?.wallOrGlazingStatus ?? 'glazing';
+          state.edgeConfigs.push(
+            createEdgeConfig(start.id, vertex.id, status),
+            createEdgeConfig(vertex.id, end.id, status),
+          );
           syncEdgeConfigs(state);
         }
       }),
@@ -366,15 +766,24 @@ export const useConfigStore = create<ConfigState>()(
     updateSegmentLength: (segmentIndex, newLength) =>
       set((state) => {
         const pts = state.guidePoints;
-        if (segmentIndex < 0 || segmentIndex >= pts.length - 1) return;
+        if (segmentIndex < 0 || segmentIndex >= getSegmentCount(pts, state.guideClosed)) return;
+        if (state.guideConstraints.length > 0) {
+          const edgeId = state.edgeConfigs[segmentIndex].id;
+          if (solveWithEdit(state, { kind: 'length', edgeId, value: newLength })) {
+            regenAllGlazing(state);
+          }
+          return;
+        }
+        const endIndex = segmentEndIndex(pts, segmentIndex);
         const s = pts[segmentIndex];
-        const e = pts[segmentIndex + 1];
+        const e = pts[endIndex];
         const dx = e.x - s.x;
         const dy = e.y - s.y;
         const currentLen = Math.sqrt(dx * dx + dy * dy);
         if (currentLen < 1e-10) return;
         const scale = newLength / currentLen;
-        pts[segmentIndex + 1] = {
+        pts[endIndex] = {
+          ...e,
           x: s.x + dx * scale,
           y: s.y + dy * scale,
         };
@@ -384,29 +793,34 @@ export const useConfigStore = create<ConfigState>()(
     updateAngle: (vertexIndex, newAngle) =>
       set((state) => {
         const pts = state.guidePoints;
-        if (vertexIndex <= 0 || vertexIndex >= pts.length - 1) return;
-        const prev = pts[vertexIndex - 1];
+        const nb = vertexNeighbours(pts, vertexIndex, state.guideClosed);
+        if (!nb) return;
+        // The corner angle is signed by the glazing side, locks by the turn of travel
+        const turnAngle = newAngle * glazingSide(pts);
+        if (state.guideConstraints.length > 0) {
+          if (solveWithEdit(state, { kind: 'angle', vertexId: pts[vertexIndex].id, value: turnAngle })) {
+            regenAllGlazing(state);
+          }
+          return;
+        }
+        const prev = pts[nb.prev];
         const curr = pts[vertexIndex];
-        const next = pts[vertexIndex + 1];
+        const next = pts[nb.next];
 
         // Incoming direction: prev → curr
         const inDx = curr.x - prev.x;
         const inDy = curr.y - prev.y;
         const inAngle = Math.atan2(inDy, inDx);
 
-        // Determine current winding via cross product
-        const outDx = next.x - curr.x;
-        const outDy = next.y - curr.y;
-        const cross = inDx * outDy - inDy * outDx;
-
-        // cross >= 0 means left turn, cross < 0 means right turn
-        const newAngleRad = newAngle * (Math.PI / 180);
-        const outAngle = cross >= 0
-          ? inAngle + Math.PI - newAngleRad
-          : inAngle - Math.PI + newAngleRad;
+        // Signed turn: positive turns right, negative left
+        const newAngleRad = Math.abs(turnAngle) * (Math.PI / 180);
+        const outAngle = turnAngle > 0
+          ? inAngle - Math.PI + newAngleRad
+          : inAngle + Math.PI - newAngleRad;
 
         const outLen = distance2D(curr.x, curr.y, next.x, next.y);
-        pts[vertexIndex + 1] = {
+        pts[nb.next] = {
+          ...next,
           x: curr.x + Math.cos(outAngle) * outLen,
           y: curr.y + Math.sin(outAngle) * outLen,
         };
@@ -433,7 +847,10 @@ export const useConfigStore = create<ConfigState>()(
 
     undoLastPoint: () =>
       set((state) => {
-        if (state.guidePoints.length > 0) {
+        // Undo the closing segment first, then points
+        if (state.guideClosed) {
+          state.guideClosed = false;
+        } else if (state.guidePoints.length > 0) {
           state.guidePoints.pop();
         }
         if (state.guidePoints.length === 0) {
@@ -443,15 +860,72 @@ export const useConfigStore = create<ConfigState>()(
         syncEdgeConfigs(state);
       }),
 
+    setGuideClosed: (closed) =>
+      set((state) => {
+        if (closed && !canCloseChain(state.guidePoints)) return;
+        if (state.guideClosed === closed) return;
+        state.guideClosed = closed;
+        if (closed) {
+          state.isDrawing = false;
+          state.previewPoint = null;
+        }
+        syncEdgeConfigs(state);
+      }),
+
+    reverseGuide: () =>
+      set((state) => {
+        if (state.guidePoints.length < 2) return;
+        state.guidePoints.reverse();
+        state.guideConstraints = reversedConstraints(state.guideConstraints);
+        syncEdgeConfigs(state);
+      }),
+
     clearGuide: () =>
       set((state) => {
         state.guidePoints = [];
+        state.guideClosed = false;
         state.isDrawing = false;
         state.previewPoint = null;
         state.edgeConfigs = [];
+        state.guideConstraints = [];
         state.selectedSegmentIndex = null;
       }),
 
+    toggleLengthLock: (segIndex) =>
+      set((state) => {
+        const edge = state.edgeConfigs[segIndex];
+        if (edge) toggleLock(state, { kind: 'length', edgeId: edge.id, value: 0 });
+      }),
+
+    toggleAngleLock: (vertexIndex) =>
+      set((state) => {
+        const vertex = state.guidePoints[vertexIndex];
+        if (vertex) toggleLock(state, { kind: 'angle', vertexId: vertex.id, value: 0 });
+      }),
+
+    togglePositionLock: (vertexIndex) =>
+      set((state) => {
+        const vertex = state.guidePoints[vertexIndex];
+        if (vertex) toggleLock(state, { kind: 'position', vertexId: vertex.id, x: 0, y: 0 });
+      }),
+
+    addDistanceConstraint: (fromIndex, toIndex, value) =>
+      set((state) => {
+        const from = state.guidePoints[fromIndex];
+        const to = state.guidePoints[toIndex];
+        if (!from || !to || fromIndex === toIndex || value <= 0) return;
+        const lock: GuideConstraint = { kind: 'distance', fromVertexId: from.id, toVertexId: to.id, value };
+        // Kept even when it cannot be met — the status then shows the conflict
+        if (solveWithEdit(state, lock)) regenAllGlazing(state);
+        const key = constraintKey(lock);
+        state.guideConstraints = [...state.guideConstraints.filter((c) => constraintKey(c) !== key), lock];
+      }),
+
+    removeConstraint: (index) =>
+      set((state) => {
+        if (index >= 0 && index < state.guideConstraints.length) state.guideConstraints.splice(index, 1);
+      }),
+
     toggleSnap: () =>
       set((state) => {
         state.snapEnabled = !state.snapEnabled;
@@ -465,49 +939,46 @@ export const useConfigStore = create<ConfigState>()(
     toggleFreeGlassWidth: () =>
       set((state) => {
         state.freeGlassWidth = !state.freeGlassWidth;
+        regenInactiveChains(state);
 
         // Re-generate all glazing panels with the new mode
         const pts = state.guidePoints;
-        const segCount = pts.length - 1;
+        const segCount = getSegmentCount(pts, state.guideClosed);
         if (segCount < 1) return;
 
         syncEdgeConfigs(state);
 
         for (let i = 0; i < segCount; i++) {
-          const edge = state.edgeConfigs[i];
-          if (!edge || edge.wallOrGlazingStatus === 'wall') continue;
-
-          const s = pts[i];
-          const e = pts[i + 1];
-          const edgeLength = Math.sqrt((e.x - s.x) ** 2 + (e.y - s.y) ** 2);
-          if (edgeLength < 50) continue;
-
-          let startAngle = 0;
-          let endAngle = 0;
-          if (i > 0) startAngle = angleBetweenSegments(pts[i - 1], pts[i], pts[i + 1]);
-          if (i + 2 < pts.length) endAngle = angleBetweenSegments(pts[i], pts[i + 1], pts[i + 2]);
-
-          const startWall = isConnectedToWall(state.edgeConfigs, i, 'start');
-          const endWall = isConnectedToWall(state.edgeConfigs, i, 'end');
-
-          if (state.freeGlassWidth) {
-            edge.panels = evenDistributePanelsForEdge(edgeLength, startAngle, endAngle, startWall, endWall);
-          } else {
-            edge.panels = autoGeneratePanelsForEdge(edgeLength, startAngle, endAngle, startWall, endWall);
-            resizeSegmentToFitPanels(state, i);
+          // Hand-edited sides keep their panels and are only re-fitted
+          if (state.edgeConfigs[i]?.layoutLocked) {
+            const refitted = refitSegmentPanels(pts, state.edgeConfigs, i, activeSystem(state), state.guideClosed);
+            if (refitted) state.edgeConfigs[i].panels = refitted;
+            continue;
           }
+          const panels = generateSegmentPanels(
+            pts,
+            state.edgeConfigs,
+            i,
+            state.freeGlassWidth,
+            activeSystem(state),
+            state.guideClosed,
+          );
+          if (!panels) continue;
+          state.edgeConfigs[i].panels = panels;
+          if (!state.freeGlassWidth) resizeSegmentToFitPanels(state, i);
         }
       }),
 
     // Computed
     getSegments: () => {
-      const pts = get().guidePoints;
+      const { guidePoints: pts, guideClosed } = get();
       const segs: SegmentInfo[] = [];
-      for (let i = 0; i < pts.length - 1; i++) {
+      for (let i = 0; i < getSegmentCount(pts, guideClosed); i++) {
+        const end = pts[segmentEndIndex(pts, i)];
         segs.push({
           start: pts[i],
-          end: pts[i + 1],
-          length: distance2D(pts[i].x, pts[i].y, pts[i + 1].x, pts[i + 1].y),
+          end,
+          length: distance2D(pts[i].x, pts[i].y, end.x, end.y),
           index: i,
         });
       }
@@ -515,19 +986,24 @@ export const useConfigStore = create<ConfigState>()(
     },
 
     getAngles: () => {
-      const pts = get().guidePoints;
-      const angles: AngleInfo[] = [];
-      for (let i = 1; i < pts.length - 1; i++) {
-        const angle = angleBetweenSegments(pts[i - 1], pts[i], pts[i + 1]);
-        angles.push({ vertex: pts[i], angle, index: i });
-      }
-      return angles;
+      const { guidePoints: pts, guideClosed } = get();
+      return cornerVertexIndices(pts, guideClosed).map((i) => ({
+        vertex: pts[i],
+        angle: vertexAngle(pts, i, guideClosed),
+        index: i,
+      }));
     },
 
     getOffsetPoints: () => {
-      const pts = get().guidePoints;
+      const { guidePoints: pts, guideClosed } = get();
       if (pts.length < 2) return [];
-      return calculateOffsetPoints(pts, GUIDE_OFFSET_DISTANCE, GUIDE_START_INSET, GUIDE_END_INSET);
+      return calculateOffsetPoints(
+        pts,
+        GUIDE_OFFSET_DISTANCE,
+        GUIDE_START_INSET,
+        GUIDE_END_INSET,
+        guideClosed,
+      );
     },
 
     // UI state
@@ -554,6 +1030,19 @@ export const useConfigStore = create<ConfigState>()(
         (state.projectConfig as Record<string, unknown>)[key] = value;
       }),
 
+    setProductSystem: (id) =>
+      set((state) => {
+        state.projectConfig.productSystemId = getProductSystem(id).id;
+        regenAllGlazing(state);
+        regenInactiveChains(state);
+      }),
+
+    libraryProjectId: null,
+    setLibraryProjectId: (id) =>
+      set((state) => {
+        state.libraryProjectId = id;
+      }),
+
     // ─── Profile config ───────────────────────────────────────
     profileConfig: { ...DEFAULT_PROFILE_CONFIG },
     setProfileField: (key, value) =>
@@ -568,6 +1057,20 @@ export const useConfigStore = create<ConfigState>()(
         state.frameWidthSettings[key] = value;
       }),
 
+    // ─── Cutting stock ─────────────────────────────────────────
+    cuttingStockSettings: {
+      ...DEFAULT_CUTTING_STOCK_SETTINGS,
+      stockLengths: { ...DEFAULT_CUTTING_STOCK_SETTINGS.stockLengths },
+    },
+    setCuttingStockField: (key, value) =>
+      set((state) => {
+        state.cuttingStockSettings[key] = value;
+      }),
+    setStockLength: (profileType, length) =>
+      set((state) => {
+        state.cuttingStockSettings.stockLengths[profileType] = length;
+      }),
+
     // ─── Segment selection ─────────────────────────────────────
     selectedSegmentIndex: null,
     setSelectedSegmentIndex: (index) => {
@@ -600,8 +1103,10 @@ export const useConfigStore = create<ConfigState>()(
           state.edgeConfigs[segIndex].wallOrGlazingStatus = status;
           if (status === 'wall') {
             state.edgeConfigs[segIndex].panels = [];
+            delete state.edgeConfigs[segIndex].layoutLocked;
           } else {
             // Switching to glazing — generate panels
+            delete state.edgeConfigs[segIndex].door;
             forceRegenSegment(state, segIndex);
           }
           // Neighbors need regen: wall/glazing status affects isConnectedToWall
@@ -610,6 +1115,14 @@ export const useConfigStore = create<ConfigState>()(
         }
       }),
 
+    setEdgeDoor: (segIndex, door) =>
+      set((state) => {
+        const edge = state.edgeConfigs[segIndex];
+        if (!edge || edge.wallOrGlazingStatus !== 'wall') return;
+        if (door) edge.door = door;
+        else delete edge.door;
+      }),
+
     addPanel: (segIndex) =>
       set((state) => {
         syncEdgeConfigs(state);
@@ -624,6 +1137,7 @@ export const useConfigStore = create<ConfigState>()(
             offsetRight: 0,
           });
           resizeSegmentToFitPanels(state, segIndex);
+          lockSegmentLayout(state, segIndex);
         }
       }),
 
@@ -637,6 +1151,7 @@ export const useConfigStore = create<ConfigState>()(
             panels.forEach((p, i) => { p.name = `${i + 1}`; });
           }
           resizeSegmentToFitPanels(state, segIndex);
+          lockSegmentLayout(state, segIndex);
         }
       }),
 
@@ -652,6 +1167,7 @@ export const useConfigStore = create<ConfigState>()(
           if (field === 'length') {
             resizeSegmentToFitPanels(state, segIndex);
           }
+          lockSegmentLayout(state, segIndex);
         }
       }),
 
@@ -668,21 +1184,80 @@ export const useConfigStore = create<ConfigState>()(
         regenAllGlazing(state, segIndex);
       }),
 
+    setEdgeLayoutLocked: (segIndex, locked) =>
+      set((state) => {
+        syncEdgeConfigs(state);
+        if (locked) {
+          lockSegmentLayout(state, segIndex);
+          return;
+        }
+        const edge = state.edgeConfigs[segIndex];
+        if (!edge) return;
+        delete edge.layoutLocked;
+        regenAllGlazing(state);
+      }),
+
     // ─── Computed edge data ─────────────────────────────────────
     getEdgeData: (segIndex: number) => {
       const state = get();
-      // Frame height = Mellanstycke - Understycke
-      const frameHeight =
-        state.levels.levels.Mellanstycke.zPosition -
-        state.levels.levels.Understycke.zPosition;
       return computeEdgeData(
         state.guidePoints,
         state.edgeConfigs,
         segIndex,
-        frameHeight,
+        getFrameHeight(state.levels),
+        activeSystem(state),
+        state.guideClosed,
       );
     },
 
+    getProjectData: () => {
+      const state = get();
+      return computeProject({
+        guidePoints: state.guidePoints,
+        closed: state.guideClosed,
+        edgeConfigs: state.edgeConfigs,
+        levels: state.levels,
+        profileConfig: state.profileConfig,
+        frameWidthSettings: state.frameWidthSettings,
+        glassType: state.projectConfig.glastyp,
+        system: activeSystem(state),
+      });
+    },
+
+    getChains: () => chainsWithActive(get()),
+
+    getChainProjects: () => selectChainProjects(get()),
+
+    // ─── Layout optimizer ──────────────────────────────────────
+    layoutProposal: null,
+    proposeLayout: () =>
+      set((state) => {
+        state.layoutProposal = optimizePanelLayout(chainsWithActive(state), activeSystem(state));
+      }),
+
+    acceptLayoutProposal: () =>
+      set((state) => {
+        const proposal = state.layoutProposal;
+        if (!proposal) return;
+        state.layoutProposal = null;
+        if (proposal.basis !== layoutBasis(chainsWithActive(state), activeSystem(state))) return;
+        for (const side of proposal.sides) {
+          const edgeConfigs = side.chainId === state.activeChainId
+            ? state.edgeConfigs
+            : state.guideChains.find((c) => c.id === side.chainId)?.edgeConfigs;
+          const edge = edgeConfigs?.[side.segIndex];
+          if (!edge) continue;
+          // An optimized layout is not what auto-generation would give — keep it
+          edge.panels = side.panels;
+          edge.layoutLocked = true;
+        }
+      }),
+
+    rejectLayoutProposal: () =>
+      set((state) => {
+        state.layoutProposal = null;
+      }),
+
     // ─── Point cloud ──────────────────────────────────────────
     pointCloudEnabled: false,
     setPointCloudEnabled: (v) =>
@@ -738,6 +1313,9 @@ export const useConfigStore = create<ConfigState>()(
     showLevels2D: false,
     setShowLevels2D: (v) =>
       set((state) => { state.showLevels2D = v; }),
+    showParking2D: false,
+    setShowParking2D: (v) =>
+      set((state) => { state.showParking2D = v; }),
 
     // ─── 3D guide planes ──────────────────────────────────────
     showGuidePlanes: false,
@@ -758,5 +1336,16 @@ export const useConfigStore = create<ConfigState>()(
       set((state) => {
         state.expandedSections[id] = !state.expandedSections[id];
       }),
-  })),
+
+    // ─── Undo / redo ──────────────────────────────────────────
+    undo: () => {
+      if (configHistory.undo()) set(keepSelectionInRange);
+    },
+    redo: () => {
+      if (configHistory.redo()) set(keepSelectionInRange);
+    },
+    beginHistoryGroup: () => configHistory.beginGroup(),
+    endHistoryGroup: () => configHistory.endGroup(),
+    clearHistory: () => configHistory.clear(),
+  }))),
 );
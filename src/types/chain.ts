@@ -0,0 +1,16 @@
+import type { GuidelineVertex } from './guideline';
+import type { EdgeConfig } from './edge';
+import type { GuideConstraint } from './constraint';
+
+/** One independent guide run, e.g. the front and a side niche of the same balcony */
+export interface GuideChain {
+  id: string;
+  name: string;
+  points: GuidelineVertex[];
+  /** Closed loop: the last point joins the first */
+  closed: boolean;
+  /** One per segment; side numbers restart at 1 in every chain */
+  edgeConfigs: EdgeConfig[];
+  /** Locked dimensions, keyed by point and side IDs */
+  constraints: GuideConstraint[];
+}
@@ -0,0 +1,35 @@
+/**
+ * A locked dimension of a guide chain, keyed by the vertex and edge IDs of
+ * the guide graph so it stays on its side through inserts and removals.
+ */
+export type GuideConstraint =
+  /** Side length (mm) */
+  | { kind: 'length'; edgeId: string; value: number }
+  /** Corner angle (degrees) signed by the turn of travel, as signedAngleBetweenSegments with the default side — reversing the chain negates it */
+  | { kind: 'angle'; vertexId: string; value: number }
+  /** Point fixed in the plan (mm) */
+  | { kind: 'position'; vertexId: string; x: number; y: number }
+  /** Straight distance between two points, e.g. the width between two walls (mm) */
+  | { kind: 'distance'; fromVertexId: string; toVertexId: string; value: number };
+
+/**
+ * A lock addressed by point and segment index — the solver's working form,
+ * and how saves from before the guide graph stored locks.
+ */
+export type IndexedGuideConstraint =
+  | { kind: 'length'; segIndex: number; value: number }
+  | { kind: 'angle'; vertexIndex: number; value: number }
+  | { kind: 'position'; vertexIndex: number; x: number; y: number }
+  | { kind: 'distance'; fromIndex: number; toIndex: number; value: number };
+
+export type ConstraintState = 'well' | 'under' | 'over' | 'conflict';
+
+export interface ConstraintStatus {
+  state: ConstraintState;
+  /** Shape dimensions still free — placement in the plan does not count */
+  freeDof: number;
+  /** Locks implied by the others */
+  redundant: number;
+  /** Indices into the constraint list that the geometry does not meet */
+  unsatisfied: number[];
+}
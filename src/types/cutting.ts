@@ -0,0 +1,16 @@
+/** Stock bar length per profile type (mm) */
+export interface StockLengths {
+  underskena: number;
+  overskena: number;
+  overhallare: number;
+  coverprofile: number;
+  brostningsram: number;
+  barlina: number;
+  bottenprofil: number;
+}
+
+export interface CuttingStockSettings {
+  stockLengths: StockLengths;
+  kerf: number; // mm, saw blade width
+  minUsableOffcut: number; // mm, shorter offcuts are scrap
+}
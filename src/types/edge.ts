@@ -1,6 +1,22 @@
 import type { Panel } from './panel';
+import type { GuidelineEdge } from './guideline';
 
-export interface EdgeConfig {
+/** Balcony door in a wall side, measured from the side's start point (mm) */
+export interface WallDoor {
+  offset: number;
+  width: number;
+}
+
+/** Stored data of one side, keyed by its edge in the guide graph */
+export interface EdgeConfig extends GuidelineEdge {
   wallOrGlazingStatus: 'wall' | 'glazing';
   panels: Panel[];
+  /**
+   * Manual panel layout: the panels were edited by hand and survive geometry
+   * changes — only their offsets are re-fitted. Absent means auto, regenerated
+   * from the rules whenever the chain changes.
+   */
+  layoutLocked?: boolean;
+  /** Door in a wall side — parked panels must keep the floor in front of it free */
+  door?: WallDoor;
 }
@@ -0,0 +1,5 @@
+export interface FrameWidthSettings {
+  maxWidthGlass: number; // mm
+  maxWidthCovered: number; // mm
+  maxWidthWall: number; // mm
+}
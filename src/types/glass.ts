@@ -0,0 +1,26 @@
+export type GlassType = 'Kristall' | 'Lag-E';
+
+export interface GlassSpec {
+  label: string;
+  thickness: number; // mm
+  density: number; // kg/m³
+  /** Taken off the computed glass width for the ordered pane (mm) */
+  widthDeduction: number;
+  /** Taken off the computed glass height for the ordered pane (mm) */
+  heightDeduction: number;
+}
+
+/** Ordered pane for one panel */
+export interface PanelGlass {
+  panelName: string;
+  width: number; // mm
+  height: number; // mm
+  area: number; // m²
+  weight: number; // kg
+}
+
+export interface GlassTotals {
+  count: number;
+  area: number; // m²
+  weight: number; // kg
+}
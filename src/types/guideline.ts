@@ -1,44 +1,24 @@
-import type { Point3D } from './geometry';
-import type { Panel } from './panel';
-
-export interface GuidelineVertex {
+import type { Point2D } from './geometry';
+
+/**
+ * Guide graph — points and sides with stable IDs.
+ *
+ * A chain stores its vertices in chain order and one edge per side. Data
+ * that belongs to a side (wall/glazing, panels, locks on the dimension) is
+ * keyed by the edge and vertex IDs, so it stays with its side when points
+ * are inserted or removed, the chain is reversed or an edit is undone.
+ * Everything derived from the geometry (angles, offsets, cut lengths) is
+ * computed per side by computeEdgeData, not stored.
+ */
+
+/** A guide point (mm) */
+export interface GuidelineVertex extends Point2D {
   id: string;
-  position: Point3D;
-  connectedEdgeIds: string[];
 }
 
+/** A side between two guide points */
 export interface GuidelineEdge {
   id: string;
   startVertexId: string;
   endVertexId: string;
-
-  // Computed from geometry
-  length: number; // mm
-  initialLength: number; // mm, stored for "spel guide" difference
-
-  // Classification
-  wallOrGlazingStatus: 'glazing' | 'wall';
-  sideNumber: number; // 1-based position in chain
-
-  // Angles (degrees) - computed from adjacent edges
-  startAngle: number;
-  endAngle: number;
-  cutAngleLeft: number; // 0 if connected to wall
-  cutAngleRight: number; // 0 if connected to wall
-  startConnectedToWall: boolean;
-  endConnectedToWall: boolean;
-
-  // Profile offsets (mm) - computed from angles
-  profileOffsetLeft: number;
-  profileOffsetRight: number;
-
-  // Panel data
-  panels: Panel[];
-  totalModuleLength: number; // mm
-
-  // Profile cut lengths (mm) - computed
-  cutLengthUnderprofile: number;
-  cutLengthOverprofile: number;
-  cutLengthCoverprofile: number;
-  cutLengthOverhallare: number;
 }
@@ -4,6 +4,8 @@ export type LockSymbol = '|' | '||' | '-' | ''; // Single, Double, Dash, None
 export type LockType =
   | '90 graderslock hane'
   | '90 graderslock hona'
+  | '45 graderslock hane'
+  | '45 graderslock hona'
   | 'Variabelt andlock'
   | 'Slutlock hane'
   | 'Slutlock hona'
@@ -19,6 +21,20 @@ export type LockType =
   | 'D-Vridlas'
   | null;
 
+/** End cap model (PL number). Left/right variants have their own GLB files. */
+export type EndCapType =
+  | 'PL-160'    // 45° hona vänster
+  | 'PL-170'    // 45° hona höger
+  | 'PL-180'    // 45° hane vänster
+  | 'PL-190'    // 45° hane höger
+  | 'PL-200'    // Möteslock vänster (straight left)
+  | 'PL-210'    // Möteslock höger (straight right)
+  | 'PL-220'    // Variabelt ändlock
+  | 'PL-220P02' // Variabelt ändlock P02
+  | 'PL-230'    // Slutlock vänster
+  | 'PL-240'    // Slutlock höger
+  ;
+
 export interface Panel {
   name: string;
   length: number; // mm, panel width
@@ -28,6 +44,14 @@ export interface Panel {
   offsetRight: number; // mm
 }
 
+/** Vertical PC component lengths (mm), one entry per panel edge of that variant */
+export interface PcComponents {
+  pc_h: number[]; // straight
+  pc_hh: number[]; // double
+  pc_90gr: number[]; // 90° corner
+  pc_45gr: number[]; // variable (45°/135°) corner
+}
+
 export interface PanelFitting extends Panel {
   glassWidth: number; // mm
   glassHeight: number; // mm
@@ -42,10 +66,5 @@ export interface PanelFitting extends Panel {
   upperGlassProfileLength: number; // mm
   lowerGlassProfileLength: number; // mm
   sideNumber: number;
-  pcComponents: {
-    pc_h: number[];
-    pc_hh: number[];
-    pc_90gr: number[];
-    pc_45gr: number[];
-  };
+  pcComponents: PcComponents;
 }
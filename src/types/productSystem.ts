@@ -0,0 +1,101 @@
+import type { EndCapType, LockType } from './panel';
+
+/** One end cap model in a product system */
+export interface EndCapInfo {
+  label: string;
+  glb: string;
+  defaultGlassOffset: number; // mm — how far the glass extends past the holder at this cap
+}
+
+/**
+ * A product system — one profile generation with its own dimensional rules.
+ * Definitions are versioned data, checked by parseProductSystem on load.
+ */
+export interface ProductSystem {
+  /** Definition format; see PRODUCT_SYSTEM_SCHEMA_VERSION */
+  schemaVersion: number;
+  id: string;
+  name: string;
+  /** Revision of this system's values, shown next to the name */
+  version: string;
+  /** Lock width compensation per lock type (mm) */
+  lockWidths: Partial<Record<NonNullable<LockType>, number>>;
+  /** Frame height deductions (mm) */
+  glassOffsets: {
+    glassHeight: number;
+    glassModuleHeight: number;
+    pcComponent: number;
+  };
+  /** Wall-corner offset interpolation, one value per angle (degrees, descending) */
+  offsetTables: {
+    angles: number[];
+    wallOffsets: number[];
+    glazingOffsets: number[];
+  };
+  /** Corner offsets of the glazing, for calculateOffset (mm) */
+  cornerOffsets: {
+    /** Straight joint or free end */
+    angleZero: number;
+    /** Wall at about 90° */
+    wall90: number;
+    /** profileOffset at a wall of about 90° */
+    wall90Profile: number;
+    /** Wider wall corners: offset = wallTable − table glazing offset */
+    wallTable: number;
+    /** Wider wall corners: profileOffset = table glazing offset + wallTableProfile */
+    wallTableProfile: number;
+    /** Factors on tan(half angle) at outside and inside corners */
+    positiveAngleFactor: number;
+    negativeAngleFactor: number;
+    addend: number;
+  };
+  /** Wall corner angle ranges for calculateOffset (degrees) */
+  wallCornerAngles: {
+    /** Smallest wall corner the system handles */
+    min: number;
+    /** Up to here the corner counts as 90°, beyond it offsetTables apply */
+    square: number;
+    /** Widest wall corner the system handles */
+    max: number;
+  };
+  /** Offset on each side of a joint between two panels (mm) */
+  panelOffsets: {
+    middle: number;
+    /** Next to a fixed pane (passruta) */
+    passruta: number;
+  };
+  /** Balustrade corner gap per angle between the sides (degrees, descending; mm) */
+  variableCompensation: {
+    angles: number[];
+    values: number[];
+  };
+  /** Frame builder offsets (mm) */
+  frameOffsets: {
+    /** Balustrade frame line from the guide */
+    brostning: number;
+    /** Give per frame at a split post */
+    underljusSplit: number;
+  };
+  /** Miter distances from the guide for each profile (mm) */
+  miterDistances: {
+    overskena: number;
+    overhallare: number;
+    coverprofile: number;
+  };
+  /** Extra täcklist length at a wall or free end (mm) */
+  coverProfileWallOffset: number;
+  /** Spacing of the panels in a parked stack (mm) */
+  parkedPanelPitch: number;
+  /** Standard panel widths (mm) */
+  panelSizes: {
+    min: number;
+    max: number;
+    step: number;
+    standard: number[];
+    /** Below this average width a side gets equal free widths */
+    freeWidthThreshold: number;
+    /** How far a width combination may fall short of the available length */
+    comboTolerance: number;
+  };
+  endCaps: Record<EndCapType, EndCapInfo>;
+}
@@ -1,3 +1,5 @@
+import type { GlassType } from './glass';
+
 export interface ProjectConfig {
   guid: string | null;
   ordernamn: string;
@@ -5,6 +7,8 @@ export interface ProjectConfig {
   balkongtyp: string;
   instruktionTillProduktion: string;
   balkong: string;
-  glastyp: 'Kristall' | 'Lag-E';
+  glastyp: GlassType;
   glasuppdelning: string;
+  /** Product system the dimensional rules come from — see PRODUCT_SYSTEMS */
+  productSystemId: string;
 }
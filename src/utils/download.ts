@@ -0,0 +1,16 @@
+/** Trigger a browser download of text content. */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+}
+
+/** Trigger a browser download of binary content. */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1,19 +1,38 @@
 import { useConfigStore } from '../store/useConfigStore';
+import { downloadTextFile } from './download';
+import {
+  parseProjectFile,
+  projectFileContent,
+  projectFileName,
+  readProject,
+  savedProjectVersion,
+  type ProjectData,
+} from './projectFile';
 
 const STORAGE_KEY = 'balkong-konfigurator-state';
 
-/** Keys to persist (only data, not functions/computed) */
-const PERSIST_KEYS = [
+/** Keys a balcony is made of — a new project starts them from the defaults */
+export const PROJECT_KEYS = [
   'levels',
+  'guideChains',
+  'activeChainId',
   'guidePoints',
-  'snapEnabled',
-  'snapAngle',
-  'activeMode',
-  'activeView',
+  'guideClosed',
+  'guideConstraints',
   'projectConfig',
   'profileConfig',
   'frameWidthSettings',
+  'cuttingStockSettings',
   'edgeConfigs',
+] as const;
+
+/** Keys to persist (only data, not functions/computed) */
+const PERSIST_KEYS = [
+  ...PROJECT_KEYS,
+  'snapEnabled',
+  'snapAngle',
+  'activeMode',
+  'activeView',
   'expandedSections',
   'pointCloudEnabled',
   'pointCloudClipY',
@@ -22,17 +41,30 @@ const PERSIST_KEYS = [
   'pointCloudFile',
   'pointCloudOriginY',
   'pointCloudBoundsY',
+  'libraryProjectId',
 ] as const;
 
+/** Persisted store data, as saved to localStorage and the project library */
+export type SavedState = Record<string, unknown>;
+
+/** The persisted keys of the store */
+export function snapshotState(): SavedState {
+  const state = useConfigStore.getState();
+  const data: SavedState = {};
+  for (const key of PERSIST_KEYS) {
+    data[key] = (state as Record<string, unknown>)[key];
+  }
+  // The active chain's entry is only refreshed on switch — save the live one
+  data.guideChains = state.getChains();
+  // A scan opened from a project bundle only lives as long as this tab
+  if (state.pointCloudFile.startsWith('blob:')) delete data.pointCloudFile;
+  return data;
+}
+
 /** Save current store state to localStorage */
 export function saveState(): boolean {
   try {
-    const state = useConfigStore.getState();
-    const data: Record<string, unknown> = {};
-    for (const key of PERSIST_KEYS) {
-      data[key] = (state as Record<string, unknown>)[key];
-    }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshotState()));
     return true;
   } catch (e) {
     console.error('Failed to save state:', e);
@@ -45,8 +77,11 @@ export function loadState(): boolean {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) return false;
-    const data = JSON.parse(raw);
-    useConfigStore.setState(data);
+    const errors = applyState(JSON.parse(raw));
+    if (errors.length > 0) {
+      console.error('Saved state is invalid:', errors);
+      return false;
+    }
     return true;
   } catch (e) {
     console.error('Failed to load state:', e);
@@ -54,6 +89,77 @@ export function loadState(): boolean {
   }
 }
 
+/**
+ * Bring saved data up to date and put it in the store. Returns what is
+ * wrong with it instead when it does not hold up — the store is untouched.
+ */
+export function applyState(saved: SavedState): string[] {
+  const result = readProject(saved, savedProjectVersion(saved));
+  if (!result.ok) return result.errors;
+  applyProject(result.project, pickSettings(saved));
+  return [];
+}
+
+/** The persisted keys that are not project data — view and snap settings */
+function pickSettings(saved: SavedState): SavedState {
+  const settings: SavedState = {};
+  for (const key of PERSIST_KEYS) {
+    if (key in saved && !(PROJECT_KEYS as readonly string[]).includes(key)) settings[key] = saved[key];
+  }
+  return settings;
+}
+
+/** Put a checked project in the store, along with any other persisted keys */
+export function applyProject(project: ProjectData, settings: SavedState): void {
+  // The working copy is the active chain, IDs and all
+  const active = project.guideChains.find((c) => c.id === project.activeChainId) ?? project.guideChains[0];
+  useConfigStore.setState({
+    ...settings,
+    ...project,
+    activeChainId: active.id,
+    guidePoints: active.points,
+    guideClosed: active.closed,
+    edgeConfigs: active.edgeConfigs,
+    guideConstraints: active.constraints,
+  });
+  // Undo steps were recorded against the state that was just replaced
+  useConfigStore.getState().clearHistory();
+}
+
+// ─── Project files ───────────────────────────────────────────
+
+/** The open project as it goes into a project file */
+export function currentProject(): ProjectData {
+  const state = useConfigStore.getState();
+  return {
+    projectConfig: state.projectConfig,
+    profileConfig: state.profileConfig,
+    levels: state.levels,
+    frameWidthSettings: state.frameWidthSettings,
+    cuttingStockSettings: state.cuttingStockSettings,
+    guideChains: state.getChains(),
+    activeChainId: state.activeChainId,
+  };
+}
+
+/** Download the open project as a `.balkong.json` file */
+export function exportProjectFile(): void {
+  const project = currentProject();
+  downloadTextFile(projectFileName(project.projectConfig), projectFileContent(project), 'application/json');
+}
+
+/**
+ * Replace the working copy with the project in a file. Resolves to what is
+ * wrong with the file when it cannot be read; the store is then untouched.
+ * An imported project is not in the library until it is saved there.
+ */
+export async function importProjectFile(file: File): Promise<string[]> {
+  const result = parseProjectFile(await file.text());
+  if (!result.ok) return result.errors;
+  applyProject(result.project, { libraryProjectId: null });
+  return [];
+}
+
 /** Check if saved state exists */
 export function hasSavedState(): boolean {
   return localStorage.getItem(STORAGE_KEY) !== null;
@@ -0,0 +1,46 @@
+import type { GuideChain } from '../types/chain';
+import { getSegmentCount, segmentEndIndex } from '../engine/geometry/guideChain';
+
+const WIDTH = 120;
+const HEIGHT = 80;
+const MARGIN = 8;
+
+/**
+ * Small SVG of the 2D plan for the project library — every chain, glazing
+ * sides blue and walls grey, seen from above like the CAD view (y up).
+ */
+export function planThumbnailSvg(chains: GuideChain[]): string {
+  const points = chains.flatMap((c) => c.points);
+  const lines: string[] = [];
+
+  if (points.length > 1) {
+    const minX = Math.min(...points.map((p) => p.x));
+    const maxX = Math.max(...points.map((p) => p.x));
+    const minY = Math.min(...points.map((p) => p.y));
+    const maxY = Math.max(...points.map((p) => p.y));
+    const scale = Math.min(
+      (WIDTH - 2 * MARGIN) / Math.max(maxX - minX, 1),
+      (HEIGHT - 2 * MARGIN) / Math.max(maxY - minY, 1),
+    );
+    // Centred in the frame, plan y pointing up
+    const ox = (WIDTH - (maxX - minX) * scale) / 2;
+    const oy = (HEIGHT - (maxY - minY) * scale) / 2;
+    const sx = (x: number) => (ox + (x - minX) * scale).toFixed(1);
+    const sy = (y: number) => (HEIGHT - oy - (y - minY) * scale).toFixed(1);
+
+    for (const chain of chains) {
+      for (let i = 0; i < getSegmentCount(chain.points, chain.closed); i++) {
+        const a = chain.points[i];
+        const b = chain.points[segmentEndIndex(chain.points, i)];
+        const wall = chain.edgeConfigs[i]?.wallOrGlazingStatus === 'wall';
+        lines.push(
+          `<line x1="${sx(a.x)}" y1="${sy(a.y)}" x2="${sx(b.x)}" y2="${sy(b.y)}" `
+            + `stroke="${wall ? '#9ca3af' : '#2196F3'}" stroke-width="${wall ? 3 : 2}" stroke-linecap="round"/>`,
+        );
+      }
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}">`
+    + `<rect width="${WIDTH}" height="${HEIGHT}" fill="#f8fafc"/>${lines.join('')}</svg>`;
+}
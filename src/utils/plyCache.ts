@@ -83,3 +83,9 @@ export function loadPly(file: string): Promise<CacheEntry> {
   loading.set(file, promise);
   return promise;
 }
+
+/** Drop a file's geometry, e.g. when the blob URL it came from is revoked */
+export function releasePly(file: string): void {
+  cache.get(file)?.geometry.dispose();
+  cache.delete(file);
+}
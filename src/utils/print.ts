@@ -0,0 +1,33 @@
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const PRINT_STYLE = `
+  body { font-family: system-ui, sans-serif; font-size: 11pt; margin: 16mm; color: #000; }
+  h1 { font-size: 16pt; margin: 0 0 4px; }
+  h2 { font-size: 13pt; margin: 18px 0 6px; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 8px; }
+  th, td { border: 1px solid #999; padding: 3px 6px; text-align: left; }
+  th { background: #eee; }
+  td.num { text-align: right; }
+  .muted { color: #666; font-size: 9pt; }
+  .section { page-break-inside: avoid; }
+`;
+
+/** Open the given HTML body in a new window and show the print dialog. */
+export function printHtml(title: string, bodyHtml: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+      `<style>${PRINT_STYLE}</style></head><body>${bodyHtml}</body></html>`,
+  );
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
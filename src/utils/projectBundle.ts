@@ -0,0 +1,197 @@
+import * as THREE from 'three';
+import { PLYExporter } from 'three/examples/jsm/exporters/PLYExporter.js';
+import { useConfigStore } from '../store/useConfigStore';
+import { downloadBlob } from './download';
+import { applyProject, currentProject } from './persistence';
+import { loadPly, releasePly } from './plyCache';
+import { parseProjectFile, projectFileContent, projectFileName, type ProjectData } from './projectFile';
+
+/**
+ * Project bundle — one `.balkong` file with the project and its scan, so a
+ * project opened on another machine comes with its point cloud and the
+ * alignment the levels were set against.
+ *
+ *   bytes 0–7   "BALKPKG1"
+ *   bytes 8–11  manifest length n (uint32, little endian)
+ *   next n      manifest — UTF-8 JSON: a project file (see projectFile.ts)
+ *               plus `pointCloud`, the viewer settings and the alignment
+ *   the rest    the PLY, exactly `pointCloud.byteLength` bytes
+ *
+ * The PLY is the original file, or every n:th point of it when the bundle
+ * is thinned. The points that span the bounds are always kept, so a thinned
+ * cloud centres on load exactly like the original and pointCloudOriginY
+ * still lines up with the levels.
+ */
+
+export const PROJECT_BUNDLE_EXTENSION = '.balkong';
+
+const MAGIC = 'BALKPKG1';
+const HEADER_BYTES = MAGIC.length + 4;
+
+/** The point cloud part of the manifest */
+export interface BundledPointCloud {
+  /** Every n:th point was kept; 1 is the original file */
+  step: number;
+  byteLength: number;
+  enabled: boolean;
+  clipY: number;
+  brightness: number;
+  pointSize: number;
+  originY: number;
+  boundsY: [number, number];
+}
+
+export type ProjectBundleResult =
+  | { ok: true; project: ProjectData; pointCloud: BundledPointCloud; ply: ArrayBuffer }
+  | { ok: false; errors: string[] };
+
+// ─── Container ───────────────────────────────────────────────
+
+export function packBundle(project: ProjectData, pointCloud: Omit<BundledPointCloud, 'byteLength'>, ply: ArrayBuffer): Blob {
+  const manifest = JSON.parse(projectFileContent(project));
+  manifest.pointCloud = { ...pointCloud, byteLength: ply.byteLength };
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new DataView(new ArrayBuffer(HEADER_BYTES));
+  for (let i = 0; i < MAGIC.length; i++) header.setUint8(i, MAGIC.charCodeAt(i));
+  header.setUint32(MAGIC.length, json.byteLength, true);
+  return new Blob([header, json, ply], { type: 'application/octet-stream' });
+}
+
+function checkPointCloud(value: unknown): BundledPointCloud | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const pc = value as Record<string, unknown>;
+  const numbers = ['step', 'byteLength', 'clipY', 'brightness', 'pointSize', 'originY'];
+  const ok = numbers.every((key) => typeof pc[key] === 'number' && Number.isFinite(pc[key]))
+    && typeof pc.enabled === 'boolean'
+    && Array.isArray(pc.boundsY) && pc.boundsY.length === 2 && pc.boundsY.every(Number.isFinite);
+  return ok ? (pc as unknown as BundledPointCloud) : null;
+}
+
+export function unpackBundle(buffer: ArrayBuffer): ProjectBundleResult {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode(...bytes.subarray(0, MAGIC.length));
+  if (buffer.byteLength < HEADER_BYTES || magic !== MAGIC) return { ok: false, errors: ['Filen är inget projektpaket'] };
+  const jsonLength = new DataView(buffer).getUint32(MAGIC.length, true);
+  if (HEADER_BYTES + jsonLength > buffer.byteLength) return { ok: false, errors: ['Projektpaketet är avkortat'] };
+
+  const manifestText = new TextDecoder().decode(bytes.subarray(HEADER_BYTES, HEADER_BYTES + jsonLength));
+  const read = parseProjectFile(manifestText);
+  if (!read.ok) return read;
+
+  const pointCloud = checkPointCloud((JSON.parse(manifestText) as { pointCloud?: unknown }).pointCloud);
+  if (!pointCloud) return { ok: false, errors: ['Punktmolnets inställningar saknas eller är ogiltiga'] };
+  const plyStart = HEADER_BYTES + jsonLength;
+  if (buffer.byteLength - plyStart !== pointCloud.byteLength) {
+    return { ok: false, errors: ['Punktmolnet i paketet är avkortat'] };
+  }
+  return { ok: true, project: read.project, pointCloud, ply: buffer.slice(plyStart) };
+}
+
+// ─── Thinning ────────────────────────────────────────────────
+
+/** Binary PLY of every `step`:th point plus the ones at the bounds */
+export function thinnedPly(geometry: THREE.BufferGeometry, step: number): ArrayBuffer {
+  const position = geometry.getAttribute('position');
+  const keep = new Uint8Array(position.count);
+  for (let i = 0; i < position.count; i += step) keep[i] = 1;
+  for (let axis = 0; axis < 3; axis++) {
+    let min = 0;
+    let max = 0;
+    for (let i = 1; i < position.count; i++) {
+      const v = position.getComponent(i, axis);
+      if (v < position.getComponent(min, axis)) min = i;
+      if (v > position.getComponent(max, axis)) max = i;
+    }
+    keep[min] = 1;
+    keep[max] = 1;
+  }
+
+  const indices: number[] = [];
+  keep.forEach((k, i) => { if (k) indices.push(i); });
+  const thinned = new THREE.BufferGeometry();
+  for (const name of ['position', 'color']) {
+    const attr = geometry.getAttribute(name);
+    if (!attr) continue;
+    const out = new Float32Array(indices.length * attr.itemSize);
+    indices.forEach((src, j) => {
+      for (let k = 0; k < attr.itemSize; k++) out[j * attr.itemSize + k] = attr.getComponent(src, k);
+    });
+    thinned.setAttribute(name, new THREE.BufferAttribute(out, attr.itemSize));
+  }
+
+  // The result is also returned right away — onDone only fires on the next frame
+  const ply = new PLYExporter().parse(new THREE.Points(thinned), () => {}, {
+    binary: true,
+    littleEndian: true,
+    excludeAttributes: ['normal'],
+  });
+  thinned.dispose();
+  if (!ply) throw new Error('PLY export failed');
+  return ply;
+}
+
+// ─── Store ───────────────────────────────────────────────────
+
+async function fetchPly(file: string): Promise<ArrayBuffer> {
+  const res = await fetch(file);
+  if (!res.ok) throw new Error(`${file}: ${res.status}`);
+  return res.arrayBuffer();
+}
+
+/**
+ * Download the open project and its point cloud as one bundle. Resolves to
+ * what went wrong, or nothing when the file was written.
+ */
+export async function exportProjectBundle(step: number): Promise<string[]> {
+  const state = useConfigStore.getState();
+  let ply: ArrayBuffer;
+  try {
+    ply = step > 1
+      ? thinnedPly((await loadPly(state.pointCloudFile)).geometry, step)
+      : await fetchPly(state.pointCloudFile);
+  } catch {
+    return ['Punktmolnet kunde inte läsas'];
+  }
+
+  const project = currentProject();
+  const blob = packBundle(project, {
+    step,
+    enabled: state.pointCloudEnabled,
+    clipY: state.pointCloudClipY,
+    brightness: state.pointCloudBrightness,
+    pointSize: state.pointCloudPointSize,
+    originY: state.pointCloudOriginY,
+    boundsY: state.pointCloudBoundsY,
+  }, ply);
+  downloadBlob(projectFileName(project.projectConfig, PROJECT_BUNDLE_EXTENSION), blob);
+  return [];
+}
+
+/**
+ * Replace the working copy and the point cloud with a bundle's. Resolves to
+ * what is wrong with the file when it cannot be read; the store is then
+ * untouched. The scan is served from a blob URL for as long as the tab lives.
+ */
+export async function importProjectBundle(file: File): Promise<string[]> {
+  const result = unpackBundle(await file.arrayBuffer());
+  if (!result.ok) return result.errors;
+
+  const previous = useConfigStore.getState().pointCloudFile;
+  if (previous.startsWith('blob:')) {
+    releasePly(previous);
+    URL.revokeObjectURL(previous);
+  }
+
+  const { project, pointCloud, ply } = result;
+  applyProject(project, {
+    libraryProjectId: null,
+    pointCloudFile: URL.createObjectURL(new Blob([ply])),
+    pointCloudEnabled: pointCloud.enabled,
+    pointCloudClipY: pointCloud.clipY,
+    pointCloudBrightness: pointCloud.brightness,
+    pointCloudPointSize: pointCloud.pointSize,
+    pointCloudOriginY: pointCloud.originY,
+    pointCloudBoundsY: pointCloud.boundsY,
+  });
+  return [];
+}
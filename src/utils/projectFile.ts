@@ -0,0 +1,354 @@
+/**
+ * Project file — the `.balkong.json` format projects are emailed and
+ * archived in.
+ *
+ *   {
+ *     "format": "balkong-konfigurator",
+ *     "version": 3,
+ *     "savedAt": "2026-10-18T09:30:00.000Z",
+ *     "project": {
+ *       "projectConfig": { "ordernamn": …, "brfNamn": …, "productSystemId": …, … },
+ *       "profileConfig": { … },
+ *       "levels": { "levels": { "Understycke": { "zPosition": 0, … }, … } },
+ *       "frameWidthSettings": { … },
+ *       "cuttingStockSettings": { … },
+ *       "guideChains": [{ "id", "name", "points", "closed", "edgeConfigs", "constraints" }],
+ *       "activeChainId": "chain-1"
+ *     }
+ *   }
+ *
+ * Versions of `project`:
+ *   1 — one guide run: guidePoints / guideClosed / edgeConfigs at the top
+ *   2 — guideChains, sides and locks addressed by point index
+ *   3 — guide graph: points, sides and locks keyed by stable IDs
+ *
+ * readProject migrates an older version one step at a time, fills settings
+ * added since with their defaults and validates the result, so a broken or
+ * hand-edited file gives a list of readable errors and never reaches the
+ * store. Saves in localStorage and the project library carry no header;
+ * savedProjectVersion tells their version from the shape.
+ */
+
+import type { ProjectConfig } from '../types/project';
+import type { ProfileConfig } from '../types/profile';
+import type { LevelName, LevelsConfig } from '../types/levels';
+import type { FrameWidthSettings } from '../types/frame';
+import type { CuttingStockSettings } from '../types/cutting';
+import type { GuideChain } from '../types/chain';
+import { GLASS_CATALOG } from '../engine/calculations/glass';
+import { PRODUCT_SYSTEMS } from '../engine/productSystem/productSystems';
+import { getSegmentCount } from '../engine/geometry/guideChain';
+import { migrateChainToGraph, type IndexedChain } from '../engine/geometry/guideGraph';
+import {
+  DEFAULT_CUTTING_STOCK_SETTINGS,
+  DEFAULT_FRAME_WIDTH_SETTINGS,
+  DEFAULT_PROFILE_CONFIG,
+  DEFAULT_PROJECT_CONFIG,
+} from './constants';
+
+// ─── Format ──────────────────────────────────────────────────
+
+export const PROJECT_FILE_FORMAT = 'balkong-konfigurator';
+
+/** Version this build writes; older ones are migrated on load */
+export const PROJECT_FILE_VERSION = 3;
+
+export const PROJECT_FILE_EXTENSION = '.balkong.json';
+
+/** Everything a balcony is made of — the `project` of a project file */
+export interface ProjectData {
+  projectConfig: ProjectConfig;
+  profileConfig: ProfileConfig;
+  levels: LevelsConfig;
+  frameWidthSettings: FrameWidthSettings;
+  cuttingStockSettings: CuttingStockSettings;
+  guideChains: GuideChain[];
+  activeChainId: string;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  /** ISO time the file was written */
+  savedAt: string;
+  project: ProjectData;
+}
+
+export type ProjectFileResult =
+  | { ok: true; project: ProjectData }
+  | { ok: false; errors: string[] };
+
+type RawProject = Record<string, unknown>;
+
+const LEVEL_NAMES: LevelName[] = ['Understycke', 'Mellanstycke', 'Overstycke'];
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+// ─── Migrations ──────────────────────────────────────────────
+
+/** Upgrades from each version to the next */
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // 1 → 2: the one guide run becomes the first chain
+  1: ({ guidePoints, guideClosed, edgeConfigs, ...rest }) => ({
+    ...rest,
+    guideChains: [{
+      id: 'chain-1',
+      name: 'Kedja 1',
+      points: guidePoints ?? [],
+      closed: guideClosed ?? false,
+      edgeConfigs: edgeConfigs ?? [],
+    }],
+    activeChainId: 'chain-1',
+  }),
+  // 2 → 3: IDs for points and sides, locks by ID
+  2: (project) => ({
+    ...project,
+    guideChains: Array.isArray(project.guideChains)
+      ? (project.guideChains as IndexedChain[]).map((chain) => migrateChainToGraph(chain))
+      : project.guideChains,
+  }),
+};
+
+/** Version of a save without a file header, told from its shape */
+export function savedProjectVersion(raw: RawProject): number {
+  if (raw.guideChains === undefined) return 1;
+  const keyed = Array.isArray(raw.guideChains) && raw.guideChains.every((chain) =>
+    isRecord(chain)
+    && Array.isArray(chain.points) && chain.points.every((p) => isRecord(p) && isString(p.id))
+    && Array.isArray(chain.edgeConfigs) && chain.edgeConfigs.every((e) => isRecord(e) && isString(e.id)));
+  return keyed ? 3 : 2;
+}
+
+// ─── Defaults for settings added since a file was written ────
+
+// Only groups a file has are filled in: a missing one is left for
+// validateProject to report. cuttingStockSettings came after the others, so
+// a file may lack it as a whole.
+function withDefaults(project: RawProject): RawProject {
+  const merge = (value: unknown, defaults: object) => (isRecord(value) ? { ...defaults, ...value } : value);
+  const levels = isRecord(project.levels) && isRecord(project.levels.levels) ? project.levels.levels : null;
+  const cutting = project.cuttingStockSettings ?? {};
+  return {
+    ...project,
+    projectConfig: merge(project.projectConfig, DEFAULT_PROJECT_CONFIG),
+    profileConfig: merge(project.profileConfig, DEFAULT_PROFILE_CONFIG),
+    levels: levels
+      ? {
+          levels: Object.fromEntries(LEVEL_NAMES.map((name) => [
+            name,
+            merge(levels[name], { name, visible: true }),
+          ])),
+        }
+      : project.levels,
+    frameWidthSettings: merge(project.frameWidthSettings, DEFAULT_FRAME_WIDTH_SETTINGS),
+    cuttingStockSettings: isRecord(cutting)
+      ? {
+          ...DEFAULT_CUTTING_STOCK_SETTINGS,
+          ...cutting,
+          stockLengths: merge(cutting.stockLengths ?? {}, DEFAULT_CUTTING_STOCK_SETTINGS.stockLengths),
+        }
+      : cutting,
+  };
+}
+
+// ─── Validation ──────────────────────────────────────────────
+
+/** Every field of a settings group has the type of its default */
+function checkGroup(errors: string[], label: string, value: unknown, defaults: Record<string, unknown>) {
+  if (!isRecord(value)) {
+    errors.push(`${label} saknas`);
+    return;
+  }
+  for (const [key, fallback] of Object.entries(defaults)) {
+    if (fallback === null || isRecord(fallback)) continue;
+    if (typeof value[key] !== typeof fallback || (typeof fallback === 'number' && !isNumber(value[key]))) {
+      errors.push(`${label}.${key} har fel typ`);
+    }
+  }
+}
+
+function checkChain(errors: string[], chain: unknown, n: number) {
+  if (!isRecord(chain)) {
+    errors.push(`Kedja ${n} är inte ett objekt`);
+    return;
+  }
+  const label = isString(chain.name) && chain.name !== '' ? chain.name : `Kedja ${n}`;
+  if (!isString(chain.id)) errors.push(`${label}: id saknas`);
+  if (typeof chain.closed !== 'boolean') errors.push(`${label}: closed ska vara true eller false`);
+  if (!Array.isArray(chain.points)) {
+    errors.push(`${label}: punkter saknas`);
+    return;
+  }
+
+  const pointIds = new Set<string>();
+  chain.points.forEach((p, i) => {
+    if (!isRecord(p) || !isNumber(p.x) || !isNumber(p.y)) errors.push(`${label}: punkt ${i + 1} saknar koordinater`);
+    else if (!isString(p.id) || pointIds.has(p.id)) errors.push(`${label}: punkt ${i + 1} saknar unikt id`);
+    else pointIds.add(p.id);
+  });
+
+  const edges = Array.isArray(chain.edgeConfigs) ? chain.edgeConfigs : null;
+  const segCount = getSegmentCount(chain.points as never[], chain.closed === true);
+  if (!edges || edges.length !== segCount) {
+    errors.push(`${label}: ${segCount} sidor men ${edges?.length ?? 0} sidinställningar`);
+    return;
+  }
+  const edgeIds = new Set<string>();
+  edges.forEach((edge, i) => {
+    const side = `${label}, sida ${i + 1}`;
+    if (!isRecord(edge)) {
+      errors.push(`${side} är inte ett objekt`);
+      return;
+    }
+    if (isString(edge.id)) edgeIds.add(edge.id);
+    else errors.push(`${side}: id saknas`);
+    if (!pointIds.has(edge.startVertexId as string) || !pointIds.has(edge.endVertexId as string)) {
+      errors.push(`${side}: pekar på en punkt som saknas`);
+    }
+    if (edge.wallOrGlazingStatus !== 'wall' && edge.wallOrGlazingStatus !== 'glazing') {
+      errors.push(`${side}: ska vara vägg eller glas`);
+    }
+    if (edge.door !== undefined && (!isRecord(edge.door) || !isNumber(edge.door.offset) || !isNumber(edge.door.width))) {
+      errors.push(`${side}: dörren saknar mått`);
+    }
+    if (!Array.isArray(edge.panels)) {
+      errors.push(`${side}: paneler saknas`);
+      return;
+    }
+    edge.panels.forEach((panel, j) => {
+      const ok = isRecord(panel)
+        && isNumber(panel.length) && panel.length > 0
+        && ['>', '<', 'X'].includes(panel.opening as string)
+        && ['|', '||', '-', ''].includes(panel.lock as string)
+        && isNumber(panel.offsetLeft) && isNumber(panel.offsetRight);
+      if (!ok) errors.push(`${side}: panel ${j + 1} är ofullständig`);
+    });
+  });
+
+  const constraints = chain.constraints ?? [];
+  if (!Array.isArray(constraints)) {
+    errors.push(`${label}: låsta mått ska vara en lista`);
+    return;
+  }
+  constraints.forEach((c, i) => {
+    const lock = `${label}: lås ${i + 1}`;
+    if (!isRecord(c)) {
+      errors.push(`${lock} är inte ett objekt`);
+      return;
+    }
+    const refsOk = c.kind === 'length' ? edgeIds.has(c.edgeId as string)
+      : c.kind === 'angle' || c.kind === 'position' ? pointIds.has(c.vertexId as string)
+      : c.kind === 'distance' ? pointIds.has(c.fromVertexId as string) && pointIds.has(c.toVertexId as string)
+      : null;
+    if (refsOk === null) errors.push(`${lock} har okänd typ "${String(c.kind)}"`);
+    else if (!refsOk) errors.push(`${lock} pekar på en punkt eller sida som saknas`);
+    else if (c.kind === 'position' ? !isNumber(c.x) || !isNumber(c.y) : !isNumber(c.value)) {
+      errors.push(`${lock} saknar värde`);
+    }
+  });
+}
+
+/** Check a current-version project; returns readable errors, none when it is sound */
+function validateProject(project: RawProject): string[] {
+  const errors: string[] = [];
+
+  checkGroup(errors, 'projectConfig', project.projectConfig, DEFAULT_PROJECT_CONFIG);
+  checkGroup(errors, 'profileConfig', project.profileConfig, DEFAULT_PROFILE_CONFIG);
+  checkGroup(errors, 'frameWidthSettings', project.frameWidthSettings, DEFAULT_FRAME_WIDTH_SETTINGS);
+  checkGroup(errors, 'cuttingStockSettings', project.cuttingStockSettings, DEFAULT_CUTTING_STOCK_SETTINGS);
+  const cutting = project.cuttingStockSettings;
+  if (isRecord(cutting)) {
+    checkGroup(errors, 'cuttingStockSettings.stockLengths', cutting.stockLengths, DEFAULT_CUTTING_STOCK_SETTINGS.stockLengths);
+  }
+
+  const config = project.projectConfig;
+  if (isRecord(config)) {
+    if (!(String(config.glastyp) in GLASS_CATALOG)) errors.push(`Okänd glastyp "${String(config.glastyp)}"`);
+    if (!PRODUCT_SYSTEMS.some((s) => s.id === config.productSystemId)) {
+      errors.push(`Okänt produktsystem "${String(config.productSystemId)}"`);
+    }
+  }
+
+  const levels = isRecord(project.levels) && isRecord(project.levels.levels) ? project.levels.levels : null;
+  for (const name of LEVEL_NAMES) {
+    const level = levels?.[name];
+    if (!isRecord(level) || !isNumber(level.zPosition)) errors.push(`Nivån ${name} saknar höjd`);
+  }
+
+  const chains = project.guideChains;
+  if (!Array.isArray(chains) || chains.length === 0) {
+    errors.push('Projektet har inga kedjor');
+  } else {
+    chains.forEach((chain, i) => checkChain(errors, chain, i + 1));
+    if (!chains.some((chain) => isRecord(chain) && chain.id === project.activeChainId)) {
+      errors.push('activeChainId pekar inte på någon kedja');
+    }
+  }
+
+  return errors;
+}
+
+// ─── Reading ─────────────────────────────────────────────────
+
+/** Bring a project of the given version up to date and check it */
+export function readProject(raw: unknown, version: number): ProjectFileResult {
+  if (!isRecord(raw)) return { ok: false, errors: ['Projektet är inte ett objekt'] };
+  if (!Number.isInteger(version) || version < 1) return { ok: false, errors: [`Ogiltig version ${String(version)}`] };
+  if (version > PROJECT_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [`Filen är från en nyare version (${version}) — uppdatera konfiguratorn (läser ${PROJECT_FILE_VERSION})`],
+    };
+  }
+
+  let project: RawProject = raw;
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    try {
+      project = MIGRATIONS[v](project);
+    } catch {
+      return { ok: false, errors: [`Projektet kunde inte uppgraderas från version ${v}`] };
+    }
+  }
+  project = withDefaults(project);
+
+  const errors = validateProject(project);
+  if (errors.length > 0) return { ok: false, errors };
+  const chains = (project.guideChains as GuideChain[]).map((chain) => ({ ...chain, constraints: chain.constraints ?? [] }));
+  return { ok: true, project: { ...(project as unknown as ProjectData), guideChains: chains } };
+}
+
+/** Parse the text of a `.balkong.json` file */
+export function parseProjectFile(text: string): ProjectFileResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['Filen är inte giltig JSON'] };
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_FILE_FORMAT) {
+    return { ok: false, errors: ['Filen är ingen projektfil från balkongkonfiguratorn'] };
+  }
+  if (!isNumber(raw.version)) return { ok: false, errors: ['Filen saknar version'] };
+  return readProject(raw.project, raw.version);
+}
+
+// ─── Writing ─────────────────────────────────────────────────
+
+export function projectFileContent(project: ProjectData): string {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** File name from the order name, e.g. `ORD-2025-001.balkong.json` */
+export function projectFileName(config: ProjectConfig, extension = PROJECT_FILE_EXTENSION): string {
+  const base = config.ordernamn.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'projekt';
+  return `${base}${extension}`;
+}
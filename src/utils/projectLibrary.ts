@@ -0,0 +1,195 @@
+import { useConfigStore } from '../store/useConfigStore';
+import type { GuideChain } from '../types/chain';
+import { applyState, PROJECT_KEYS, snapshotState, type SavedState } from './persistence';
+import { planThumbnailSvg } from './planThumbnail';
+
+/**
+ * Project library — every saved balcony in IndexedDB.
+ *
+ * localStorage only holds the one working copy (see persistence.ts). The
+ * library keeps any number of projects: the saved store data in one object
+ * store and a small summary per project in another, so listing the library
+ * never reads the projects themselves.
+ */
+
+const DB_NAME = 'balkong-konfigurator';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const SUMMARIES = 'summaries';
+
+/** What the library list shows of a project */
+export interface LibraryEntry {
+  id: string;
+  ordernamn: string;
+  brfNamn: string;
+  createdAt: number;
+  updatedAt: number;
+  /** SVG of the 2D plan */
+  thumbnail: string;
+}
+
+interface StoredProject {
+  id: string;
+  state: SavedState;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(PROJECTS, { keyPath: 'id' });
+      req.result.createObjectStore(SUMMARIES, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function getSummary(id: string): Promise<LibraryEntry | undefined> {
+  const db = await openDb();
+  return result<LibraryEntry | undefined>(db.transaction(SUMMARIES).objectStore(SUMMARIES).get(id));
+}
+
+async function getProject(id: string): Promise<StoredProject | undefined> {
+  const db = await openDb();
+  return result<StoredProject | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+}
+
+/** Write a project and its summary together */
+async function putProject(entry: LibraryEntry, state: SavedState): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+  tx.objectStore(PROJECTS).put({ id: entry.id, state } satisfies StoredProject);
+  tx.objectStore(SUMMARIES).put(entry);
+  return done(tx);
+}
+
+/** Summary of saved store data; the thumbnail is drawn from its chains */
+function summarize(id: string, state: SavedState, createdAt: number): LibraryEntry {
+  const config = state.projectConfig as { ordernamn?: string; brfNamn?: string } | undefined;
+  return {
+    id,
+    ordernamn: config?.ordernamn ?? '',
+    brfNamn: config?.brfNamn ?? '',
+    createdAt,
+    updatedAt: Date.now(),
+    thumbnail: planThumbnailSvg((state.guideChains as GuideChain[] | undefined) ?? []),
+  };
+}
+
+/** The project part of saved store data, comparable as a string */
+function projectJson(state: SavedState): string {
+  return JSON.stringify(PROJECT_KEYS.map((key) => state[key] ?? null));
+}
+
+/** Project data back to the defaults */
+function emptyProject(): SavedState {
+  const initial = useConfigStore.getInitialState() as unknown as SavedState;
+  const data: SavedState = { libraryProjectId: null };
+  for (const key of PROJECT_KEYS) data[key] = initial[key];
+  return data;
+}
+
+/**
+ * Whether replacing the working copy would lose work: it differs from its
+ * library entry, or — not in the library — from an empty project.
+ */
+export async function hasUnsavedChanges(): Promise<boolean> {
+  const id = useConfigStore.getState().libraryProjectId;
+  const saved = id ? (await getProject(id))?.state : emptyProject();
+  return !saved || projectJson(saved) !== projectJson(snapshotState());
+}
+
+/** All projects, last modified first */
+export async function listProjects(): Promise<LibraryEntry[]> {
+  const db = await openDb();
+  const entries = await result<LibraryEntry[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Save the working copy to the project it came from, or as a new project */
+export async function saveProject(): Promise<string> {
+  const store = useConfigStore.getState();
+  const id = store.libraryProjectId ?? crypto.randomUUID();
+  store.setLibraryProjectId(id);
+  const existing = await getSummary(id);
+  const state = snapshotState();
+  await putProject(summarize(id, state, existing?.createdAt ?? Date.now()), state);
+  return id;
+}
+
+/** Start an empty project — project data back to the defaults — and save it */
+export async function createProject(): Promise<string> {
+  applyState(emptyProject());
+  return saveProject();
+}
+
+/** Replace the working copy with a saved project; false when it is missing or does not hold up */
+export async function openProject(id: string): Promise<boolean> {
+  const project = await getProject(id);
+  if (!project) return false;
+  const errors = applyState(project.state);
+  if (errors.length > 0) {
+    console.error(`Library project ${id} is invalid:`, errors);
+    return false;
+  }
+  // The entry's key is what counts — data saved before the library has no ID
+  useConfigStore.getState().setLibraryProjectId(id);
+  return true;
+}
+
+export async function duplicateProject(id: string): Promise<string | null> {
+  const [project, summary] = await Promise.all([getProject(id), getSummary(id)]);
+  if (!project || !summary) return null;
+  const copyId = crypto.randomUUID();
+  const ordernamn = `${summary.ordernamn || 'Namnlöst'} (kopia)`;
+  const state = {
+    ...project.state,
+    libraryProjectId: copyId,
+    projectConfig: { ...(project.state.projectConfig as object), ordernamn },
+  };
+  const now = Date.now();
+  await putProject({ ...summary, id: copyId, ordernamn, createdAt: now, updatedAt: now }, state);
+  return copyId;
+}
+
+/** The library lists projects by order name — renaming sets it */
+export async function renameProject(id: string, ordernamn: string): Promise<void> {
+  const [project, summary] = await Promise.all([getProject(id), getSummary(id)]);
+  if (!project || !summary) return;
+  const state = {
+    ...project.state,
+    projectConfig: { ...(project.state.projectConfig as object), ordernamn },
+  };
+  await putProject({ ...summary, ordernamn, updatedAt: Date.now() }, state);
+  const store = useConfigStore.getState();
+  if (store.libraryProjectId === id) store.setProjectField('ordernamn', ordernamn);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(SUMMARIES).delete(id);
+  await done(tx);
+  const store = useConfigStore.getState();
+  if (store.libraryProjectId === id) store.setLibraryProjectId(null);
+}